@@ -6,7 +6,10 @@
  */
 
 import blessed from "blessed";
-import { GRID_COLUMNS, GRID_ROWS, TOTAL_CHANNELS, MonitorStats, RecordingState, PlaybackState, SACNSourceInfo, Protocol, formatUniverseForDisplay } from "./types";
+import { GRID_COLUMNS, GRID_ROWS, TOTAL_CHANNELS, MonitorStats, RecordingState, PlaybackState, PlaybackDrift, SACNSourceInfo, SACNDiscoveredSource, SourceMerge, SyncStats, ArtSyncStats, SequenceStats, TimingStats, SourceEvent, SourceEventType, ChannelArbitration, NO_CHANNEL_OWNER, UniverseInfo, ArtNetNode, RdmDevice, Protocol, formatUniverseForDisplay, isValidUniverse } from "./types";
+import { summarizePorts } from "./protocols/artnet-packets";
+import { formatUniverseRanges } from "./setup";
+import { TIMING_HISTOGRAM_BOUNDS } from "./timing";
 import { DisplayError } from "./errors";
 import { logDebug, logError, logInfo, disableConsoleLogging } from "./logger";
 
@@ -22,7 +25,11 @@ export interface PlaybackInfo {
   loopEnabled: boolean;
   fileName: string;
   universe: number;
+  /** All universes being played back (multi-universe recordings) */
+  universes?: number[];
   protocol: string;
+  /** Scheduler lateness and coalescing */
+  drift?: PlaybackDrift;
 }
 
 /** Display configuration */
@@ -36,6 +43,12 @@ export interface DisplayConfig {
 /** Display mode - what to show in each cell */
 export type DisplayMode = "value" | "channel";
 
+/** View mode - channel grid for one universe, the all-universe overview, the Art-Net node table, a node's RDM devices, the sACN source comparison, sACN universe discovery, timing diagnostics or the sACN source event timeline */
+export type ViewMode = "grid" | "overview" | "nodes" | "rdm" | "compare" | "discovery" | "timing" | "events";
+
+/** Merge view - what the grid shows for competing sACN sources: the winner, a merge, or one source (by index) */
+export type MergeView = "winner" | "htp" | "ltp" | number;
+
 /** Layout mode based on available space */
 type LayoutMode = "side" | "hidden";
 
@@ -57,6 +70,22 @@ const COL_HEADER_HEIGHT = 1;
 /** Resize debounce delay in ms */
 const RESIZE_DEBOUNCE_MS = 150;
 
+/** Width of the activity bar in the universe overview */
+const OVERVIEW_BAR_WIDTH = 10;
+
+/** Age after which a universe is shown as stale in the overview (ms) */
+const OVERVIEW_STALE_MS = 2500;
+
+/** How long a node that came back online stays highlighted in the node table (ms) */
+const NODE_RECOVERED_HIGHLIGHT_MS = 30000;
+
+/** Channels per row in the source comparison, on wide and narrow screens */
+const COMPARE_WIDE_CHANNELS = 16;
+const COMPARE_NARROW_CHANNELS = 8;
+
+/** Cell colors for the winning source of each channel in the priority overlay */
+const SOURCE_COLORS = ["blue", "magenta", "cyan", "green", "yellow", "red"];
+
 /**
  * Simple color mapping using basic colors for compatibility
  * Returns color name that blessed understands
@@ -82,12 +111,99 @@ function formatCentered(text: string, width: number): string {
   return " ".repeat(padding) + text + " ".repeat(width - text.length - padding);
 }
 
+/**
+ * Format the time since a universe was last seen, e.g. "0.4s", "12s", "3m"
+ */
+function formatAge(ms: number): string {
+  if (ms < 10000) return `${(ms / 1000).toFixed(1)}s`;
+  if (ms < 60000) return `${Math.floor(ms / 1000)}s`;
+  if (ms < 3600000) return `${Math.floor(ms / 60000)}m`;
+  return `${Math.floor(ms / 3600000)}h`;
+}
+
+/** Number of sACN source events kept for the timeline */
+const SOURCE_EVENT_LIMIT = 500;
+
+/** Timeline label and color per source event type */
+const SOURCE_EVENT_STYLES: Record<SourceEventType, { label: string; color: string }> = {
+  appeared: { label: "APPEARED", color: "green" },
+  terminated: { label: "TERMINATED", color: "cyan" },
+  timedOut: { label: "TIMED OUT", color: "red" },
+  tookOver: { label: "TOOK OVER", color: "yellow" },
+};
+
+/** Sparkline levels for the timing histograms, empty to full */
+const SPARK_LEVELS = [" ", "▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+/**
+ * Draw a histogram as a one-line sparkline scaled to its largest bucket
+ */
+function formatSparkline(counts: number[]): string {
+  const max = Math.max(...counts);
+  return counts
+    .map((count) => {
+      if (count === 0 || max === 0) return SPARK_LEVELS[0];
+      // Any non-empty bucket shows at least the lowest bar
+      return SPARK_LEVELS[Math.max(1, Math.round((count / max) * (SPARK_LEVELS.length - 1)))];
+    })
+    .join("");
+}
+
+/** Channel differences between two sources' frames */
+interface FrameDiff {
+  /** Number of channels that differ */
+  differing: number;
+  /** Largest difference and the (0-indexed) channel it is on */
+  maxDelta: number;
+  maxChannel: number;
+  /** Mean difference over the differing channels */
+  meanDelta: number;
+}
+
+/**
+ * Compare two frames channel by channel
+ */
+function diffFrames(a: Uint8Array, b: Uint8Array): FrameDiff {
+  let differing = 0;
+  let total = 0;
+  let maxDelta = 0;
+  let maxChannel = 0;
+
+  for (let i = 0; i < TOTAL_CHANNELS; i++) {
+    const delta = Math.abs((a[i] ?? 0) - (b[i] ?? 0));
+    if (delta === 0) continue;
+    differing++;
+    total += delta;
+    if (delta > maxDelta) {
+      maxDelta = delta;
+      maxChannel = i;
+    }
+  }
+
+  return { differing, maxDelta, maxChannel, meanDelta: differing > 0 ? total / differing : 0 };
+}
+
 /**
  * Display manager for DMX Monitor
  */
 export class DisplayManager {
   private screen: blessed.Widgets.Screen | null = null;
   private gridContainer: blessed.Widgets.BoxElement | null = null;
+  private overviewContainer: blessed.Widgets.BoxElement | null = null;
+  private overviewList: blessed.Widgets.ListElement | null = null;
+  private nodesContainer: blessed.Widgets.BoxElement | null = null;
+  private nodesList: blessed.Widgets.ListElement | null = null;
+  private rdmContainer: blessed.Widgets.BoxElement | null = null;
+  private rdmList: blessed.Widgets.ListElement | null = null;
+  private compareContainer: blessed.Widgets.BoxElement | null = null;
+  private compareSummary: blessed.Widgets.BoxElement | null = null;
+  private compareBox: blessed.Widgets.BoxElement | null = null;
+  private discoveryContainer: blessed.Widgets.BoxElement | null = null;
+  private discoveryList: blessed.Widgets.ListElement | null = null;
+  private timingContainer: blessed.Widgets.BoxElement | null = null;
+  private timingList: blessed.Widgets.ListElement | null = null;
+  private eventsContainer: blessed.Widgets.BoxElement | null = null;
+  private eventsList: blessed.Widgets.ListElement | null = null;
   private channelBoxes: blessed.Widgets.BoxElement[][] = [];
   private colHeaders: blessed.Widgets.BoxElement[] = [];
   private rowHeaders: blessed.Widgets.BoxElement[] = [];
@@ -143,8 +259,59 @@ export class DisplayManager {
   private onSpeedDownCallback: (() => void) | null = null;
   private onLoopToggleCallback: (() => void) | null = null;
 
+  // Multi-universe callbacks
+  private onNextUniverseCallback: (() => void) | null = null;
+  private onPreviousUniverseCallback: (() => void) | null = null;
+
   // sACN competing sources warning
   private competingSources: SACNSourceInfo[] = [];
+  private arbitration: ChannelArbitration | null = null;
+  private priorityOverlay = false;
+  /** Preview data sources take part in arbitration (toggled with W) */
+  private previewShown = false;
+  private onPreviewToggleCallback: (() => void) | null = null;
+  private merge: SourceMerge | null = null;
+  private mergeView: MergeView = "winner";
+  /** Source compared against the highest priority source (index into merge.sources) */
+  private compareSource = 1;
+  /** sACN sync address of the displayed universe (0 = unsynchronized) */
+  private syncAddress = 0;
+  private syncStats: SyncStats | null = null;
+  /** ArtSync from the controller of the displayed universe (null = never sent) */
+  private artSyncStats: ArtSyncStats | null = null;
+  /** Sequence statistics for each source on the displayed universe */
+  private sequenceStats: SequenceStats[] = [];
+
+  // Universe overview
+  private _viewMode: ViewMode = "grid";
+  private overviewUniverses: UniverseInfo[] = [];
+  private onUniverseSelectCallback: ((universe: number) => void) | null = null;
+
+  // Art-Net node inventory
+  private artNetNodes: ArtNetNode[] = [];
+  private onNodeSelectCallback: ((nodeIp: string) => void) | null = null;
+
+  // sACN universe discovery state
+  private discoveredSources: SACNDiscoveredSource[] = [];
+
+  // Inter-packet timing per source and universe
+  private timingStats: TimingStats[] = [];
+
+  // sACN source event timeline, newest first
+  private sourceEvents: SourceEvent[] = [];
+
+  // RDM devices of the selected node
+  private rdmNodeIp: string | null = null;
+  private rdmDevices: RdmDevice[] = [];
+  private rdmStatus = "";
+  private onRdmDiscoverCallback: ((nodeIp: string) => void) | null = null;
+  private onRdmDeviceRefreshCallback: ((uid: string) => void) | null = null;
+  private onRdmSetStartAddressCallback: ((uid: string, address: number) => void) | null = null;
+  private onRdmSetLabelCallback: ((uid: string, label: string) => void) | null = null;
+  private onRdmIdentifyCallback: ((uid: string, on: boolean) => void) | null = null;
+
+  // A prompt or confirmation dialog has the keyboard
+  private dialogOpen = false;
 
   constructor(config: DisplayConfig = {}) {
     this.config = {
@@ -337,6 +504,73 @@ export class DisplayManager {
       this.gridContainer = null;
     }
 
+    if (this.overviewList) {
+      this.overviewList.destroy();
+      this.overviewList = null;
+    }
+
+    if (this.overviewContainer) {
+      this.overviewContainer.destroy();
+      this.overviewContainer = null;
+    }
+
+    if (this.nodesList) {
+      this.nodesList.destroy();
+      this.nodesList = null;
+    }
+
+    if (this.nodesContainer) {
+      this.nodesContainer.destroy();
+      this.nodesContainer = null;
+    }
+
+    if (this.rdmList) {
+      this.rdmList.destroy();
+      this.rdmList = null;
+    }
+
+    if (this.rdmContainer) {
+      this.rdmContainer.destroy();
+      this.rdmContainer = null;
+    }
+
+    if (this.discoveryList) {
+      this.discoveryList.destroy();
+      this.discoveryList = null;
+    }
+
+    if (this.discoveryContainer) {
+      this.discoveryContainer.destroy();
+      this.discoveryContainer = null;
+    }
+
+    if (this.timingList) {
+      this.timingList.destroy();
+      this.timingList = null;
+    }
+
+    if (this.timingContainer) {
+      this.timingContainer.destroy();
+      this.timingContainer = null;
+    }
+
+    if (this.eventsList) {
+      this.eventsList.destroy();
+      this.eventsList = null;
+    }
+
+    if (this.eventsContainer) {
+      this.eventsContainer.destroy();
+      this.eventsContainer = null;
+    }
+
+    if (this.compareContainer) {
+      this.compareContainer.destroy();
+      this.compareContainer = null;
+      this.compareSummary = null;
+      this.compareBox = null;
+    }
+
     if (this.statsBox) {
       this.statsBox.destroy();
       this.statsBox = null;
@@ -468,7 +702,7 @@ export class DisplayManager {
         const cellTop = COL_HEADER_HEIGHT + row * this.cellHeight;
         const cellLeft = ROW_HEADER_WIDTH + col * this.cellWidth;
         const channelIndex = row * GRID_COLUMNS + col;
-        const value = this.channelData[channelIndex] ?? 0;
+        const value = this.getChannelValue(channelIndex);
 
         const box = blessed.box({
           parent: this.gridContainer,
@@ -479,8 +713,7 @@ export class DisplayManager {
           content: this.getCellContent(channelIndex, value),
           border: useBorder ? { type: "line" } : undefined,
           style: {
-            fg: value < 85 ? "white" : "black",
-            bg: getSimpleColor(value),
+            ...this.getCellColors(channelIndex, value),
             border: { fg: "white" },
           },
         });
@@ -488,6 +721,395 @@ export class DisplayManager {
       }
     }
 
+    // Universe overview - occupies the grid area, shown instead of the grid
+    this.overviewContainer = blessed.box({
+      parent: this.screen,
+      top: 3,
+      left: 0,
+      width: this.layoutMode === "side" ? `100%-${statsWidth}` : "100%",
+      height: "100%-6",
+      label: " All Universes ",
+      tags: true,
+      border: { type: "line" },
+      style: {
+        border: { fg: "cyan" },
+      },
+    });
+
+    blessed.box({
+      parent: this.overviewContainer,
+      top: 0,
+      left: 0,
+      width: "100%-2",
+      height: 1,
+      content: `  ${"Univ".padStart(5)}  ${"Source".padEnd(24)} ${"Rate".padStart(6)}  ${"Seen".padStart(6)}  ${"Active".padStart(7)}  Level`,
+      style: {
+        fg: "yellow",
+        bold: true,
+      },
+    });
+
+    this.overviewList = blessed.list({
+      parent: this.overviewContainer,
+      top: 1,
+      left: 0,
+      width: "100%-2",
+      height: "100%-3",
+      tags: true,
+      keys: true,
+      style: {
+        fg: "white",
+        selected: { bg: "blue", bold: true },
+      },
+      items: [],
+    });
+    this.overviewList.on("select", (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const info = this.overviewUniverses[index];
+      if (info) {
+        this.selectOverviewUniverse(info.universe);
+      }
+    });
+
+    // Art-Net node table - also occupies the grid area
+    this.nodesContainer = blessed.box({
+      parent: this.screen,
+      top: 3,
+      left: 0,
+      width: this.layoutMode === "side" ? `100%-${statsWidth}` : "100%",
+      height: "100%-6",
+      label: " Art-Net Nodes ",
+      tags: true,
+      border: { type: "line" },
+      style: {
+        border: { fg: "cyan" },
+      },
+    });
+
+    blessed.box({
+      parent: this.nodesContainer,
+      top: 0,
+      left: 0,
+      width: "100%-2",
+      height: 1,
+      content: ` ${"State".padEnd(6)} ${"IP".padEnd(15)} ${"Name".padEnd(18)} ${"Manufacturer".padEnd(20)} ${"Firmware".padEnd(8)} ${"Ports".padEnd(28)} ${"Seen".padStart(6)}`,
+      style: {
+        fg: "yellow",
+        bold: true,
+      },
+    });
+
+    this.nodesList = blessed.list({
+      parent: this.nodesContainer,
+      top: 1,
+      left: 0,
+      width: "100%-2",
+      height: "100%-3",
+      tags: true,
+      keys: true,
+      style: {
+        fg: "white",
+        selected: { bg: "blue", bold: true },
+      },
+      items: [],
+    });
+    this.nodesList.on("select", (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const node = this.artNetNodes[index];
+      if (node) {
+        this.selectNode(node.ip);
+      }
+    });
+
+    // RDM devices of one node - also occupies the grid area
+    this.rdmContainer = blessed.box({
+      parent: this.screen,
+      top: 3,
+      left: 0,
+      width: this.layoutMode === "side" ? `100%-${statsWidth}` : "100%",
+      height: "100%-6",
+      label: " RDM Devices ",
+      tags: true,
+      border: { type: "line" },
+      style: {
+        border: { fg: "cyan" },
+      },
+    });
+
+    blessed.box({
+      parent: this.rdmContainer,
+      top: 0,
+      left: 0,
+      width: "100%-2",
+      height: 1,
+      content: ` ${"UID".padEnd(13)}  ${"Label".padEnd(20)} ${"Univ".padStart(5)} ${"Addr".padStart(4)} ${"Foot".padStart(4)} ${"Pers".padStart(5)} ${"Model".padStart(6)}  Sensors`,
+      style: {
+        fg: "yellow",
+        bold: true,
+      },
+    });
+
+    this.rdmList = blessed.list({
+      parent: this.rdmContainer,
+      top: 1,
+      left: 0,
+      width: "100%-2",
+      height: "100%-3",
+      tags: true,
+      keys: true,
+      style: {
+        fg: "white",
+        selected: { bg: "blue", bold: true },
+      },
+      items: [],
+    });
+    this.rdmList.on("select", (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const device = this.rdmDevices[index];
+      if (device && this.onRdmDeviceRefreshCallback) {
+        this.onRdmDeviceRefreshCallback(device.uid);
+      }
+    });
+
+    // sACN source comparison - also occupies the grid area
+    this.compareContainer = blessed.box({
+      parent: this.screen,
+      top: 3,
+      left: 0,
+      width: this.layoutMode === "side" ? `100%-${statsWidth}` : "100%",
+      height: "100%-6",
+      label: " Source Comparison ",
+      tags: true,
+      border: { type: "line" },
+      style: {
+        border: { fg: "cyan" },
+      },
+    });
+
+    this.compareSummary = blessed.box({
+      parent: this.compareContainer,
+      top: 0,
+      left: 0,
+      width: "100%-2",
+      height: 2,
+      tags: true,
+    });
+
+    this.compareBox = blessed.box({
+      parent: this.compareContainer,
+      top: 2,
+      left: 0,
+      width: "100%-2",
+      height: "100%-4",
+      tags: true,
+      keys: true,
+      scrollable: true,
+      alwaysScroll: true,
+      style: {
+        fg: "white",
+      },
+    });
+
+    // sACN universe discovery - also occupies the grid area
+    this.discoveryContainer = blessed.box({
+      parent: this.screen,
+      top: 3,
+      left: 0,
+      width: this.layoutMode === "side" ? `100%-${statsWidth}` : "100%",
+      height: "100%-6",
+      label: " sACN Universe Discovery ",
+      tags: true,
+      border: { type: "line" },
+      style: {
+        border: { fg: "cyan" },
+      },
+    });
+
+    blessed.box({
+      parent: this.discoveryContainer,
+      top: 0,
+      left: 0,
+      width: "100%-2",
+      height: 1,
+      content: ` ${"Source".padEnd(24)} ${"IP".padEnd(15)} ${"Count".padStart(5)}  ${"Universes".padEnd(40)} ${"Seen".padStart(6)}`,
+      style: {
+        fg: "yellow",
+        bold: true,
+      },
+    });
+
+    this.discoveryList = blessed.list({
+      parent: this.discoveryContainer,
+      top: 1,
+      left: 0,
+      width: "100%-2",
+      height: "100%-3",
+      tags: true,
+      keys: true,
+      style: {
+        fg: "white",
+        selected: { bg: "blue", bold: true },
+      },
+      items: [],
+    });
+    this.discoveryList.on("select", (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const universe = this.discoveredSources[index]?.universes.find(isValidUniverse);
+      if (universe !== undefined) {
+        this.selectOverviewUniverse(universe);
+      }
+    });
+
+    // Timing diagnostics - also occupies the grid area
+    this.timingContainer = blessed.box({
+      parent: this.screen,
+      top: 3,
+      left: 0,
+      width: this.layoutMode === "side" ? `100%-${statsWidth}` : "100%",
+      height: "100%-6",
+      label: " Timing Diagnostics ",
+      tags: true,
+      border: { type: "line" },
+      style: {
+        border: { fg: "cyan" },
+      },
+    });
+
+    blessed.box({
+      parent: this.timingContainer,
+      top: 0,
+      left: 0,
+      width: "100%-2",
+      height: 1,
+      content: ` ${"Source".padEnd(18)} ${"Univ".padStart(5)} ${"Rate".padStart(6)} ${"Min".padStart(7)} ${"Mean".padStart(7)} ${"Max".padStart(7)} ${"P99".padStart(7)} ${"Jitter".padStart(7)} ${"Stalls".padStart(6)}  Histogram`,
+      style: {
+        fg: "yellow",
+        bold: true,
+      },
+    });
+
+    this.timingList = blessed.list({
+      parent: this.timingContainer,
+      top: 1,
+      left: 0,
+      width: "100%-2",
+      height: "100%-4",
+      tags: true,
+      keys: true,
+      style: {
+        fg: "white",
+        selected: { bg: "blue", bold: true },
+      },
+      items: [],
+    });
+    this.timingList.on("select", (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const stats = this.timingStats[index];
+      if (stats) {
+        this.selectOverviewUniverse(stats.universe);
+      }
+    });
+
+    blessed.box({
+      parent: this.timingContainer,
+      bottom: 0,
+      left: 0,
+      width: "100%-2",
+      height: 1,
+      content: ` Times in ms over the last 1000 packets. Histogram buckets: ${TIMING_HISTOGRAM_BOUNDS.map((bound) => `<${bound}`).join(" ")} ≥${TIMING_HISTOGRAM_BOUNDS[TIMING_HISTOGRAM_BOUNDS.length - 1]}`,
+      style: {
+        fg: "gray",
+      },
+    });
+
+    // sACN source event timeline - also occupies the grid area
+    this.eventsContainer = blessed.box({
+      parent: this.screen,
+      top: 3,
+      left: 0,
+      width: this.layoutMode === "side" ? `100%-${statsWidth}` : "100%",
+      height: "100%-6",
+      label: " sACN Source Events ",
+      tags: true,
+      border: { type: "line" },
+      style: {
+        border: { fg: "cyan" },
+      },
+    });
+
+    blessed.box({
+      parent: this.eventsContainer,
+      top: 0,
+      left: 0,
+      width: "100%-2",
+      height: 1,
+      content: ` ${"Time".padEnd(8)}  ${"Univ".padStart(5)}  ${"Event".padEnd(10)}  ${"Source".padEnd(24)} ${"IP".padEnd(15)} ${"Pri".padStart(3)}`,
+      style: {
+        fg: "yellow",
+        bold: true,
+      },
+    });
+
+    this.eventsList = blessed.list({
+      parent: this.eventsContainer,
+      top: 1,
+      left: 0,
+      width: "100%-2",
+      height: "100%-3",
+      tags: true,
+      keys: true,
+      style: {
+        fg: "white",
+        selected: { bg: "blue", bold: true },
+      },
+      items: [],
+    });
+    this.eventsList.on("select", (_item: blessed.Widgets.BlessedElement, index: number) => {
+      const event = this.sourceEvents[index];
+      if (event) {
+        this.selectOverviewUniverse(event.universe);
+      }
+    });
+
+    if (this._viewMode !== "events") {
+      this.eventsContainer.hide();
+    }
+    if (this._viewMode !== "timing") {
+      this.timingContainer.hide();
+    }
+    if (this._viewMode !== "discovery") {
+      this.discoveryContainer.hide();
+    }
+    if (this._viewMode !== "compare") {
+      this.compareContainer.hide();
+    }
+    if (this._viewMode !== "overview") {
+      this.overviewContainer.hide();
+    }
+    if (this._viewMode !== "nodes") {
+      this.nodesContainer.hide();
+    }
+    if (this._viewMode !== "rdm") {
+      this.rdmContainer.hide();
+    }
+    if (this._viewMode === "overview") {
+      this.gridContainer.hide();
+      this.overviewList.focus();
+    } else if (this._viewMode === "nodes") {
+      this.gridContainer.hide();
+      this.nodesList.focus();
+    } else if (this._viewMode === "rdm") {
+      this.gridContainer.hide();
+      this.rdmList.focus();
+    } else if (this._viewMode === "compare") {
+      this.gridContainer.hide();
+      this.compareBox.focus();
+    } else if (this._viewMode === "discovery") {
+      this.gridContainer.hide();
+      this.discoveryList.focus();
+    } else if (this._viewMode === "timing") {
+      this.gridContainer.hide();
+      this.timingList.focus();
+    } else if (this._viewMode === "events") {
+      this.gridContainer.hide();
+      this.eventsList.focus();
+    }
+
     // Footer with help - include stats info if panel is hidden
     this.footerBox = blessed.box({
       parent: this.screen,
@@ -506,95 +1128,807 @@ export class DisplayManager {
   }
 
   /**
-   * Get cell content based on display mode
+   * Get cell content based on display mode
+   */
+  private getCellContent(channelIndex: number, value: number): string {
+    const hasBorder = this.cellHeight >= 3 && this.cellWidth >= 5;
+    const innerWidth = hasBorder ? this.cellWidth - 2 : this.cellWidth;
+
+    if (this.priorityOverlay) {
+      const owner = this.getChannelOwner(channelIndex);
+      return formatCentered(owner ? owner.priority.toString() : "-", innerWidth);
+    }
+
+    if (this._displayMode === "value") {
+      return formatCentered(value.toString(), innerWidth);
+    } else {
+      return formatCentered((channelIndex + 1).toString(), innerWidth);
+    }
+  }
+
+  /**
+   * Get cell colors - by level, or by winning source in the priority overlay
+   */
+  private getCellColors(channelIndex: number, value: number): { fg: string; bg: string } {
+    if (this.priorityOverlay) {
+      const owner = this.getChannelOwner(channelIndex);
+      if (!owner) {
+        return { fg: "white", bg: "black" };
+      }
+      return { fg: "black", bg: SOURCE_COLORS[owner.index % SOURCE_COLORS.length]! };
+    }
+
+    return { fg: value < 85 ? "white" : "black", bg: getSimpleColor(value) };
+  }
+
+  /**
+   * Get the source driving a channel and its priority
+   * Without per-address priority the active source drives every channel.
+   */
+  private getChannelOwner(channelIndex: number): { index: number; priority: number } | null {
+    if (this.arbitration) {
+      const index = this.arbitration.owners[channelIndex] ?? NO_CHANNEL_OWNER;
+      if (index === NO_CHANNEL_OWNER) return null;
+      return { index, priority: this.arbitration.priorities[channelIndex] ?? 0 };
+    }
+
+    const active = this.competingSources.find((s) => s.isActive);
+    return active ? { index: 0, priority: active.priority } : null;
+  }
+
+  /**
+   * Get the level shown for a channel in the current merge view
+   */
+  private getChannelValue(channelIndex: number): number {
+    if (this.merge && this.mergeView !== "winner") {
+      if (this.mergeView === "htp") return this.merge.htp[channelIndex] ?? 0;
+      if (this.mergeView === "ltp") return this.merge.ltp[channelIndex] ?? 0;
+      return this.merge.sources[this.mergeView]?.channels[channelIndex] ?? 0;
+    }
+    return this.channelData[channelIndex] ?? 0;
+  }
+
+  /**
+   * Cycle the merge view: winner, HTP, LTP, then each source in turn
+   */
+  public cycleMergeView(): void {
+    if (!this.merge) return;
+
+    if (this.mergeView === "winner") {
+      this.mergeView = "htp";
+    } else if (this.mergeView === "htp") {
+      this.mergeView = "ltp";
+    } else if (this.mergeView === "ltp") {
+      this.mergeView = 0;
+    } else {
+      this.mergeView = this.mergeView + 1 < this.merge.sources.length ? this.mergeView + 1 : "winner";
+    }
+
+    logInfo(`Merge view changed to: ${this.describeMergeView()}`);
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Describe the current merge view, e.g. "HTP merge" or "Source 2/3"
+   */
+  private describeMergeView(): string {
+    if (this.mergeView === "winner") return "Winner only";
+    if (this.mergeView === "htp") return "HTP merge";
+    if (this.mergeView === "ltp") return "LTP merge";
+    return `Source ${this.mergeView + 1}/${this.merge?.sources.length ?? 0}`;
+  }
+
+  /**
+   * Toggle the per-channel priority overlay (sACN only)
+   */
+  public togglePriorityOverlay(): void {
+    if (this.stats.protocol !== "sacn") return;
+
+    this.priorityOverlay = !this.priorityOverlay;
+    logInfo(`Priority overlay ${this.priorityOverlay ? "enabled" : "disabled"}`);
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Rebuild the entire layout
+   */
+  private rebuildLayout(): void {
+    if (!this.screen) return;
+
+    // Destroy all existing elements
+    this.destroyAllElements();
+
+    // Recreate layout
+    this.createLayout();
+
+    // Force render
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Get footer content based on current mode and layout
+   */
+  private getFooterContent(): string {
+    if (this._uiMode === "playback") {
+      return this.getPlaybackFooterContent();
+    }
+
+    if (this._viewMode === "overview") {
+      return ` {bold}↑/↓{/bold}: Select | {bold}Enter{/bold}: View universe | {bold}O{/bold}: Back to grid | {bold}Q{/bold}: Quit `;
+    }
+
+    if (this._viewMode === "nodes") {
+      return ` {bold}↑/↓{/bold}: Select | {bold}Enter{/bold}: RDM devices | {bold}N{/bold}: Back to grid | {bold}Q{/bold}: Quit `;
+    }
+
+    if (this._viewMode === "discovery") {
+      return ` {bold}↑/↓{/bold}: Select | {bold}Enter{/bold}: View first universe | {bold}U{/bold}: Back to grid | {bold}Q{/bold}: Quit `;
+    }
+
+    if (this._viewMode === "timing") {
+      return ` {bold}↑/↓{/bold}: Select | {bold}Enter{/bold}: View universe | {bold}T{/bold}: Back to grid | {bold}Q{/bold}: Quit `;
+    }
+
+    if (this._viewMode === "events") {
+      return ` {bold}↑/↓{/bold}: Select | {bold}Enter{/bold}: View universe | {bold}E{/bold}: Back to grid | {bold}Q{/bold}: Quit `;
+    }
+
+    if (this._viewMode === "compare") {
+      const nextText = (this.merge?.sources.length ?? 0) > 2 ? " | {bold}Tab{/bold}: Next source" : "";
+      return ` {bold}↑/↓{/bold}: Scroll${nextText} | {bold}X{/bold}: Back to grid | {bold}Q{/bold}: Quit `;
+    }
+
+    if (this._viewMode === "rdm") {
+      return ` {bold}↑/↓{/bold}: Select | {bold}Enter{/bold}: Refresh | {bold}A{/bold}: Address | {bold}L{/bold}: Label | {bold}I{/bold}: Identify | {bold}D{/bold}: Discover | {bold}N{/bold}: Nodes | {bold}Q{/bold}: Quit `;
+    }
+
+    const modeText = this._displayMode === "value" ? "VALUES" : "CHANNELS";
+    const recText = this._recordingState === "recording" ? "*** RECORDING ***" : "{bold}R{/bold}: Record";
+    const universeText = this.isMultiUniverse() ? " | {bold}[/]{/bold}: Universe" : "";
+
+    if (this.layoutMode === "hidden") {
+      // Include basic stats in footer when stats panel is hidden
+      // Convert universe to 1-indexed display format for Art-Net
+      const displayUniverse = formatUniverseForDisplay(this.stats.universe, this.stats.protocol);
+      const pps = this.stats.packetsPerSecond.toFixed(0);
+      return ` {bold}Q{/bold}: Quit | ${recText} | {bold}C{/bold}: Clear | {bold}V{/bold}: Toggle (${modeText})${universeText} | Pkts: ${this.stats.packetsReceived} | ${pps}/s | U:${displayUniverse}${this.getUniversePositionText()} `;
+    }
+
+    const nodesText = this.stats.protocol === "artnet" ? " | {bold}N{/bold}: Nodes" : "";
+    const priorityText = this.stats.protocol === "sacn" ? " | {bold}P{/bold}: Priority | {bold}U{/bold}: Discovery | {bold}E{/bold}: Events" : "";
+    const previewText = this.competingSources.some((s) => s.preview) ? ` | {bold}W{/bold}: Preview (${this.previewShown ? "shown" : "hidden"})` : "";
+    const mergeText = this.merge ? ` | {bold}M{/bold}: View (${this.describeMergeView()}) | {bold}X{/bold}: Compare` : "";
+    return ` {bold}Q{/bold}: Quit | ${recText} | {bold}C{/bold}: Clear | {bold}V{/bold}: Toggle (${modeText})${universeText} | {bold}O{/bold}: Overview | {bold}T{/bold}: Timing${nodesText}${priorityText}${previewText}${mergeText} `;
+  }
+
+  /**
+   * Get footer content for playback mode
+   */
+  private getPlaybackFooterContent(): string {
+    const playPauseText = this.playbackInfo.state === "playing" ? "Pause" : "Play";
+    const loopText = this.playbackInfo.loopEnabled ? "{green-fg}L{/green-fg}" : "L";
+    const universeText = this.isMultiUniverse() ? " | {bold}[/]{/bold}: Universe" : "";
+
+    return ` {bold}Space{/bold}: ${playPauseText} | {bold}S{/bold}: Stop | {bold}${loopText}{/bold}: Loop | {bold}+/-{/bold}: Speed | {bold}←/→{/bold}: Seek${universeText} | {bold}Q{/bold}: Quit `;
+  }
+
+  /**
+   * Toggle between value and channel display modes
+   */
+  public toggleDisplayMode(): void {
+    // Debounce
+    const now = Date.now();
+    if (now - this.lastToggleTime < 200) {
+      return;
+    }
+    this.lastToggleTime = now;
+
+    this._displayMode = this._displayMode === "value" ? "channel" : "value";
+    logInfo(`Display mode changed to: ${this._displayMode}`);
+
+    // Update footer
+    if (this.footerBox) {
+      this.footerBox.setContent(this.getFooterContent());
+    }
+
+    // Update stats display
+    if (this.statsBox) {
+      this.updateStatsContent();
+    }
+
+    // Force render
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Get current view mode
+   */
+  get viewMode(): ViewMode {
+    return this._viewMode;
+  }
+
+  /**
+   * Toggle between the channel grid and the all-universe overview
+   */
+  public toggleOverview(): void {
+    this.setViewMode(this._viewMode === "grid" ? "overview" : "grid");
+  }
+
+  /**
+   * Toggle between the channel grid and the Art-Net node table
+   */
+  public toggleNodeTable(): void {
+    this.setViewMode(this._viewMode === "nodes" ? "grid" : "nodes");
+  }
+
+  /**
+   * Toggle between the channel grid and the sACN source comparison
+   */
+  public toggleCompare(): void {
+    this.setViewMode(this._viewMode === "compare" ? "grid" : "compare");
+  }
+
+  /**
+   * Compare the highest priority source against the next source in turn
+   */
+  public cycleCompareSource(): void {
+    const count = this.merge?.sources.length ?? 0;
+    if (count < 3) return;
+
+    this.compareSource = this.compareSource + 1 < count ? this.compareSource + 1 : 1;
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Get the comparison summary: which sources are compared and how far they disagree
+   */
+  private getCompareSummary(): string {
+    const a = this.merge?.sources[0];
+    const b = this.merge?.sources[this.compareSource];
+    if (!a || !b) {
+      return " {yellow-fg}Needs two or more sACN sources on this universe (monitor with --merge){/yellow-fg}";
+    }
+
+    const diff = diffFrames(a.channels, b.channels);
+    const result =
+      diff.differing === 0
+        ? "{green-fg}Identical{/green-fg}"
+        : `{red-fg}${diff.differing} channel${diff.differing === 1 ? "" : "s"} differ{/red-fg} | max Δ ${diff.maxDelta} (ch ${diff.maxChannel + 1}) | mean Δ ${diff.meanDelta.toFixed(1)}`;
+    return ` {bold}A:{/bold} ${this.truncateSource(a.sourceName, 24)} (pri:${a.priority})  {bold}B:{/bold} ${this.truncateSource(b.sourceName, 24)} (pri:${b.priority})\n ${result}`;
+  }
+
+  /**
+   * Get the comparison rows: A's values beside B's, differing channels highlighted
+   */
+  private getCompareLines(): string {
+    const a = this.merge?.sources[0];
+    const b = this.merge?.sources[this.compareSource];
+    if (!a || !b) return "";
+
+    // 4 characters per value per side, plus the channel number and separators
+    const width = typeof this.compareBox?.width === "number" ? this.compareBox.width : 0;
+    const perRow = width >= COMPARE_WIDE_CHANNELS * 8 + 10 ? COMPARE_WIDE_CHANNELS : COMPARE_NARROW_CHANNELS;
+
+    const formatValue = (value: number, differs: boolean): string => {
+      const text = value.toString().padStart(3);
+      return differs ? `{black-fg}{yellow-bg}${text}{/yellow-bg}{/black-fg}` : text;
+    };
+
+    const lines: string[] = [];
+    for (let start = 0; start < TOTAL_CHANNELS; start += perRow) {
+      const left: string[] = [];
+      const right: string[] = [];
+      for (let i = start; i < start + perRow; i++) {
+        const va = a.channels[i] ?? 0;
+        const vb = b.channels[i] ?? 0;
+        left.push(formatValue(va, va !== vb));
+        right.push(formatValue(vb, va !== vb));
+      }
+      lines.push(` {yellow-fg}${(start + 1).toString().padStart(3)}{/yellow-fg} │ ${left.join(" ")} │ ${right.join(" ")}`);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Switch between the channel grid, the all-universe overview and the node table
+   */
+  public setViewMode(mode: ViewMode): void {
+    if (this._viewMode === mode) return;
+    this._viewMode = mode;
+    logInfo(`View mode changed to: ${mode}`);
+
+    this.gridContainer?.hide();
+    this.overviewContainer?.hide();
+    this.nodesContainer?.hide();
+    this.rdmContainer?.hide();
+    this.compareContainer?.hide();
+    this.discoveryContainer?.hide();
+    this.timingContainer?.hide();
+    this.eventsContainer?.hide();
+
+    if (mode === "overview") {
+      this.overviewContainer?.show();
+      this.overviewList?.focus();
+      // Start with the universe being viewed highlighted
+      const index = this.overviewUniverses.findIndex((u) => u.universe === this.stats.universe);
+      if (index >= 0) {
+        this.overviewList?.select(index);
+      }
+    } else if (mode === "nodes") {
+      this.nodesContainer?.show();
+      this.nodesList?.focus();
+    } else if (mode === "rdm") {
+      this.rdmContainer?.show();
+      this.rdmList?.focus();
+    } else if (mode === "compare") {
+      this.compareContainer?.show();
+      this.compareBox?.focus();
+    } else if (mode === "discovery") {
+      this.discoveryContainer?.show();
+      this.discoveryList?.focus();
+    } else if (mode === "timing") {
+      this.timingContainer?.show();
+      this.timingList?.focus();
+    } else if (mode === "events") {
+      this.eventsContainer?.show();
+      this.eventsList?.focus();
+    } else {
+      this.gridContainer?.show();
+    }
+
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Set callback for drilling into a universe from the overview
+   */
+  public onUniverseSelect(callback: (universe: number) => void): void {
+    this.onUniverseSelectCallback = callback;
+  }
+
+  /**
+   * Update the universe list shown on the overview screen
+   */
+  updateUniverseOverview(universes: UniverseInfo[]): void {
+    this.overviewUniverses = universes;
+    if (this._viewMode === "overview") {
+      this.needsRender = true;
+    }
+  }
+
+  /**
+   * Toggle between the channel grid and the sACN universe discovery list
+   */
+  public toggleDiscovery(): void {
+    this.setViewMode(this._viewMode === "discovery" ? "grid" : "discovery");
+  }
+
+  /**
+   * Update the sources heard through sACN universe discovery
+   */
+  updateDiscoveredSources(sources: SACNDiscoveredSource[]): void {
+    this.discoveredSources = sources;
+    if (this._viewMode === "discovery") {
+      this.needsRender = true;
+    }
+  }
+
+  /**
+   * Build the universe discovery list rows
+   */
+  private getDiscoveryItems(): string[] {
+    if (this.discoveredSources.length === 0) {
+      return [" No sACN sources have announced their universes yet (sources announce every 10s)"];
+    }
+
+    const now = Date.now();
+    return this.discoveredSources.map((source) => {
+      const name = (source.sourceName || "Unknown").slice(0, 24).padEnd(24);
+      const ip = source.address.padEnd(15);
+      const count = source.universes.length.toString().padStart(5);
+      const universes = formatUniverseRanges(source.universes).slice(0, 40).padEnd(40);
+      const seen = formatAge(now - source.lastSeen.getTime()).padStart(6);
+      return ` ${name} ${ip} ${count}  ${universes} ${seen}`;
+    });
+  }
+
+  /**
+   * Toggle between the channel grid and the timing diagnostics
+   */
+  public toggleTiming(): void {
+    this.setViewMode(this._viewMode === "timing" ? "grid" : "timing");
+  }
+
+  /**
+   * Update inter-packet timing statistics for every source and universe
+   */
+  updateTimingStats(stats: TimingStats[]): void {
+    this.timingStats = stats;
+    if (this._viewMode === "timing") {
+      this.needsRender = true;
+    }
+  }
+
+  /**
+   * Build the timing diagnostics rows
+   */
+  private getTimingItems(): string[] {
+    if (this.timingStats.length === 0) {
+      return [" No packets received yet"];
+    }
+
+    const ms = (value: number): string => value.toFixed(1).padStart(7);
+    return this.timingStats.map((stats) => {
+      const name = this.truncateSource(stats.source || "Unknown").padEnd(18);
+      const universe = formatUniverseForDisplay(stats.universe, this.stats.protocol).toString().padStart(5);
+      const rate = stats.stalled ? "{red-fg} STALL{/red-fg}" : stats.refreshRate.toFixed(1).padStart(6);
+      const stalls = stats.stalls > 0 ? `{red-fg}${stats.stalls.toString().padStart(6)}{/red-fg}` : "0".padStart(6);
+      return ` ${name} ${universe} ${rate} ${ms(stats.minInterval)} ${ms(stats.meanInterval)} ${ms(stats.maxInterval)} ${ms(stats.p99Interval)} ${ms(stats.jitter)} ${stalls}  ${formatSparkline(stats.histogram)}`;
+    });
+  }
+
+  /**
+   * Toggle between the channel grid and the sACN source event timeline
+   */
+  public toggleEvents(): void {
+    this.setViewMode(this._viewMode === "events" ? "grid" : "events");
+  }
+
+  /**
+   * Add an sACN source transition to the event timeline
+   */
+  addSourceEvent(event: SourceEvent): void {
+    this.sourceEvents.unshift(event);
+    if (this.sourceEvents.length > SOURCE_EVENT_LIMIT) {
+      this.sourceEvents.length = SOURCE_EVENT_LIMIT;
+    }
+    if (this._viewMode === "events") {
+      this.needsRender = true;
+    }
+  }
+
+  /**
+   * Build the event timeline rows, newest first
+   */
+  private getEventItems(): string[] {
+    if (this.sourceEvents.length === 0) {
+      return [" No source events yet"];
+    }
+
+    return this.sourceEvents.map((event) => {
+      const style = SOURCE_EVENT_STYLES[event.type];
+      const time = event.time.toLocaleTimeString([], { hour12: false }).padEnd(8);
+      const universe = event.universe.toString().padStart(5);
+      const label = `{${style.color}-fg}${style.label.padEnd(10)}{/${style.color}-fg}`;
+      const name = (event.sourceName || "Unknown").slice(0, 24).padEnd(24);
+      const ip = (event.sourceAddress ?? "").padEnd(15);
+      return ` ${time}  ${universe}  ${label}  ${name} ${ip} ${event.priority.toString().padStart(3)}`;
+    });
+  }
+
+  /**
+   * Drill into a universe selected on the overview screen
+   */
+  private selectOverviewUniverse(universe: number): void {
+    logInfo(`Universe ${universe} selected from overview`);
+    if (this.onUniverseSelectCallback) {
+      this.onUniverseSelectCallback(universe);
+    }
+    this.setViewMode("grid");
+  }
+
+  /**
+   * Build the overview list rows
+   */
+  private getOverviewItems(): string[] {
+    if (this.overviewUniverses.length === 0) {
+      return [" No universes seen yet"];
+    }
+
+    const now = Date.now();
+    return this.overviewUniverses.map((info) => {
+      const marker = info.universe === this.stats.universe ? "▶" : " ";
+      const displayUniverse = formatUniverseForDisplay(info.universe, this.stats.protocol).toString().padStart(5);
+      const source = (info.source ?? "unknown").slice(0, 24).padEnd(24);
+      const rate = `${(info.packetsPerSecond ?? 0).toFixed(0)}/s`.padStart(6);
+      const ageMs = now - info.lastSeen.getTime();
+      const age = formatAge(ageMs).padStart(6);
+      const ageText = ageMs > OVERVIEW_STALE_MS ? `{red-fg}${age}{/red-fg}` : age;
+      const active = `${info.activeChannels ?? 0}/${TOTAL_CHANNELS}`.padStart(7);
+      const filled = Math.round(((info.averageLevel ?? 0) / 255) * OVERVIEW_BAR_WIDTH);
+      const bar = `{green-fg}${"█".repeat(filled)}{/green-fg}${"░".repeat(OVERVIEW_BAR_WIDTH - filled)}`;
+      return ` ${marker}${displayUniverse}  ${source} ${rate}  ${ageText}  ${active}  ${bar}`;
+    });
+  }
+
+  /**
+   * Update the Art-Net nodes shown in the node table
+   */
+  updateNodes(nodes: ArtNetNode[]): void {
+    this.artNetNodes = nodes;
+    if (this._viewMode === "nodes") {
+      this.needsRender = true;
+    }
+  }
+
+  /**
+   * Build the node table rows
+   * Lost nodes are shown in red, nodes that recently came back in yellow.
+   */
+  private getNodeItems(): string[] {
+    if (this.artNetNodes.length === 0) {
+      return [" No Art-Net nodes have replied to ArtPoll yet"];
+    }
+
+    const now = Date.now();
+    return this.artNetNodes.map((node) => {
+      const recovered = node.online && node.statusChangedAt !== undefined && now - node.statusChangedAt.getTime() < NODE_RECOVERED_HIGHLIGHT_MS;
+      const state = node.online ? (recovered ? "BACK" : "OK") : "LOST";
+      const ip = node.ip.padEnd(15);
+      const name = (node.shortName || "Unknown").slice(0, 18).padEnd(18);
+      const manufacturer = (node.manufacturer ?? "").slice(0, 20).padEnd(20);
+      const firmware = (node.firmwareVersion ?? "").slice(0, 8).padEnd(8);
+      // Art-Net universes are shown 1-indexed, matching the rest of the UI
+      const ports = summarizePorts(node.ports, (u) => u + 1).slice(0, 28).padEnd(28);
+      const seen = formatAge(now - node.lastSeen.getTime()).padStart(6);
+      const row = ` ${state.padEnd(6)} ${ip} ${name} ${manufacturer} ${firmware} ${ports} ${seen}`;
+
+      if (!node.online) return `{red-fg}${row}{/red-fg}`;
+      if (recovered) return `{yellow-fg}${row}{/yellow-fg}`;
+      return row;
+    });
+  }
+
+  /**
+   * Set callback for opening a node's RDM devices from the node table
+   */
+  public onNodeSelect(callback: (nodeIp: string) => void): void {
+    this.onNodeSelectCallback = callback;
+  }
+
+  /**
+   * Set callback for re-running RDM discovery on the displayed node
+   */
+  public onRdmDiscover(callback: (nodeIp: string) => void): void {
+    this.onRdmDiscoverCallback = callback;
+  }
+
+  /**
+   * Set callback for re-reading one RDM device
+   */
+  public onRdmDeviceRefresh(callback: (uid: string) => void): void {
+    this.onRdmDeviceRefreshCallback = callback;
+  }
+
+  /**
+   * Set callback for changing an RDM device's DMX start address (after confirmation)
+   */
+  public onRdmSetStartAddress(callback: (uid: string, address: number) => void): void {
+    this.onRdmSetStartAddressCallback = callback;
+  }
+
+  /**
+   * Set callback for changing an RDM device's label (after confirmation)
+   */
+  public onRdmSetLabel(callback: (uid: string, label: string) => void): void {
+    this.onRdmSetLabelCallback = callback;
+  }
+
+  /**
+   * Set callback for switching an RDM device's identify mode (after confirmation)
+   */
+  public onRdmIdentify(callback: (uid: string, on: boolean) => void): void {
+    this.onRdmIdentifyCallback = callback;
+  }
+
+  /**
+   * Update the RDM devices shown for the selected node
+   */
+  updateRdmDevices(devices: RdmDevice[]): void {
+    this.rdmDevices = devices;
+    if (this._viewMode === "rdm") {
+      this.needsRender = true;
+    }
+  }
+
+  /**
+   * Set the RDM status text shown in the panel label (e.g. "discovering...")
+   */
+  setRdmStatus(status: string): void {
+    this.rdmStatus = status;
+    if (this._viewMode === "rdm") {
+      this.needsRender = true;
+    }
+  }
+
+  /**
+   * Open the RDM device list of a node selected in the node table
+   */
+  private selectNode(nodeIp: string): void {
+    logInfo(`Node ${nodeIp} selected for RDM`);
+    if (this.rdmNodeIp !== nodeIp) {
+      this.rdmDevices = [];
+      this.rdmStatus = "";
+    }
+    this.rdmNodeIp = nodeIp;
+    this.setViewMode("rdm");
+    if (this.onNodeSelectCallback) {
+      this.onNodeSelectCallback(nodeIp);
+    }
+  }
+
+  /**
+   * Get the highlighted row of a list (blessed tracks it but leaves it out of its typings)
+   */
+  private getSelectedIndex(list: blessed.Widgets.ListElement): number {
+    return (list as blessed.Widgets.ListElement & { selected?: number }).selected ?? 0;
+  }
+
+  /**
+   * Get the RDM device highlighted in the RDM panel
+   */
+  private getSelectedRdmDevice(): RdmDevice | null {
+    if (this._viewMode !== "rdm" || this.dialogOpen || !this.rdmList) return null;
+    const selected = this.getSelectedIndex(this.rdmList);
+    return this.rdmDevices[selected] ?? null;
+  }
+
+  /**
+   * Describe an RDM device for dialogs, e.g. "1234:00000001 (Wash 1)"
+   */
+  private describeRdmDevice(device: RdmDevice): string {
+    return device.label ? `${device.uid} (${device.label})` : device.uid;
+  }
+
+  /**
+   * Ask for a new DMX start address for the selected RDM device
+   */
+  private promptRdmStartAddress(): void {
+    const device = this.getSelectedRdmDevice();
+    if (!device) return;
+
+    const current = device.dmxStartAddress?.toString() ?? "";
+    this.askText(`New DMX start address for ${this.describeRdmDevice(device)}:`, current, (value) => {
+      if (value === null || value.trim() === "") return;
+      const address = Number(value.trim());
+      if (!Number.isInteger(address)) {
+        this.setRdmStatus(`"${value.trim()}" is not a DMX address`);
+        return;
+      }
+      this.askConfirm(`Change DMX start address of ${this.describeRdmDevice(device)} from ${current || "?"} to ${address}?`, (ok) => {
+        if (ok && this.onRdmSetStartAddressCallback) {
+          this.onRdmSetStartAddressCallback(device.uid, address);
+        }
+      });
+    });
+  }
+
+  /**
+   * Ask for a new label for the selected RDM device
+   */
+  private promptRdmLabel(): void {
+    const device = this.getSelectedRdmDevice();
+    if (!device) return;
+
+    this.askText(`New label for ${device.uid}:`, device.label ?? "", (value) => {
+      if (value === null) return;
+      this.askConfirm(`Change label of ${device.uid} from "${device.label ?? ""}" to "${value}"?`, (ok) => {
+        if (ok && this.onRdmSetLabelCallback) {
+          this.onRdmSetLabelCallback(device.uid, value);
+        }
+      });
+    });
+  }
+
+  /**
+   * Ask to toggle identify mode of the selected RDM device
    */
-  private getCellContent(channelIndex: number, value: number): string {
-    const hasBorder = this.cellHeight >= 3 && this.cellWidth >= 5;
-    const innerWidth = hasBorder ? this.cellWidth - 2 : this.cellWidth;
-
-    if (this._displayMode === "value") {
-      return formatCentered(value.toString(), innerWidth);
-    } else {
-      return formatCentered((channelIndex + 1).toString(), innerWidth);
-    }
+  private promptRdmIdentify(): void {
+    const device = this.getSelectedRdmDevice();
+    if (!device) return;
+
+    const on = !device.identifying;
+    this.askConfirm(`Turn identify ${on ? "on" : "off"} for ${this.describeRdmDevice(device)}?`, (ok) => {
+      if (ok && this.onRdmIdentifyCallback) {
+        this.onRdmIdentifyCallback(device.uid, on);
+      }
+    });
   }
 
   /**
-   * Rebuild the entire layout
+   * Show a text input dialog; the callback gets null if it was cancelled
    */
-  private rebuildLayout(): void {
+  private askText(message: string, initial: string, callback: (value: string | null) => void): void {
     if (!this.screen) return;
 
-    // Destroy all existing elements
-    this.destroyAllElements();
-
-    // Recreate layout
-    this.createLayout();
+    this.dialogOpen = true;
+    const prompt = blessed.prompt({
+      parent: this.screen,
+      top: "center",
+      left: "center",
+      width: 70,
+      height: 8,
+      tags: true,
+      border: { type: "line" },
+      label: " RDM ",
+      style: {
+        border: { fg: "yellow" },
+      },
+    });
 
-    // Force render
-    this.needsRender = true;
-    this.render();
+    prompt.input(message, initial, (_err: unknown, value: string | null) => {
+      prompt.destroy();
+      this.dialogOpen = false;
+      this.needsRender = true;
+      this.render();
+      callback(value ?? null);
+    });
   }
 
   /**
-   * Get footer content based on current mode and layout
+   * Show a yes/no confirmation dialog
    */
-  private getFooterContent(): string {
-    if (this._uiMode === "playback") {
-      return this.getPlaybackFooterContent();
-    }
-
-    const modeText = this._displayMode === "value" ? "VALUES" : "CHANNELS";
-    const recText = this._recordingState === "recording" ? "*** RECORDING ***" : "{bold}R{/bold}: Record";
-
-    if (this.layoutMode === "hidden") {
-      // Include basic stats in footer when stats panel is hidden
-      // Convert universe to 1-indexed display format for Art-Net
-      const displayUniverse = formatUniverseForDisplay(this.stats.universe, this.stats.protocol);
-      const pps = this.stats.packetsPerSecond.toFixed(0);
-      return ` {bold}Q{/bold}: Quit | ${recText} | {bold}C{/bold}: Clear | {bold}V{/bold}: Toggle (${modeText}) | Pkts: ${this.stats.packetsReceived} | ${pps}/s | U:${displayUniverse} `;
-    }
-
-    return ` {bold}Q{/bold}: Quit | ${recText} | {bold}C{/bold}: Clear | {bold}V{/bold}: Toggle (${modeText}) `;
-  }
+  private askConfirm(message: string, callback: (ok: boolean) => void): void {
+    if (!this.screen) return;
 
-  /**
-   * Get footer content for playback mode
-   */
-  private getPlaybackFooterContent(): string {
-    const playPauseText = this.playbackInfo.state === "playing" ? "Pause" : "Play";
-    const loopText = this.playbackInfo.loopEnabled ? "{green-fg}L{/green-fg}" : "L";
+    this.dialogOpen = true;
+    const question = blessed.question({
+      parent: this.screen,
+      top: "center",
+      left: "center",
+      width: 70,
+      height: 7,
+      tags: true,
+      border: { type: "line" },
+      label: " Confirm (y/n) ",
+      style: {
+        border: { fg: "yellow" },
+      },
+    });
 
-    return ` {bold}Space{/bold}: ${playPauseText} | {bold}S{/bold}: Stop | {bold}${loopText}{/bold}: Loop | {bold}+/-{/bold}: Speed | {bold}←/→{/bold}: Seek | {bold}Q{/bold}: Quit `;
+    // Typed as a string answer, but blessed passes a boolean
+    question.ask(message, (_err: unknown, answer: unknown) => {
+      question.destroy();
+      // Release the keyboard after this keypress has been handled, so "q" or "n" don't also act on the screen
+      setImmediate(() => {
+        this.dialogOpen = false;
+      });
+      this.needsRender = true;
+      this.render();
+      callback(answer === true);
+    });
   }
 
   /**
-   * Toggle between value and channel display modes
+   * Build the RDM device list rows
    */
-  public toggleDisplayMode(): void {
-    // Debounce
-    const now = Date.now();
-    if (now - this.lastToggleTime < 200) {
-      return;
-    }
-    this.lastToggleTime = now;
-
-    this._displayMode = this._displayMode === "value" ? "channel" : "value";
-    logInfo(`Display mode changed to: ${this._displayMode}`);
-
-    // Update footer
-    if (this.footerBox) {
-      this.footerBox.setContent(this.getFooterContent());
-    }
-
-    // Update stats display
-    if (this.statsBox) {
-      this.updateStatsContent();
+  private getRdmItems(): string[] {
+    if (this.rdmDevices.length === 0) {
+      return [" No RDM devices found"];
     }
 
-    // Force render
-    this.needsRender = true;
-    this.render();
+    return this.rdmDevices.map((device) => {
+      const info = device.deviceInfo;
+      const label = (device.label ?? "").slice(0, 20).padEnd(20);
+      // Art-Net universes are shown 1-indexed, matching the rest of the UI
+      const universe = (device.universe + 1).toString().padStart(5);
+      const address = (device.dmxStartAddress !== undefined && device.dmxStartAddress <= TOTAL_CHANNELS ? device.dmxStartAddress.toString() : "-").padStart(4);
+      const footprint = (info ? info.dmxFootprint.toString() : "-").padStart(4);
+      const personality = (info ? `${info.currentPersonality}/${info.personalityCount}` : "-").padStart(5);
+      const model = (info ? info.deviceModelId.toString(16).padStart(4, "0").toUpperCase() : "-").padStart(6);
+      const sensors = `${device.identifying ? "{yellow-fg}[IDENTIFY]{/yellow-fg} " : ""}${device.sensors.map((s) => `${s.sensor}:${s.present}`).join(" ")}`;
+      const row = ` ${device.uid}  ${label} ${universe} ${address} ${footprint} ${personality} ${model}  ${sensors}`;
+
+      if (device.error) return `{red-fg}${row}  ${device.error}{/red-fg}`;
+      if (!device.lastUpdated) return `{gray-fg}${row}{/gray-fg}`;
+      return row;
+    });
   }
 
   /**
@@ -748,14 +2082,62 @@ export class DisplayManager {
     this.onLoopToggleCallback = callback;
   }
 
+  /**
+   * Set callback for showing or hiding sACN preview data
+   */
+  public onPreviewToggle(callback: () => void): void {
+    this.onPreviewToggleCallback = callback;
+  }
+
+  /**
+   * Show whether preview data sources take part in arbitration
+   */
+  setPreviewShown(shown: boolean): void {
+    this.previewShown = shown;
+    this.needsRender = true;
+  }
+
+  /**
+   * Set callback for switching to the next universe (monitor or playback)
+   */
+  public onNextUniverse(callback: () => void): void {
+    this.onNextUniverseCallback = callback;
+  }
+
+  /**
+   * Set callback for switching to the previous universe (monitor or playback)
+   */
+  public onPreviousUniverse(callback: () => void): void {
+    this.onPreviousUniverseCallback = callback;
+  }
+
+  /**
+   * Check if more than one universe is being monitored or played back
+   */
+  private isMultiUniverse(): boolean {
+    const universes = this._uiMode === "playback" ? this.playbackInfo.universes : this.stats.monitoredUniverses;
+    return (universes?.length ?? 0) > 1;
+  }
+
+  /**
+   * Get the position of the displayed universe in the universe list, e.g. " [2/8]"
+   */
+  private getUniversePositionText(): string {
+    const universes = this._uiMode === "playback" ? this.playbackInfo.universes : this.stats.monitoredUniverses;
+    const universe = this._uiMode === "playback" ? this.playbackInfo.universe : this.stats.universe;
+    if (!universes || universes.length <= 1) return "";
+    return ` [${universes.indexOf(universe) + 1}/${universes.length}]`;
+  }
+
   /**
    * Setup keyboard handlers
    */
   private setupKeyHandlers(): void {
     if (!this.screen) return;
 
-    // Quit
-    this.screen.key(["q", "C-c", "escape"], () => {
+    // Quit (q and Escape answer an open dialog instead)
+    this.screen.key(["q", "C-c", "escape"], (_ch: string, key: blessed.Widgets.Events.IKeyEventArg) => {
+      if (this.dialogOpen && key.full !== "C-c") return;
       this.stop();
       process.exit(0);
     });
@@ -777,18 +2159,125 @@ export class DisplayManager {
 
     // Toggle recording
     this.screen.key(["r"], () => {
-      logInfo("R key pressed");
-      this.toggleRecording();
+      if (!this.dialogOpen) {
+        logInfo("R key pressed");
+        this.toggleRecording();
+      }
     });
 
     // Clear values
     this.screen.key(["c"], () => {
-      this.clearChannels();
+      if (!this.dialogOpen) {
+        this.clearChannels();
+      }
     });
 
     // Toggle display mode
     this.screen.key(["v"], () => {
-      this.toggleDisplayMode();
+      if (!this.dialogOpen) {
+        this.toggleDisplayMode();
+      }
+    });
+
+    // Toggle universe overview
+    this.screen.key(["o"], () => {
+      if (!this.dialogOpen) {
+        this.toggleOverview();
+      }
+    });
+
+    // Toggle Art-Net node table
+    this.screen.key(["n"], () => {
+      if (this.stats.protocol === "artnet" && !this.dialogOpen) {
+        this.toggleNodeTable();
+      }
+    });
+
+    // Toggle sACN per-channel priority overlay
+    this.screen.key(["p"], () => {
+      if (!this.dialogOpen) {
+        this.togglePriorityOverlay();
+      }
+    });
+
+    // Cycle sACN merge views
+    this.screen.key(["m"], () => {
+      if (!this.dialogOpen) {
+        this.cycleMergeView();
+      }
+    });
+
+    // Toggle sACN universe discovery list
+    this.screen.key(["u"], () => {
+      if (this.stats.protocol === "sacn" && !this.dialogOpen) {
+        this.toggleDiscovery();
+      }
+    });
+
+    // Show or hide sACN preview data
+    this.screen.key(["w"], () => {
+      if (this.stats.protocol === "sacn" && !this.dialogOpen && this.onPreviewToggleCallback) {
+        this.onPreviewToggleCallback();
+      }
+    });
+
+    // Toggle sACN source event timeline
+    this.screen.key(["e"], () => {
+      if (this.stats.protocol === "sacn" && !this.dialogOpen) {
+        this.toggleEvents();
+      }
+    });
+
+    // Toggle timing diagnostics
+    this.screen.key(["t"], () => {
+      if (!this.dialogOpen) {
+        this.toggleTiming();
+      }
+    });
+
+    // Toggle sACN source comparison, and pick the source compared
+    this.screen.key(["x"], () => {
+      if (this.stats.protocol === "sacn" && !this.dialogOpen) {
+        this.toggleCompare();
+      }
+    });
+    this.screen.key(["tab"], () => {
+      if (this._viewMode === "compare" && !this.dialogOpen) {
+        this.cycleCompareSource();
+      }
+    });
+
+    // Re-run RDM discovery on the displayed node
+    this.screen.key(["d"], () => {
+      if (this._viewMode === "rdm" && !this.dialogOpen && this.rdmNodeIp && this.onRdmDiscoverCallback) {
+        this.onRdmDiscoverCallback(this.rdmNodeIp);
+      }
+    });
+
+    // Patch the selected RDM device
+    this.screen.key(["a"], () => {
+      this.promptRdmStartAddress();
+    });
+
+    this.screen.key(["l"], () => {
+      this.promptRdmLabel();
+    });
+
+    this.screen.key(["i"], () => {
+      this.promptRdmIdentify();
+    });
+
+    // Switch monitored universe
+    this.screen.key(["]", "pagedown"], () => {
+      if (!this.dialogOpen && this.onNextUniverseCallback) {
+        this.onNextUniverseCallback();
+      }
+    });
+
+    this.screen.key(["[", "pageup"], () => {
+      if (!this.dialogOpen && this.onPreviousUniverseCallback) {
+        this.onPreviousUniverseCallback();
+      }
     });
   }
 
@@ -847,6 +2336,19 @@ export class DisplayManager {
       }
     });
 
+    // Switch displayed universe
+    this.screen.key(["]", "pagedown"], () => {
+      if (this.onNextUniverseCallback) {
+        this.onNextUniverseCallback();
+      }
+    });
+
+    this.screen.key(["[", "pageup"], () => {
+      if (this.onPreviousUniverseCallback) {
+        this.onPreviousUniverseCallback();
+      }
+    });
+
     // Toggle display mode
     this.screen.key(["v"], () => {
       this.toggleDisplayMode();
@@ -1050,6 +2552,147 @@ export class DisplayManager {
     this.needsRender = true;
   }
 
+  /**
+   * Update the merge of competing sACN sources (null when there is nothing to merge)
+   */
+  updateMerge(merge: SourceMerge | null): void {
+    this.merge = merge;
+    // A source view falls back to the winner when that source goes away
+    if (typeof this.mergeView === "number" && (!merge || this.mergeView >= merge.sources.length)) {
+      this.mergeView = "winner";
+    }
+    if (!merge || this.compareSource >= merge.sources.length) {
+      this.compareSource = 1;
+    }
+    this.needsRender = true;
+  }
+
+  /**
+   * Update sACN synchronization for the displayed universe
+   * @param syncAddress - Sync address carried in the universe's data (0 = unsynchronized)
+   * @param stats - Sync statistics, or null before any sync packet arrived
+   */
+  updateSync(syncAddress: number, stats: SyncStats | null): void {
+    this.syncAddress = syncAddress;
+    this.syncStats = stats;
+    this.needsRender = true;
+  }
+
+  /**
+   * Update sequence statistics for the sources of the displayed universe
+   */
+  updateSequenceStats(stats: SequenceStats[]): void {
+    this.sequenceStats = stats;
+    this.needsRender = true;
+  }
+
+  /**
+   * Build the sequence section of the stats panel (totals over every source)
+   */
+  private getSequenceInfo(): string {
+    if (this.sequenceStats.length === 0) return "";
+
+    let lost = 0;
+    let late = 0;
+    let duplicates = 0;
+    let discarded = 0;
+    for (const stats of this.sequenceStats) {
+      lost += stats.lost;
+      late += stats.outOfOrder;
+      duplicates += stats.duplicates;
+      discarded += stats.discarded;
+    }
+
+    const count = (value: number): string => (value > 0 ? `{red-fg}${value}{/red-fg}` : `${value}`);
+    let info = `\n Lost: ${count(lost)}  Late: ${count(late)}`;
+    info += `\n Dup: ${count(duplicates)}`;
+    if (discarded > 0) {
+      info += `  Drop: ${discarded}`;
+    }
+    return info;
+  }
+
+  /**
+   * Update ArtSync statistics for the controller of the displayed universe
+   */
+  updateArtSync(stats: ArtSyncStats | null): void {
+    this.artSyncStats = stats;
+    this.needsRender = true;
+  }
+
+  /**
+   * Build the sync section of the stats panel
+   */
+  private getSyncInfo(): string {
+    if (this.stats.protocol === "artnet") return this.getArtSyncInfo();
+    if (this.syncAddress === 0) return "";
+
+    let info = `\n Sync: U${this.syncAddress}`;
+    const stats = this.syncStats;
+    if (!stats) {
+      return info + `\n  {yellow-fg}waiting{/yellow-fg}`;
+    }
+    if (!stats.active) {
+      return info + `\n  {red-fg}lost{/red-fg}`;
+    }
+
+    const rate = stats.meanInterval > 0 ? 1000 / stats.meanInterval : 0;
+    info += `\n  {green-fg}●{/green-fg} ${rate.toFixed(1)}/s`;
+    info += `\n  Δ ${stats.meanInterval.toFixed(1)}/${stats.maxInterval.toFixed(1)}ms`;
+    info += `\n  Hold: ${stats.meanHold.toFixed(1)}ms`;
+    return info;
+  }
+
+  /**
+   * Build the ArtSync section of the stats panel
+   */
+  private getArtSyncInfo(): string {
+    const stats = this.artSyncStats;
+    if (!stats) return "";
+
+    if (!stats.active) {
+      return `\n ArtSync: {red-fg}stopped{/red-fg}`;
+    }
+
+    const rate = stats.meanInterval > 0 ? 1000 / stats.meanInterval : 0;
+    let info = `\n ArtSync: {green-fg}●{/green-fg} ${rate.toFixed(1)}/s`;
+    info += `\n  Δ ${stats.meanInterval.toFixed(1)}/${stats.maxInterval.toFixed(1)}ms`;
+    info += `\n  Delay: ${stats.meanDelay.toFixed(2)}/${stats.maxDelay.toFixed(2)}ms`;
+    return info;
+  }
+
+  /**
+   * Update per-channel source arbitration (sACN per-address priority)
+   */
+  updateArbitration(arbitration: ChannelArbitration | null): void {
+    this.arbitration = arbitration;
+    this.needsRender = true;
+  }
+
+  /**
+   * Build the priority overlay legend: source color, name and channels won
+   */
+  private getPriorityLegend(): string {
+    if (!this.arbitration) {
+      const active = this.competingSources.find((s) => s.isActive);
+      return active ? `\n {${SOURCE_COLORS[0]}-fg}■{/${SOURCE_COLORS[0]}-fg} ${this.truncateSource(active.sourceName, 16)}\n   all ch` : "";
+    }
+
+    const wins = new Array<number>(this.arbitration.sources.length).fill(0);
+    for (const owner of this.arbitration.owners) {
+      if (owner !== NO_CHANNEL_OWNER) wins[owner]!++;
+    }
+
+    let legend = "";
+    this.arbitration.sources.forEach((name, index) => {
+      const color = SOURCE_COLORS[index % SOURCE_COLORS.length];
+      const sendsDd = this.competingSources.find((s) => s.sourceName === name)?.perAddressPriority ? " 0xDD" : "";
+      legend += `\n {${color}-fg}■{/${color}-fg} ${this.truncateSource(name, 16)}`;
+      legend += `\n   ${wins[index]} ch${sendsDd}`;
+    });
+    return legend;
+  }
+
   /**
    * Update stats box content
    */
@@ -1091,22 +2734,49 @@ export class DisplayManager {
         sourceInfo = `\n {yellow-fg}⚠ Multi-source{/yellow-fg}`;
         if (activeSource) {
           sourceInfo += `\n {green-fg}►{/green-fg} ${this.truncateSource(activeSource.sourceName)}`;
-          sourceInfo += `\n   pri:${activeSource.priority}`;
+          sourceInfo += `\n   ${this.describeSourcePriority(activeSource)}`;
         }
         for (const src of inactiveSources.slice(0, 2)) {
           // Show max 2 inactive
           sourceInfo += `\n {red-fg}✗{/red-fg} ${this.truncateSource(src.sourceName)}`;
-          sourceInfo += `\n   pri:${src.priority}`;
+          sourceInfo += `\n   ${this.describeSourcePriority(src)}`;
         }
         if (inactiveSources.length > 2) {
           sourceInfo += `\n   +${inactiveSources.length - 2} more`;
         }
-      } else if (activeSource) {
-        // Single source - just show source name and priority
+      } else {
+        // Single source - just show source name and priority (inactive if it is excluded preview data)
+        const source = this.competingSources[0]!;
         sourceInfo = `\n Source:`;
-        sourceInfo += `\n  ${this.truncateSource(activeSource.sourceName)}`;
-        sourceInfo += `\n  pri:${activeSource.priority}`;
+        sourceInfo += `\n  ${this.truncateSource(source.sourceName)}`;
+        sourceInfo += `\n  ${this.describeSourcePriority(source)}`;
       }
+
+      if (this.competingSources.some((s) => s.preview)) {
+        sourceInfo += `\n Preview: ${this.previewShown ? "{magenta-fg}shown{/magenta-fg}" : "hidden"}`;
+      }
+    }
+
+    // Merge view (sACN merge mode with competing sources)
+    if (this.merge) {
+      const a = this.merge.sources[0];
+      const b = this.merge.sources[this.compareSource];
+      if (a && b) {
+        const differing = diffFrames(a.channels, b.channels).differing;
+        sourceInfo += differing > 0 ? `\n {red-fg}Mismatch: ${differing} ch{/red-fg}` : `\n {green-fg}Sources match{/green-fg}`;
+      }
+      sourceInfo += `\n\n {bold}View:{/bold} ${this.describeMergeView()}`;
+      if (typeof this.mergeView === "number") {
+        const frame = this.merge.sources[this.mergeView];
+        if (frame) {
+          sourceInfo += `\n  ${this.truncateSource(frame.sourceName)}\n  pri:${frame.priority}`;
+        }
+      }
+    }
+
+    // Priority overlay legend replaces the source summary
+    if (this.priorityOverlay) {
+      sourceInfo = `\n {bold}Priority:{/bold}${this.getPriorityLegend()}`;
     }
 
     // Convert universe to 1-indexed display format for Art-Net
@@ -1116,7 +2786,7 @@ export class DisplayManager {
       [
         "",
         ` Protocol: ${this.stats.protocol.toUpperCase()}`,
-        ` Universe: ${displayUniverse}`,
+        ` Universe: ${displayUniverse}${this.getUniversePositionText()}`,
         "",
         ` Interface:`,
         `  ${this.stats.interfaceName ?? "All"}`,
@@ -1124,18 +2794,25 @@ export class DisplayManager {
         "",
         ` Packets: ${this.stats.packetsReceived}`,
         ` Rate: ${this.stats.packetsPerSecond.toFixed(1)}/s`,
-        ` Last: ${lastPacket}`,
+        ` Last: ${lastPacket}${this.getSyncInfo()}`,
         "",
-        ` Errors: ${this.stats.errors}`,
+        ` Errors: ${this.stats.errors}${this.getSequenceInfo()}`,
         ` Uptime: ${uptimeStr}`,
         "",
-        ` Display: ${modeText}`,
+        ` Display: ${this.priorityOverlay ? "Priority" : modeText}`,
         recordingInfo,
         sourceInfo,
       ].join("\n")
     );
   }
 
+  /**
+   * Source priority for the stats panel, labelled when the source sends preview data
+   */
+  private describeSourcePriority(source: SACNSourceInfo): string {
+    return `pri:${source.priority}${source.preview ? " {magenta-fg}PREVIEW{/magenta-fg}" : ""}`;
+  }
+
   /**
    * Truncate source name to fit in stats panel
    */
@@ -1144,6 +2821,21 @@ export class DisplayManager {
     return name.substring(0, maxLen - 1) + "…";
   }
 
+  /**
+   * Scheduler accuracy lines for the playback stats panel
+   */
+  private getDriftLines(drift: PlaybackDrift | undefined): string[] {
+    if (!drift) return [];
+
+    // Late frames are normal up to a timer tick or two
+    const color = drift.maxLateness > 50 ? "yellow" : "green";
+    const lines = [` Late: {${color}-fg}${drift.meanLateness.toFixed(1)}ms{/${color}-fg} max ${Math.round(drift.maxLateness)}`];
+    if (drift.coalescedFrames > 0) {
+      lines.push(` Coalesced: ${drift.coalescedFrames}`);
+    }
+    return lines;
+  }
+
   /**
    * Update stats box content for playback mode
    */
@@ -1202,10 +2894,11 @@ export class DisplayManager {
         ` ${posStr} / ${durStr}`,
         "",
         ` Protocol: ${info.protocol.toUpperCase()}`,
-        ` Universe: ${displayUniverse}`,
+        ` Universe: ${displayUniverse}${this.getUniversePositionText()}`,
         "",
         ` Speed: ${speedText}`,
         ` Loop: ${loopText}`,
+        ...this.getDriftLines(info.drift),
         "",
         ` File:`,
         `  ${info.fileName.length > 20 ? "..." + info.fileName.slice(-17) : info.fileName}`,
@@ -1229,26 +2922,87 @@ export class DisplayManager {
           else if (info.state === "paused") stateIcon = "⏸";
           // Convert universe to 1-indexed display format for Art-Net
           const displayUniverse = formatUniverseForDisplay(info.universe, info.protocol as Protocol);
-          this.headerBox.setContent(` ${this.config.title} - PLAYBACK ${stateIcon} - Universe ${displayUniverse} (${info.protocol.toUpperCase()}) `);
+          this.headerBox.setContent(` ${this.config.title} - PLAYBACK ${stateIcon} - Universe ${displayUniverse}${this.getUniversePositionText()} (${info.protocol.toUpperCase()}) `);
         } else {
           const recIndicator = this._recordingState === "recording" ? " {red-fg}● REC{/red-fg}" : "";
           // Convert universe to 1-indexed display format for Art-Net
           const displayUniverse = formatUniverseForDisplay(this.stats.universe, this.stats.protocol);
-          this.headerBox.setContent(` ${this.config.title} - Universe ${displayUniverse} (${this.stats.protocol.toUpperCase()})${recIndicator} `);
+          this.headerBox.setContent(` ${this.config.title} - Universe ${displayUniverse}${this.getUniversePositionText()} (${this.stats.protocol.toUpperCase()})${recIndicator} `);
         }
       }
 
+      // Update universe overview if visible
+      if (this.overviewContainer && this.overviewList && this._viewMode === "overview") {
+        // Keep the highlighted row in range as universes come and go
+        const selected = this.getSelectedIndex(this.overviewList);
+        this.overviewList.setItems(this.getOverviewItems());
+        this.overviewList.select(Math.min(selected, Math.max(0, this.overviewUniverses.length - 1)));
+        this.overviewContainer.setLabel(` All Universes (${this.overviewUniverses.length}) `);
+      }
+
+      // Update node table if visible
+      if (this.nodesContainer && this.nodesList && this._viewMode === "nodes") {
+        const selected = this.getSelectedIndex(this.nodesList);
+        this.nodesList.setItems(this.getNodeItems());
+        this.nodesList.select(Math.min(selected, Math.max(0, this.artNetNodes.length - 1)));
+        const online = this.artNetNodes.filter((n) => n.online).length;
+        this.nodesContainer.setLabel(` Art-Net Nodes (${online}/${this.artNetNodes.length} online) `);
+      }
+
+      // Update RDM device list if visible
+      if (this.rdmContainer && this.rdmList && this._viewMode === "rdm") {
+        const selected = this.getSelectedIndex(this.rdmList);
+        this.rdmList.setItems(this.getRdmItems());
+        this.rdmList.select(Math.min(selected, Math.max(0, this.rdmDevices.length - 1)));
+        const node = this.artNetNodes.find((n) => n.ip === this.rdmNodeIp);
+        const nodeName = node ? `${node.shortName || "Unknown"} (${node.ip})` : this.rdmNodeIp ?? "";
+        const status = this.rdmStatus ? ` - ${this.rdmStatus}` : "";
+        this.rdmContainer.setLabel(` RDM Devices - ${nodeName}${status} `);
+      }
+
+      // Update universe discovery list if visible
+      if (this.discoveryContainer && this.discoveryList && this._viewMode === "discovery") {
+        const selected = this.getSelectedIndex(this.discoveryList);
+        this.discoveryList.setItems(this.getDiscoveryItems());
+        this.discoveryList.select(Math.min(selected, Math.max(0, this.discoveredSources.length - 1)));
+        this.discoveryContainer.setLabel(` sACN Universe Discovery (${this.discoveredSources.length} sources) `);
+      }
+
+      // Update source event timeline if visible
+      if (this.eventsContainer && this.eventsList && this._viewMode === "events") {
+        const selected = this.getSelectedIndex(this.eventsList);
+        this.eventsList.setItems(this.getEventItems());
+        this.eventsList.select(Math.min(selected, Math.max(0, this.sourceEvents.length - 1)));
+        this.eventsContainer.setLabel(` sACN Source Events (${this.sourceEvents.length}) `);
+      }
+
+      // Update timing diagnostics if visible
+      if (this.timingContainer && this.timingList && this._viewMode === "timing") {
+        const selected = this.getSelectedIndex(this.timingList);
+        this.timingList.setItems(this.getTimingItems());
+        this.timingList.select(Math.min(selected, Math.max(0, this.timingStats.length - 1)));
+        const stalled = this.timingStats.filter((s) => s.stalled).length;
+        this.timingContainer.setLabel(` Timing Diagnostics (${this.timingStats.length} streams${stalled > 0 ? `, ${stalled} stalled` : ""}) `);
+      }
+
+      // Update source comparison if visible
+      if (this.compareSummary && this.compareBox && this._viewMode === "compare") {
+        this.compareSummary.setContent(this.getCompareSummary());
+        this.compareBox.setContent(this.getCompareLines());
+      }
+
       // Update channel boxes
       for (let row = 0; row < GRID_ROWS; row++) {
         for (let col = 0; col < GRID_COLUMNS; col++) {
           const channelIndex = row * GRID_COLUMNS + col;
-          const value = this.channelData[channelIndex] ?? 0;
+          const value = this.getChannelValue(channelIndex);
           const box = this.channelBoxes[row]?.[col];
 
           if (box) {
+            const colors = this.getCellColors(channelIndex, value);
             box.setContent(this.getCellContent(channelIndex, value));
-            box.style.bg = getSimpleColor(value);
-            box.style.fg = value < 85 ? "white" : "black";
+            box.style.bg = colors.bg;
+            box.style.fg = colors.fg;
           }
         }
       }
@@ -166,6 +166,84 @@ export class ProtocolError extends DMXMonitorError {
   }
 }
 
+/** RDM errors (timeouts and negative acknowledgements from devices) */
+export class RdmError extends DMXMonitorError {
+  public readonly uid?: string;
+  public readonly parameter?: string;
+  public readonly nackReason?: number;
+
+  constructor(
+    message: string,
+    options?: {
+      uid?: string;
+      parameter?: string;
+      nackReason?: number;
+    }
+  ) {
+    super(message, 'RDM_ERROR');
+    this.uid = options?.uid;
+    this.parameter = options?.parameter;
+    this.nackReason = options?.nackReason;
+  }
+
+  public override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      uid: this.uid,
+      parameter: this.parameter,
+      nackReason: this.nackReason,
+    };
+  }
+
+  /** Create error for a request that got no response */
+  static timeout(uid: string, parameter: string): RdmError {
+    return new RdmError(
+      `No RDM response from ${uid} for ${parameter}`,
+      { uid, parameter }
+    );
+  }
+
+  /** Create error for a NACK response */
+  static nack(uid: string, parameter: string, reason: number, description: string): RdmError {
+    return new RdmError(
+      `${uid} rejected ${parameter}: ${description}`,
+      { uid, parameter, nackReason: reason }
+    );
+  }
+
+  /** Create error for a response type we cannot handle */
+  static unsupportedResponse(uid: string, parameter: string, responseType: number): RdmError {
+    return new RdmError(
+      `Unsupported RDM response type ${responseType} from ${uid} for ${parameter}`,
+      { uid, parameter }
+    );
+  }
+
+  /** Create error for a value the device cannot accept */
+  static invalidValue(uid: string, parameter: string, reason: string): RdmError {
+    return new RdmError(
+      `Invalid ${parameter} for ${uid}: ${reason}`,
+      { uid, parameter }
+    );
+  }
+
+  /** Create error for a SET the device acknowledged but did not apply */
+  static notApplied(uid: string, parameter: string): RdmError {
+    return new RdmError(
+      `${uid} acknowledged ${parameter} but reports a different value`,
+      { uid, parameter }
+    );
+  }
+
+  /** Create error for an unknown device */
+  static deviceNotFound(uid: string): RdmError {
+    return new RdmError(
+      `RDM device ${uid} not found`,
+      { uid }
+    );
+  }
+}
+
 /** Universe-related errors (invalid universe numbers, no universes detected) */
 export class UniverseError extends DMXMonitorError {
   public readonly universe?: number;
@@ -7,16 +7,17 @@
 
 import { Command } from "commander";
 import * as path from "path";
-import { CLIOptions, Protocol, DMXPacket, ProtocolHandler, SACNSourceInfo, isValidIPv4, formatUniverseForDisplay } from "./types";
-import { runSetup, confirmStart, displayDiscoveredNodes, promptNodeSelection, promptUniverseFromNode, promptManualUniverse, promptSACNUniverse, hasAllRequiredOptions, REFRESH_NODE_LIST } from "./setup";
+import { CLIOptions, Protocol, StopPolicy, TOTAL_CHANNELS, DMXPacket, ProtocolHandler, SACNSourceInfo, SourceEvent, SourceMerge, RdmDevice, isValidIPv4, isValidUniverse, formatUniverseForDisplay, parseUniverseList } from "./types";
+import { runSetup, confirmStart, formatUniverseRanges, displayDiscoveredNodes, promptNodeSelection, promptUniverseFromNode, promptManualUniverse, promptSACNUniverse, displayDiscoveredSACNSources, promptDiscoveredSACNUniverse, hasAllRequiredOptions, validatePlaybackOptions, REFRESH_NODE_LIST, REFRESH_SOURCE_LIST } from "./setup";
 import { createSACNHandler, SACNHandler } from "./protocols/sacn";
 import { createArtNetHandler, ArtNetHandler } from "./protocols/artnet";
 import { createUniverseManager, UniverseManager } from "./universe";
 import { createDisplayManager, DisplayManager } from "./display";
 import { createRecorder, DMXRecorder, createPlayer, DMXPlayer } from "./recorder";
 import { createTransmitter, DMXTransmitter } from "./transmitter";
+import { createRdmController } from "./rdm-controller";
 import { initLogger, logInfo, logError, logDebug, logWarn, closeLogger, formatErrorForUser, enableConsoleLogging } from "./logger";
-import { isDMXMonitorError, wrapError } from "./errors";
+import { isDMXMonitorError, wrapError, ConfigError } from "./errors";
 
 /** Application version */
 const VERSION = "1.0.0";
@@ -27,6 +28,18 @@ const PACKET_RATE_INTERVAL = 1000;
 /** Art-Net discovery timeout (ms) */
 const ARTNET_DISCOVERY_TIMEOUT = 3000;
 
+/** sACN universe discovery listening time (ms) - sources announce every 10 seconds */
+const SACN_DISCOVERY_TIMEOUT = 3000;
+
+/** Default Art-Net node poll interval while monitoring (seconds) */
+const DEFAULT_ARTNET_POLL_INTERVAL = 3;
+
+/** Default fade time for the fade stop policy (seconds) */
+const DEFAULT_FADE_TIME = 3;
+
+/** Interval between fade steps (ms) */
+const FADE_STEP_MS = 25;
+
 /**
  * Parse command line arguments
  */
@@ -41,10 +54,19 @@ function parseArgs(): CLIOptions {
         "  Q        Quit the application\n" +
         "  R        Toggle recording (saves to .dmxrec file)\n" +
         "  C        Clear all channel values\n" +
-        "  V        Toggle between value/channel display mode\n\n" +
+        "  V        Toggle between value/channel display mode\n" +
+        "  [ / ]    Previous/next universe (with --universes)\n" +
+        "  O        Toggle all-universe overview (Enter to view a universe)\n" +
+        "  T        Toggle timing diagnostics (refresh rate, jitter, stalls)\n" +
+        "  N        Toggle Art-Net node table (Enter for a node's RDM devices)\n" +
+        "  P        Toggle sACN per-channel priority overlay\n" +
+        "  U        Toggle sACN universe discovery list (Enter to view a universe)\n" +
+        "  W        Show/hide sACN preview data (excluded from arbitration by default)\n" +
+        "  E        Toggle sACN source event timeline (appeared, terminated, timed out, took over)\n" +
+        "  M        Cycle sACN merge views: winner/HTP/LTP/each source (with --merge)\n\n" +
         "Playback Mode Controls:\n" +
         "  Space    Play/Pause\n" +
-        "  S        Stop (reset to beginning)\n" +
+        "  S        Stop (reset to beginning, then apply --on-stop)\n" +
         "  L        Toggle loop mode\n" +
         "  +/-      Increase/decrease playback speed\n" +
         "  ←/→      Seek backward/forward 5 seconds\n" +
@@ -55,15 +77,27 @@ function parseArgs(): CLIOptions {
     .option("-i, --interface <name>", "Network interface name to bind to")
     .option("-a, --address <ip>", "IP address to bind to")
     .option("-u, --universe <number>", "Universe number to monitor/playback", parseInt)
+    .option("--universes <list>", "Universes to monitor simultaneously, e.g. 1-8,12")
     .option("-m, --multicast", "Enable multicast (sACN)")
     .option("-b, --broadcast", "Enable broadcast (Art-Net)")
     .option("-v, --verbose", "Enable verbose logging")
     .option("-l, --log-file <path>", "Write logs to file")
     .option("-o, --recording-dir <path>", "Directory to save recordings (default: current directory)")
+    .option("--microsecond-timestamps", "Record frame times in microseconds (for timing analysis of recordings)")
+    .option("--seek-index", "Save a seek index next to recordings (<recording>.idx) so playback seeks without scanning")
     .option("--playback <file>", "Play back a .dmxrec recording file")
     .option("--loop", "Enable loop mode for playback")
     .option("--speed <factor>", "Playback speed multiplier (0.1 - 10.0)", parseFloat)
     .option("--priority <number>", "sACN priority for playback (0-200, default 100)", parseInt)
+    .option("--poll-interval <seconds>", "Art-Net node poll interval while monitoring (default 3, 0 disables)", parseFloat)
+    .option("--merge", "Merge competing sACN sources (HTP/LTP views)")
+    .option("--discard-late", "Drop out-of-order and duplicate packets like a receiver would")
+    .option("--art-sync", "Send ArtSync after each frame in Art-Net playback")
+    .option("--sync-universe <number>", "sACN sync universe for playback (0 disables, default: first universe when playing several)", parseInt)
+    .option("--refresh-rate <hz>", "Resend the last frame at this rate during playback (up to 44, default 0: keep-alive only)", parseFloat)
+    .option("--keep-alive <seconds>", "Resend the last frame when nothing was sent for this long (default 1, 0 disables)", parseFloat)
+    .option("--on-stop <policy>", "Output on playback stop and quit: hold, fade or blackout (default blackout)")
+    .option("--fade-time <seconds>", `Fade time for --on-stop fade (default ${DEFAULT_FADE_TIME})`, parseFloat)
     .parse();
 
   const opts = program.opts();
@@ -73,28 +107,41 @@ function parseArgs(): CLIOptions {
     interface: opts["interface"] as string | undefined,
     address: opts["address"] as string | undefined,
     universe: opts["universe"] as number | undefined,
+    // A malformed list becomes empty so validation reports it
+    universes: opts["universes"] !== undefined ? (parseUniverseList(opts["universes"] as string) ?? []) : undefined,
     multicast: opts["multicast"] as boolean | undefined,
     broadcast: opts["broadcast"] as boolean | undefined,
     verbose: opts["verbose"] as boolean | undefined,
     logFile: opts["logFile"] as string | undefined,
     recordingDir: opts["recordingDir"] as string | undefined,
+    microsecondTimestamps: opts["microsecondTimestamps"] as boolean | undefined,
+    seekIndex: opts["seekIndex"] as boolean | undefined,
     playback: opts["playback"] as string | undefined,
     loop: opts["loop"] as boolean | undefined,
     speed: opts["speed"] as number | undefined,
     priority: opts["priority"] as number | undefined,
+    pollInterval: opts["pollInterval"] as number | undefined,
+    merge: opts["merge"] as boolean | undefined,
+    syncUniverse: opts["syncUniverse"] as number | undefined,
+    artSync: opts["artSync"] as boolean | undefined,
+    discardLate: opts["discardLate"] as boolean | undefined,
+    refreshRate: opts["refreshRate"] as number | undefined,
+    keepAlive: opts["keepAlive"] as number | undefined,
+    onStop: opts["onStop"] as StopPolicy | undefined,
+    fadeTime: opts["fadeTime"] as number | undefined,
   };
 }
 
 /**
  * Create protocol handler based on configuration
  */
-function createProtocolHandler(protocol: Protocol, bindAddress: string, useMulticast: boolean, useBroadcast: boolean, interfaceName?: string, selectedUniverse?: number, netmask?: string): ProtocolHandler {
+function createProtocolHandler(protocol: Protocol, bindAddress: string, useMulticast: boolean, useBroadcast: boolean, interfaceName?: string, universes?: number[], netmask?: string): ProtocolHandler {
   if (protocol === "sacn") {
     return createSACNHandler({
       bindAddress,
       useMulticast,
       interfaceName,
-      universes: selectedUniverse ? [selectedUniverse] : undefined,
+      universes: universes && universes.length > 0 ? universes : undefined,
     });
   } else {
     return createArtNetHandler({
@@ -121,6 +168,15 @@ class DMXMonitorApp {
   private currentProtocol: Protocol = "sacn";
   private currentUniverse: number = 1;
   private recordingDir: string | undefined;
+  /** Latest sACN source list per universe */
+  private readonly competingSources: Map<number, SACNSourceInfo[]> = new Map();
+  /** Latest sACN source merge per universe (merge mode only) */
+  private readonly sourceMerges: Map<number, SourceMerge> = new Map();
+  /** sACN preview data sources take part in arbitration */
+  private includePreview = false;
+  /** Node whose RDM devices are shown, and whether an RDM exchange is running */
+  private rdmNodeIp: string | null = null;
+  private rdmBusy = false;
 
   /**
    * Run the application
@@ -175,10 +231,11 @@ class DMXMonitorApp {
       // Create universe manager
       this.universeManager = createUniverseManager({
         selectedUniverse: config.selectedUniverse,
+        selectedUniverses: config.selectedUniverses,
       });
 
       // Create protocol handler
-      this.protocolHandler = createProtocolHandler(config.protocol, config.bindAddress, config.useMulticast, config.useBroadcast, config.interfaceName, config.selectedUniverse, config.netmask);
+      this.protocolHandler = createProtocolHandler(config.protocol, config.bindAddress, config.useMulticast, config.useBroadcast, config.interfaceName, this.universeManager.getSelectedUniverses(), config.netmask);
 
       // Start protocol handler
       console.log(`\nStarting ${config.protocol.toUpperCase()} receiver...`);
@@ -207,7 +264,7 @@ class DMXMonitorApp {
                 await this.protocolHandler.stop();
 
                 // Recreate handler bound to the node's IP
-                this.protocolHandler = createProtocolHandler(config.protocol, discovery.nodeIp, config.useMulticast, config.useBroadcast, config.interfaceName, selectedUniverse, config.netmask);
+                this.protocolHandler = createProtocolHandler(config.protocol, discovery.nodeIp, config.useMulticast, config.useBroadcast, config.interfaceName, [selectedUniverse], config.netmask);
                 await this.protocolHandler.start();
                 bindAddress = discovery.nodeIp;
               } catch (rebindError) {
@@ -217,7 +274,7 @@ class DMXMonitorApp {
 
                 // Restart the original handler if it was stopped
                 if (!this.protocolHandler || !(this.protocolHandler as ArtNetHandler).getDiscoveredNodes) {
-                  this.protocolHandler = createProtocolHandler(config.protocol, config.bindAddress, config.useMulticast, config.useBroadcast, config.interfaceName, selectedUniverse, config.netmask);
+                  this.protocolHandler = createProtocolHandler(config.protocol, config.bindAddress, config.useMulticast, config.useBroadcast, config.interfaceName, [selectedUniverse], config.netmask);
                   await this.protocolHandler.start();
                 }
               }
@@ -229,15 +286,24 @@ class DMXMonitorApp {
           console.log("\n⚠️  Art-Net discovery encountered an error. Please enter universe manually.\n");
           selectedUniverse = await promptManualUniverse();
         }
+      } else if (config.useMulticast && this.protocolHandler instanceof SACNHandler) {
+        // Sources announce their universes on the discovery universe; data multicast can't be sniffed
+        selectedUniverse = await this.runSACNDiscovery(this.protocolHandler as SACNHandler);
       } else {
-        // For sACN, prompt for universe (auto-detect is unreliable with multicast)
+        // Unicast sACN - prompt for universe
         console.log("\n");
         selectedUniverse = await promptSACNUniverse();
       }
 
-      // If using sACN, make sure we're listening to the selected universe
+      // Make sure the universe chosen at the prompt is monitored
+      this.universeManager.addMonitoredUniverse(selectedUniverse);
+      const monitoredUniverses = this.universeManager.getSelectedUniverses();
+
+      // If using sACN, make sure we're listening to every monitored universe
       if (config.protocol === "sacn" && this.protocolHandler instanceof SACNHandler) {
-        (this.protocolHandler as SACNHandler).addUniverse(selectedUniverse);
+        for (const universe of monitoredUniverses) {
+          (this.protocolHandler as SACNHandler).addUniverse(universe);
+        }
       }
 
       // Store current config for recorder
@@ -246,7 +312,7 @@ class DMXMonitorApp {
       this.recordingDir = cliOptions.recordingDir;
 
       // Create recorder
-      this.recorder = createRecorder();
+      this.recorder = createRecorder({ microsecondTimestamps: cliOptions.microsecondTimestamps, saveSeekIndex: cliOptions.seekIndex });
 
       // Create and initialize display
       this.displayManager = createDisplayManager({
@@ -261,6 +327,7 @@ class DMXMonitorApp {
         universe: selectedUniverse,
         bindAddress: bindAddress,
         interfaceName: config.interfaceName,
+        monitoredUniverses,
       });
 
       // Setup recording toggle callback
@@ -268,8 +335,37 @@ class DMXMonitorApp {
         this.toggleRecording();
       });
 
+      // Setup universe switching callbacks (multi-universe mode)
+      this.displayManager.onNextUniverse(() => {
+        this.switchUniverse(1);
+      });
+      this.displayManager.onPreviousUniverse(() => {
+        this.switchUniverse(-1);
+      });
+
+      // Drill into a universe picked on the overview screen
+      this.displayManager.onUniverseSelect((universe) => {
+        this.showUniverse(universe);
+      });
+
       // Setup packet handling
-      this.setupPacketHandler(selectedUniverse);
+      this.setupPacketHandler();
+
+      // Keep polling Art-Net nodes so failed nodes show up in the node table
+      if (this.protocolHandler instanceof ArtNetHandler) {
+        this.startNodePolling(this.protocolHandler as ArtNetHandler, cliOptions.pollInterval ?? DEFAULT_ARTNET_POLL_INTERVAL);
+        this.setupRdmPanel(this.protocolHandler as ArtNetHandler);
+      }
+
+      // Drop late packets like a receiver would (they are counted either way)
+      if (cliOptions.discardLate && (this.protocolHandler instanceof SACNHandler || this.protocolHandler instanceof ArtNetHandler)) {
+        this.protocolHandler.setDiscardLatePackets(true);
+      }
+
+      // Keep every sACN source's frame so the merge views can be shown
+      if (cliOptions.merge && this.protocolHandler instanceof SACNHandler) {
+        this.setupSourceMerge(this.protocolHandler as SACNHandler);
+      }
 
       // Start packet rate calculation
       this.startPacketRateCalculation();
@@ -280,6 +376,7 @@ class DMXMonitorApp {
       logInfo("DMX Monitor running", {
         protocol: config.protocol,
         universe: selectedUniverse,
+        universes: monitoredUniverses,
         bindAddress: bindAddress,
       });
     } catch (error) {
@@ -379,39 +476,84 @@ class DMXMonitorApp {
     }
   }
 
+  /**
+   * Listen for sACN universe discovery and let the user pick an announced universe
+   */
+  private async runSACNDiscovery(sacnHandler: SACNHandler): Promise<number> {
+    console.log("\n🔍 Listening for sACN universe discovery...");
+    console.log(`   (Waiting ${SACN_DISCOVERY_TIMEOUT / 1000} seconds; sources announce every 10 seconds)\n`);
+
+    try {
+      let sources = await sacnHandler.waitForDiscovery(SACN_DISCOVERY_TIMEOUT);
+
+      // Loop to allow refreshing the list as more sources announce
+      while (true) {
+        displayDiscoveredSACNSources(sources);
+
+        if (sources.length === 0) {
+          console.log("Sources may not have announced yet, or may not send universe discovery.");
+          console.log("You can still monitor a specific universe manually.\n");
+        }
+
+        const selection = await promptDiscoveredSACNUniverse(sources);
+        if (selection === REFRESH_SOURCE_LIST) {
+          console.log("\n🔄 Refreshing source list...\n");
+          sources = sacnHandler.getDiscoveredSources();
+          continue;
+        }
+
+        if (selection === null) {
+          console.log("\n");
+          return await promptSACNUniverse();
+        }
+
+        return selection;
+      }
+    } catch (discoveryError) {
+      logError(discoveryError, "sACN universe discovery failed");
+      console.log("\n⚠️  sACN universe discovery encountered an error. Please enter universe manually.\n");
+      return await promptSACNUniverse();
+    }
+  }
+
   /**
    * Setup packet handler for incoming DMX data
    */
-  private setupPacketHandler(selectedUniverse: number): void {
+  private setupPacketHandler(): void {
     if (!this.protocolHandler || !this.displayManager || !this.universeManager) {
       return;
     }
 
     // Log with 1-indexed universe for user clarity (Art-Net uses 0-indexed internally)
-    const displayUniverse = formatUniverseForDisplay(selectedUniverse, this.currentProtocol);
-    logInfo(`Listening for packets on universe ${displayUniverse}`);
+    const displayUniverses = this.universeManager.getSelectedUniverses().map((u) => formatUniverseForDisplay(u, this.currentProtocol));
+    logInfo(`Listening for packets on universe${displayUniverses.length > 1 ? "s" : ""} ${displayUniverses.join(", ")}`);
 
     this.protocolHandler.on("packet", (packet: DMXPacket) => {
-      // Check if packet is for selected universe
-      if (packet.universe !== selectedUniverse) {
-        // Still track for universe manager
-        logDebug(`Packet filtered: got universe ${packet.universe}, want ${selectedUniverse}`);
-        this.universeManager?.updateFromPacket(packet.universe, packet.source);
+      // Buffer packets for every monitored universe
+      const state = this.universeManager?.processPacket(packet);
+      if (!state) {
+        logDebug(`Packet filtered: got universe ${packet.universe}, not monitored`);
         return;
       }
 
-      // Update display
-      this.displayManager?.updateChannels(packet.channels);
-      this.displayManager?.incrementPacketCount();
-      this.packetCount++;
-
-      // Record frame if recording
+      // Record frame if recording (every monitored universe goes into one file)
       if (this.recorder?.isRecording()) {
-        this.recorder.recordFrame(packet.channels);
+        this.recorder.recordFrame(state.channels, packet.universe);
         const stats = this.recorder.getStats();
         this.displayManager?.updateRecordingFrameCount(stats.frameCount);
       }
 
+      // Only the universe being viewed updates the display
+      if (packet.universe !== this.currentUniverse) {
+        return;
+      }
+
+      // Update display
+      this.displayManager?.updateChannels(state.channels);
+      this.displayManager?.updateArbitration(state.arbitration);
+      this.displayManager?.incrementPacketCount();
+      this.packetCount++;
+
       logDebug("Packet matched", {
         universe: packet.universe,
         source: packet.source,
@@ -429,31 +571,280 @@ class DMXMonitorApp {
 
     // Handle sACN competing sources warning
     if (this.protocolHandler instanceof SACNHandler) {
-      (this.protocolHandler as SACNHandler).on("sourcesChanged", (sources: SACNSourceInfo[]) => {
-        this.displayManager?.updateCompetingSources(sources);
+      (this.protocolHandler as SACNHandler).on("sourcesChanged", (sources: SACNSourceInfo[], universe: number) => {
+        this.competingSources.set(universe, sources);
+        if (universe === this.currentUniverse) {
+          this.displayManager?.updateCompetingSources(sources);
+        }
         if (sources.length > 1) {
           const activeSource = sources.find((s) => s.isActive);
           const inactiveSources = sources.filter((s) => !s.isActive);
-          logWarn(`Multiple sACN sources on universe ${selectedUniverse}:`, {
+          logWarn(`Multiple sACN sources on universe ${universe}:`, {
             active: activeSource ? `${activeSource.sourceName} (pri:${activeSource.priority})` : "none",
             inactive: inactiveSources.map((s) => `${s.sourceName} (pri:${s.priority})`).join(", "),
           });
         }
       });
+
+      // Source transitions go to the event timeline
+      (this.protocolHandler as SACNHandler).on("sourceEvent", (event: SourceEvent) => {
+        this.displayManager?.addSourceEvent(event);
+      });
+
+      // Preview data is excluded until shown with W
+      this.displayManager?.onPreviewToggle(() => {
+        this.includePreview = !this.includePreview;
+        (this.protocolHandler as SACNHandler).setIncludePreview(this.includePreview);
+        this.displayManager?.setPreviewShown(this.includePreview);
+      });
+    }
+  }
+
+  /**
+   * Merge competing sACN sources and feed the display's merge views
+   */
+  private setupSourceMerge(sacnHandler: SACNHandler): void {
+    sacnHandler.setMergeSources(true);
+    sacnHandler.on("sourcesMerged", (merge: SourceMerge | null, universe: number) => {
+      if (merge) {
+        this.sourceMerges.set(universe, merge);
+      } else {
+        this.sourceMerges.delete(universe);
+      }
+      if (universe === this.currentUniverse) {
+        this.displayManager?.updateMerge(merge);
+      }
+    });
+  }
+
+  /**
+   * Start background ArtPoll and feed the node table
+   * @param intervalSeconds Poll interval in seconds (0 disables polling)
+   */
+  private startNodePolling(artnetHandler: ArtNetHandler, intervalSeconds: number): void {
+    const updateNodes = () => {
+      this.displayManager?.updateNodes(artnetHandler.getDiscoveredNodes());
+    };
+
+    artnetHandler.on("nodeDiscovered", updateNodes);
+    artnetHandler.on("nodeLost", updateNodes);
+    artnetHandler.on("nodeRecovered", updateNodes);
+    updateNodes();
+
+    if (intervalSeconds > 0) {
+      artnetHandler.startPolling(intervalSeconds * 1000);
+    } else {
+      logInfo("Art-Net node polling disabled");
+    }
+  }
+
+  /**
+   * Wire the RDM panel: device discovery and reads, plus patching through an RdmController
+   */
+  private setupRdmPanel(artnetHandler: ArtNetHandler): void {
+    const rdmController = createRdmController(artnetHandler);
+
+    // RDM devices behind the node picked in the node table
+    artnetHandler.on("rdmDevicesChanged", (nodeIp: string) => {
+      if (nodeIp === this.rdmNodeIp) {
+        this.displayManager?.updateRdmDevices(artnetHandler.getRdmDevices(nodeIp));
+      }
+    });
+    this.displayManager?.onNodeSelect((nodeIp) => {
+      this.rdmNodeIp = nodeIp;
+      this.displayManager?.updateRdmDevices(artnetHandler.getRdmDevices(nodeIp));
+      this.runRdmDiscovery(artnetHandler, nodeIp);
+    });
+    this.displayManager?.onRdmDiscover((nodeIp) => {
+      this.runRdmDiscovery(artnetHandler, nodeIp);
+    });
+    this.displayManager?.onRdmDeviceRefresh((uid) => {
+      this.refreshRdmDevice(artnetHandler, uid);
+    });
+
+    // Changes are confirmed in the display before these are called
+    this.displayManager?.onRdmSetStartAddress((uid, address) => {
+      this.runRdmChange(`address ${address}`, () => rdmController.setDmxStartAddress(uid, address));
+    });
+    this.displayManager?.onRdmSetLabel((uid, label) => {
+      this.runRdmChange(`label "${label}"`, () => rdmController.setDeviceLabel(uid, label));
+    });
+    this.displayManager?.onRdmIdentify((uid, on) => {
+      this.runRdmChange(`identify ${on ? "on" : "off"}`, () => rdmController.setIdentify(uid, on));
+    });
+  }
+
+  /**
+   * Apply an RDM change, showing the outcome in the RDM panel
+   */
+  private async runRdmChange(description: string, change: () => Promise<RdmDevice>): Promise<void> {
+    if (this.rdmBusy) {
+      this.displayManager?.setRdmStatus("busy - try again");
+      return;
+    }
+    this.rdmBusy = true;
+
+    try {
+      this.displayManager?.setRdmStatus(`setting ${description}...`);
+      const device = await change();
+      this.displayManager?.setRdmStatus(`${device.uid}: ${description} set`);
+    } catch (error) {
+      // The controller has already logged the failure
+      this.displayManager?.setRdmStatus(`failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.rdmBusy = false;
+    }
+  }
+
+  /**
+   * Discover the RDM devices behind a node and read their parameters
+   */
+  private async runRdmDiscovery(artnetHandler: ArtNetHandler, nodeIp: string): Promise<void> {
+    if (this.rdmBusy) return;
+    this.rdmBusy = true;
+
+    try {
+      this.displayManager?.setRdmStatus("discovering...");
+      const devices = await artnetHandler.discoverRdmDevices(nodeIp);
+      await this.readRdmDevices(artnetHandler, devices.map((d) => d.uid));
+    } catch (error) {
+      logError(error, `RDM discovery on ${nodeIp} failed`);
+      this.displayManager?.setRdmStatus("discovery failed");
+    } finally {
+      this.rdmBusy = false;
     }
   }
 
+  /**
+   * Re-read the parameters of one RDM device
+   */
+  private async refreshRdmDevice(artnetHandler: ArtNetHandler, uid: string): Promise<void> {
+    if (this.rdmBusy) return;
+    this.rdmBusy = true;
+
+    try {
+      await this.readRdmDevices(artnetHandler, [uid]);
+    } catch (error) {
+      logError(error, `Failed to read RDM device ${uid}`);
+      this.displayManager?.setRdmStatus("read failed");
+    } finally {
+      this.rdmBusy = false;
+    }
+  }
+
+  /**
+   * Read the parameters of some RDM devices one at a time, showing progress
+   */
+  private async readRdmDevices(artnetHandler: ArtNetHandler, uids: string[]): Promise<void> {
+    for (let i = 0; i < uids.length; i++) {
+      this.displayManager?.setRdmStatus(`reading ${i + 1}/${uids.length}...`);
+      await artnetHandler.refreshRdmDevice(uids[i]!);
+    }
+    const count = this.rdmNodeIp ? artnetHandler.getRdmDevices(this.rdmNodeIp).length : 0;
+    this.displayManager?.setRdmStatus(`${count} device(s)`);
+  }
+
   /**
    * Start packet rate calculation interval
    */
   private startPacketRateCalculation(): void {
     this.packetRateInterval = setInterval(() => {
+      this.universeManager?.updatePacketRates(PACKET_RATE_INTERVAL);
+      if (this.universeManager) {
+        this.displayManager?.updateUniverseOverview(this.universeManager.getUniverseOverview());
+      }
+      if (this.protocolHandler instanceof ArtNetHandler) {
+        this.displayManager?.updateNodes((this.protocolHandler as ArtNetHandler).getDiscoveredNodes());
+      }
+      if (this.protocolHandler instanceof SACNHandler) {
+        this.displayManager?.updateDiscoveredSources((this.protocolHandler as SACNHandler).getDiscoveredSources());
+      }
+      this.updateSyncDisplay();
+      this.updateSequenceDisplay();
+      if (this.protocolHandler instanceof SACNHandler || this.protocolHandler instanceof ArtNetHandler) {
+        this.displayManager?.updateTimingStats(this.protocolHandler.getTimingStats());
+      }
       const rate = this.packetCount - this.lastPacketCount;
       this.lastPacketCount = this.packetCount;
       this.displayManager?.setPacketsPerSecond(rate);
     }, PACKET_RATE_INTERVAL);
   }
 
+  /**
+   * Show lost, late and duplicate packet counts for the displayed universe
+   */
+  private updateSequenceDisplay(): void {
+    if (this.protocolHandler instanceof SACNHandler || this.protocolHandler instanceof ArtNetHandler) {
+      this.displayManager?.updateSequenceStats(this.protocolHandler.getSequenceStats(this.currentUniverse));
+    }
+  }
+
+  /**
+   * Show sACN sync or ArtSync statistics for the displayed universe
+   */
+  private updateSyncDisplay(): void {
+    if (this.protocolHandler instanceof ArtNetHandler) {
+      const source = this.universeManager?.getMonitoredUniverse(this.currentUniverse)?.source;
+      this.displayManager?.updateArtSync(source ? (this.protocolHandler as ArtNetHandler).getArtSyncStats(source) : null);
+      return;
+    }
+    if (!(this.protocolHandler instanceof SACNHandler)) return;
+
+    const syncAddress = this.universeManager?.getMonitoredUniverse(this.currentUniverse)?.syncAddress ?? 0;
+    const stats = syncAddress !== 0 ? (this.protocolHandler as SACNHandler).getSyncStats(syncAddress) : null;
+    this.displayManager?.updateSync(syncAddress, stats);
+  }
+
+  /**
+   * Switch the displayed universe to the next or previous monitored universe
+   */
+  private switchUniverse(direction: 1 | -1): void {
+    if (!this.universeManager || !this.displayManager) return;
+
+    const universes = this.universeManager.getSelectedUniverses();
+    if (universes.length <= 1) return;
+
+    const index = universes.indexOf(this.currentUniverse);
+    this.showUniverse(universes[(index + direction + universes.length) % universes.length]!);
+  }
+
+  /**
+   * Show a universe in the channel grid, adding it to the monitored set if needed
+   */
+  private showUniverse(universe: number): void {
+    if (!this.universeManager || !this.displayManager) return;
+
+    if (!this.universeManager.isMonitored(universe)) {
+      this.universeManager.addMonitoredUniverse(universe);
+      if (this.protocolHandler instanceof SACNHandler) {
+        (this.protocolHandler as SACNHandler).addUniverse(universe);
+      }
+      this.displayManager.updateStats({ monitoredUniverses: this.universeManager.getSelectedUniverses() });
+    }
+
+    const state = this.universeManager.getMonitoredUniverse(universe);
+    if (!state) return;
+
+    this.currentUniverse = universe;
+    this.packetCount = state.packetsReceived;
+    this.lastPacketCount = state.lastRateCount;
+
+    this.displayManager.updateStats({
+      universe,
+      packetsReceived: state.packetsReceived,
+      packetsPerSecond: state.packetsPerSecond,
+      lastPacketTime: state.lastPacketTime,
+    });
+    this.displayManager.updateChannels(state.channels);
+    this.displayManager.updateArbitration(state.arbitration);
+    this.displayManager.updateCompetingSources(this.competingSources.get(universe) ?? []);
+    this.displayManager.updateMerge(this.sourceMerges.get(universe) ?? null);
+    this.updateSyncDisplay();
+    this.updateSequenceDisplay();
+
+    logInfo(`Switched to universe ${formatUniverseForDisplay(universe, this.currentProtocol)}`);
+  }
+
   /**
    * Toggle recording on/off
    */
@@ -480,7 +871,8 @@ class DMXMonitorApp {
       } else {
         // Start recording
         logInfo("toggleRecording: starting recording");
-        const filePath = this.recorder.startRecording(this.currentProtocol, this.currentUniverse, this.recordingDir);
+        const universes = this.universeManager?.getSelectedUniverses() ?? [this.currentUniverse];
+        const filePath = this.recorder.startRecording(this.currentProtocol, universes, this.recordingDir);
         logInfo("Recording started", { filePath });
         this.displayManager?.setRecordingState("recording", new Date(), 0);
         logInfo("setRecordingState called");
@@ -551,26 +943,52 @@ class DMXMonitorApp {
 
   private player: DMXPlayer | null = null;
   private transmitter: DMXTransmitter | null = null;
+  /** Offset added to recorded universes when transmitting (from -u) */
+  private playbackUniverseOffset = 0;
+  /** Recorded universe shown on the display */
+  private playbackUniverse = 0;
+  /** What happens to the output on stop and quit */
+  private stopPolicy: StopPolicy = "blackout";
+  /** Fade time for the fade stop policy (seconds) */
+  private fadeTime = DEFAULT_FADE_TIME;
+  /** Player frames are not sent while the stop policy owns the output */
+  private outputReleased = false;
+  /** Fade to black in progress */
+  private fade: { timer: NodeJS.Timeout; finish: () => void; done: Promise<void> } | null = null;
 
   /**
    * Run in playback mode
    */
   private async runPlaybackMode(cliOptions: CLIOptions): Promise<void> {
     try {
+      validatePlaybackOptions(cliOptions);
+
       const playbackFile = cliOptions.playback!;
 
       console.log(`\n📼 Loading recording: ${playbackFile}`);
 
       // Create and load player
-      this.player = createPlayer();
+      this.player = createPlayer({ saveSeekIndex: cliOptions.seekIndex });
       const header = this.player.load(playbackFile);
 
-      // Determine protocol and universe
+      // Determine protocol and universes
+      // -u moves the first recorded universe, the rest keep their spacing
       const protocol: Protocol = cliOptions.protocol ?? (header.protocol === 0 ? "sacn" : "artnet");
       const universe = cliOptions.universe ?? header.universe;
+      this.playbackUniverseOffset = universe - header.universe;
+      this.playbackUniverse = header.universe;
+      const targetUniverses = header.universes.map((u) => u + this.playbackUniverseOffset);
+      const invalidUniverse = targetUniverses.find((u) => !isValidUniverse(u));
+      if (invalidUniverse !== undefined) {
+        throw ConfigError.invalidOption("universe", invalidUniverse, "Recorded universes shifted out of range");
+      }
 
       console.log(`   Protocol: ${protocol.toUpperCase()}`);
-      console.log(`   Universe: ${universe}`);
+      if (targetUniverses.length > 1) {
+        console.log(`   Universes: ${formatUniverseRanges(targetUniverses)} (${targetUniverses.length} total)`);
+      } else {
+        console.log(`   Universe: ${universe}`);
+      }
       console.log(`   Duration: ${(header.duration / 1000).toFixed(1)}s`);
       console.log(`   Frames: ${header.frameCount}`);
 
@@ -593,10 +1011,34 @@ class DMXMonitorApp {
         console.log(`   Priority: ${priority}`);
       }
 
+      // Multi-universe sACN playback is synchronized so receivers apply each frame together
+      const syncAddress = protocol === "sacn" ? (cliOptions.syncUniverse ?? (targetUniverses.length > 1 ? targetUniverses[0]! : 0)) : 0;
+      if (syncAddress !== 0) {
+        console.log(`   Sync universe: ${syncAddress}`);
+      }
+      const artSync = protocol === "artnet" && cliOptions.artSync === true;
+      if (artSync) {
+        console.log(`   ArtSync: enabled`);
+      }
+      if (cliOptions.refreshRate) {
+        console.log(`   Refresh rate: ${cliOptions.refreshRate} Hz`);
+      }
+      if (cliOptions.keepAlive === 0 && !cliOptions.refreshRate) {
+        console.log(`   Keep-alive: disabled`);
+      }
+
+      this.stopPolicy = cliOptions.onStop ?? "blackout";
+      this.fadeTime = cliOptions.fadeTime ?? DEFAULT_FADE_TIME;
+      console.log(`   On stop: ${this.stopPolicy === "fade" ? `fade over ${this.fadeTime}s` : this.stopPolicy}`);
+
       this.transmitter = createTransmitter(protocol, universe, {
         targetAddress: cliOptions.address,
         interfaceAddress: cliOptions.address,
         priority,
+        syncAddress,
+        artSync,
+        refreshRate: cliOptions.refreshRate,
+        keepAlive: cliOptions.keepAlive,
       });
 
       await this.transmitter.start();
@@ -619,6 +1061,7 @@ class DMXMonitorApp {
         loopEnabled: this.player.isLoopEnabled(),
         fileName: path.basename(playbackFile),
         universe,
+        universes: targetUniverses,
         protocol,
       });
 
@@ -626,16 +1069,15 @@ class DMXMonitorApp {
       this.setupPlaybackCallbacks();
 
       // Setup player event handlers
-      this.player.onFrame((channels) => {
-        // Update display
-        this.displayManager?.updateChannels(channels);
+      this.player.onFrame((channels, recordedUniverse) => {
+        // The stop policy decides what is sent (and shown) after a stop
+        if (this.outputReleased) return;
 
-        // Transmit DMX
-        this.transmitter?.send(channels);
+        this.sendOutput(channels, recordedUniverse);
       });
 
       this.player.onPosition((position, duration) => {
-        this.displayManager?.updatePlaybackInfo({ position, duration });
+        this.displayManager?.updatePlaybackInfo({ position, duration, drift: this.player?.getStats().drift });
       });
 
       this.player.onStateChange((state) => {
@@ -656,7 +1098,7 @@ class DMXMonitorApp {
       logInfo("Playback mode running", {
         file: playbackFile,
         protocol,
-        universe,
+        universes: targetUniverses,
       });
     } catch (error) {
       await this.handleFatalError(error);
@@ -671,6 +1113,8 @@ class DMXMonitorApp {
 
     this.displayManager.onPlayPause(() => {
       if (this.player) {
+        this.cancelFade();
+        this.outputReleased = false;
         this.player.togglePlayPause();
         this.displayManager?.updatePlaybackInfo({
           state: this.player.getState(),
@@ -680,13 +1124,11 @@ class DMXMonitorApp {
 
     this.displayManager.onStop(() => {
       if (this.player) {
-        this.player.stop();
+        void this.releaseOutput(false);
         this.displayManager?.updatePlaybackInfo({
           state: "idle",
           position: 0,
         });
-        // Send blackout
-        this.transmitter?.send(new Uint8Array(512));
       }
     });
 
@@ -716,6 +1158,14 @@ class DMXMonitorApp {
       }
     });
 
+    this.displayManager.onNextUniverse(() => {
+      this.switchPlaybackUniverse(1);
+    });
+
+    this.displayManager.onPreviousUniverse(() => {
+      this.switchPlaybackUniverse(-1);
+    });
+
     this.displayManager.onLoopToggle(() => {
       if (this.player) {
         this.player.toggleLoop();
@@ -726,16 +1176,117 @@ class DMXMonitorApp {
     });
   }
 
+  /**
+   * Stop the player and apply the stop policy to the output
+   * sACN receivers are then released with Stream_Terminated, except when a
+   * stop holds the look (the keep-alive keeps it on stage instead).
+   * @param quitting - The program is exiting; always terminate
+   */
+  private async releaseOutput(quitting: boolean): Promise<void> {
+    if (!this.player) return;
+
+    if (!this.outputReleased) {
+      // Take the look before stop() resets the channels
+      const looks = new Map<number, Uint8Array>();
+      for (const universe of this.player.getUniverses()) {
+        looks.set(universe, this.player.getChannels(universe).slice());
+      }
+
+      this.outputReleased = true;
+      this.player.stop();
+
+      if (this.stopPolicy === "blackout") {
+        for (const universe of looks.keys()) {
+          this.sendOutput(new Uint8Array(TOTAL_CHANNELS), universe);
+        }
+      } else if (this.stopPolicy === "fade") {
+        this.startFade(looks);
+      }
+      logInfo("Playback output released", { policy: this.stopPolicy, quitting });
+    }
+
+    if (this.fade) {
+      await this.fade.done;
+      // Play was pressed during the fade
+      if (!this.outputReleased) return;
+    }
+
+    if (quitting || this.stopPolicy !== "hold") {
+      await this.transmitter?.terminate();
+    }
+  }
+
+  /**
+   * Fade the given looks to black over the fade time
+   */
+  private startFade(looks: Map<number, Uint8Array>): void {
+    const started = Date.now();
+    const duration = this.fadeTime * 1000;
+    let finish: () => void = () => {};
+    const done = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+
+    const timer = setInterval(() => {
+      const level = duration > 0 ? Math.max(0, 1 - (Date.now() - started) / duration) : 0;
+      for (const [universe, look] of looks) {
+        this.sendOutput(look.map((value) => Math.round(value * level)), universe);
+      }
+      if (level === 0) {
+        this.cancelFade();
+      }
+    }, FADE_STEP_MS);
+
+    this.fade = { timer, finish, done };
+  }
+
+  /**
+   * Stop a running fade where it is
+   */
+  private cancelFade(): void {
+    if (!this.fade) return;
+    clearInterval(this.fade.timer);
+    this.fade.finish();
+    this.fade = null;
+  }
+
+  /**
+   * Send a recorded universe's data and show it if it is the displayed universe
+   */
+  private sendOutput(channels: Uint8Array, recordedUniverse: number): void {
+    if (recordedUniverse === this.playbackUniverse) {
+      this.displayManager?.updateChannels(channels);
+    }
+    this.transmitter?.send(channels, recordedUniverse + this.playbackUniverseOffset);
+  }
+
+  /**
+   * Switch the displayed universe during multi-universe playback
+   */
+  private switchPlaybackUniverse(direction: 1 | -1): void {
+    if (!this.player || !this.displayManager) return;
+
+    const universes = this.player.getUniverses();
+    if (universes.length <= 1) return;
+
+    const index = universes.indexOf(this.playbackUniverse);
+    this.playbackUniverse = universes[(index + direction + universes.length) % universes.length]!;
+
+    this.displayManager.updatePlaybackInfo({ universe: this.playbackUniverse + this.playbackUniverseOffset });
+    this.displayManager.updateChannels(this.player.getChannels(this.playbackUniverse));
+  }
+
   /**
    * Cleanup resources
    */
   private async cleanup(): Promise<void> {
     logInfo("Cleaning up resources...");
 
-    // Stop player if active
+    // Stop player if active, applying the stop policy before the transmitter closes
     if (this.player) {
       try {
-        this.player.stop();
+        await this.releaseOutput(true);
+        this.player.close();
       } catch (error) {
         logError(error, "Error stopping player");
       }
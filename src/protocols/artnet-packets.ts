@@ -0,0 +1,523 @@
+/**
+ * Art-Net packet codec for DMX Monitor
+ *
+ * Decodes Art-Net packets other than ArtDmx directly from the wire.
+ * Port: 6454 (0x1936)
+ */
+
+import { ArtNetNodePort } from "../types";
+import { ProtocolError } from "../errors";
+import { RDM_START_CODE, RDM_UID_LENGTH, formatUid } from "./rdm";
+
+/** RDM OpCodes */
+export const ARTNET_OPCODE_TOD_REQUEST = 0x8000; // OpTodRequest
+export const ARTNET_OPCODE_TOD_DATA = 0x8100; // OpTodData
+export const ARTNET_OPCODE_RDM = 0x8300; // OpRdm
+
+/** Synchronization OpCode */
+export const ARTNET_OPCODE_SYNC = 0x5200; // OpSync
+
+/** Art-Net protocol revision sent in our packets */
+const ARTNET_PROTOCOL_VERSION = 14;
+
+/** RDM standard version carried in ArtTodData/ArtRdm (0x01 = E1.20) */
+const ARTNET_RDM_VERSION = 0x01;
+
+/** Maximum port addresses in one ArtTodRequest */
+export const ARTNET_TOD_REQUEST_MAX_ADDRESSES = 32;
+
+/** ArtTodData header length (UIDs follow) */
+export const ARTNET_TOD_DATA_MIN_LENGTH = 28;
+
+/** ArtRdm header length (RDM message follows) */
+export const ARTNET_RDM_MIN_LENGTH = 24;
+
+/** ArtSync length */
+export const ARTNET_SYNC_LENGTH = 14;
+
+/** Minimum ArtPollReply length (through the MAC address) */
+export const ARTNET_POLL_REPLY_MIN_LENGTH = 207;
+
+/** Number of ports described by a single ArtPollReply */
+export const ARTNET_PORTS_PER_REPLY = 4;
+
+/** PortTypes bits */
+export const PortType = {
+  /** Port can output data from the Art-Net network */
+  OUTPUT: 0x80,
+  /** Port can input data onto the Art-Net network */
+  INPUT: 0x40,
+  /** Protocol mask (bits 0-5) */
+  PROTOCOL_MASK: 0x3f,
+} as const;
+
+/** GoodInput bits */
+export const GoodInput = {
+  /** Data received */
+  DATA_RECEIVED: 0x80,
+  /** Channel includes DMX512 test packets */
+  TEST_PACKETS: 0x40,
+  /** Channel includes DMX512 SIPs */
+  SIPS: 0x20,
+  /** Channel includes DMX512 text packets */
+  TEXT_PACKETS: 0x10,
+  /** Input is disabled */
+  DISABLED: 0x08,
+  /** Receive errors detected */
+  RECEIVE_ERRORS: 0x04,
+} as const;
+
+/** GoodOutput bits */
+export const GoodOutput = {
+  /** ArtDmx or sACN data is being output */
+  DATA_TRANSMITTING: 0x80,
+  /** Channel includes DMX512 test packets */
+  TEST_PACKETS: 0x40,
+  /** Channel includes DMX512 SIPs */
+  SIPS: 0x20,
+  /** Channel includes DMX512 text packets */
+  TEXT_PACKETS: 0x10,
+  /** Output is merging Art-Net data */
+  MERGING: 0x08,
+  /** DMX output short detected on power up */
+  SHORT_DETECTED: 0x04,
+  /** Merge mode is LTP */
+  MERGE_LTP: 0x02,
+  /** Output is transmitting sACN rather than Art-Net */
+  SACN: 0x01,
+} as const;
+
+/** Status1 bits */
+export const Status1 = {
+  /** Indicator state mask (bits 6-7: 01 locate, 10 mute, 11 normal) */
+  INDICATOR_MASK: 0xc0,
+  /** Port-address programming authority mask (bits 4-5) */
+  AUTHORITY_MASK: 0x30,
+  /** Booted from ROM */
+  ROM_BOOT: 0x04,
+  /** Supports RDM */
+  RDM_CAPABLE: 0x02,
+  /** UBEA present */
+  UBEA_PRESENT: 0x01,
+} as const;
+
+/** Status2 bits */
+export const Status2 = {
+  /** Supports web browser configuration */
+  WEB_CONFIG: 0x01,
+  /** IP is DHCP configured */
+  DHCP_CONFIGURED: 0x02,
+  /** Node is DHCP capable */
+  DHCP_CAPABLE: 0x04,
+  /** Node supports 15-bit port addresses (Art-Net 3/4) */
+  PORT_ADDRESS_15BIT: 0x08,
+  /** Node can switch between Art-Net and sACN */
+  SACN_SWITCHABLE: 0x10,
+  /** Node is squawking */
+  SQUAWKING: 0x20,
+} as const;
+
+/** Port protocol names by PortTypes protocol value */
+const PORT_PROTOCOLS: Record<number, string> = {
+  0x00: "DMX512",
+  0x01: "MIDI",
+  0x02: "Avab",
+  0x03: "Colortran CMX",
+  0x04: "ADB 62.5",
+  0x05: "Art-Net",
+  0x06: "DALI",
+};
+
+/** Decoded ArtPollReply packet */
+export interface ArtPollReply {
+  /** IP address reported by the node */
+  ip: string;
+  /** Firmware revision (VersInfoH/VersInfoL) */
+  firmwareVersion: number;
+  /** Bits 14-8 of the port addresses */
+  netSwitch: number;
+  /** Bits 7-4 of the port addresses */
+  subSwitch: number;
+  oem: number;
+  status1: number;
+  /** ESTA manufacturer code */
+  estaCode: number;
+  shortName: string;
+  longName: string;
+  nodeReport: string;
+  /** Number of ports described by this reply (0-4) */
+  numPorts: number;
+  portTypes: number[];
+  goodInput: number[];
+  goodOutput: number[];
+  /** Bits 3-0 of each input port address */
+  swIn: number[];
+  /** Bits 3-0 of each output port address */
+  swOut: number[];
+  style: number;
+  macAddress: string;
+  /** IP of the root device (0.0.0.0 if not reported) */
+  bindIp: string;
+  /** Order of this reply among the node's replies (1 = root device) */
+  bindIndex: number;
+  status2: number;
+}
+
+/**
+ * Build a 15-bit port address from its Net, Sub-Net and Universe parts
+ */
+export function toPortAddress(net: number, subNet: number, universe: number): number {
+  return ((net & 0x7f) << 8) | ((subNet & 0x0f) << 4) | (universe & 0x0f);
+}
+
+/**
+ * Get the protocol name of a PortTypes byte
+ */
+export function describePortProtocol(portType: number): string {
+  const protocol = portType & PortType.PROTOCOL_MASK;
+  return PORT_PROTOCOLS[protocol] ?? `Unknown (0x${protocol.toString(16)})`;
+}
+
+/**
+ * Read a null-terminated ASCII string field
+ */
+function readStringField(msg: Buffer, offset: number, length: number): string {
+  return msg.toString("utf8", offset, offset + length).split("\0")[0]?.trim() ?? "";
+}
+
+/**
+ * Parse an ArtPollReply packet (OpPollReply 0x2100)
+ *
+ * Packet structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 0      | 8    | "Art-Net\0"
+ * 8      | 2    | OpCode (0x2100, little-endian)
+ * 10     | 4    | IP address
+ * 14     | 2    | Port (little-endian)
+ * 16     | 2    | Firmware version (hi, lo)
+ * 18     | 1    | NetSwitch (port address bits 14-8)
+ * 19     | 1    | SubSwitch (port address bits 7-4)
+ * 20     | 2    | OEM (hi, lo)
+ * 22     | 1    | UBEA version
+ * 23     | 1    | Status1
+ * 24     | 2    | ESTA manufacturer (lo, hi)
+ * 26     | 18   | Short name
+ * 44     | 64   | Long name
+ * 108    | 64   | Node report
+ * 172    | 2    | Number of ports (hi, lo)
+ * 174    | 4    | PortTypes
+ * 178    | 4    | GoodInput
+ * 182    | 4    | GoodOutput
+ * 186    | 4    | SwIn (port address bits 3-0)
+ * 190    | 4    | SwOut (port address bits 3-0)
+ * 194    | 6    | AcnPriority, SwMacro, SwRemote, spare
+ * 200    | 1    | Style
+ * 201    | 6    | MAC address
+ * 207    | 4    | Bind IP (optional)
+ * 211    | 1    | Bind index (optional)
+ * 212    | 1    | Status2 (optional)
+ *
+ * @throws ProtocolError if the packet is too short
+ */
+export function parseArtPollReply(msg: Buffer): ArtPollReply {
+  if (msg.length < ARTNET_POLL_REPLY_MIN_LENGTH) {
+    throw ProtocolError.packetTooShort("Art-Net", msg.length, ARTNET_POLL_REPLY_MIN_LENGTH);
+  }
+
+  const readPorts = (offset: number): number[] => Array.from(msg.subarray(offset, offset + ARTNET_PORTS_PER_REPLY));
+
+  const macAddress = Array.from(msg.subarray(201, 207))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join(":")
+    .toUpperCase();
+
+  // Bind fields were added in Art-Net 3; older nodes send a shorter reply
+  const hasBindFields = msg.length >= 213;
+
+  return {
+    ip: Array.from(msg.subarray(10, 14)).join("."),
+    firmwareVersion: msg.readUInt16BE(16),
+    netSwitch: msg.readUInt8(18) & 0x7f,
+    subSwitch: msg.readUInt8(19) & 0x0f,
+    oem: msg.readUInt16BE(20),
+    status1: msg.readUInt8(23),
+    estaCode: msg.readUInt16LE(24),
+    shortName: readStringField(msg, 26, 18),
+    longName: readStringField(msg, 44, 64),
+    nodeReport: readStringField(msg, 108, 64),
+    numPorts: Math.min(msg.readUInt16BE(172), ARTNET_PORTS_PER_REPLY),
+    portTypes: readPorts(174),
+    goodInput: readPorts(178),
+    goodOutput: readPorts(182),
+    swIn: readPorts(186),
+    swOut: readPorts(190),
+    style: msg.readUInt8(200),
+    macAddress,
+    bindIp: hasBindFields ? Array.from(msg.subarray(207, 211)).join(".") : "0.0.0.0",
+    // Bind index 0 means the node doesn't use bind indexes - treat as the root device
+    bindIndex: hasBindFields ? Math.max(1, msg.readUInt8(211)) : 1,
+    status2: hasBindFields ? msg.readUInt8(212) : 0,
+  };
+}
+
+/**
+ * Get the ports described by an ArtPollReply with their full 15-bit port addresses
+ * Ports with neither input nor output capability are skipped
+ */
+export function getArtPollReplyPorts(reply: ArtPollReply): ArtNetNodePort[] {
+  const ports: ArtNetNodePort[] = [];
+
+  for (let i = 0; i < reply.numPorts; i++) {
+    const portType = reply.portTypes[i] ?? 0;
+    const isInput = (portType & PortType.INPUT) !== 0;
+    const isOutput = (portType & PortType.OUTPUT) !== 0;
+    if (!isInput && !isOutput) continue;
+
+    ports.push({
+      bindIndex: reply.bindIndex,
+      port: i,
+      protocol: describePortProtocol(portType),
+      isInput,
+      isOutput,
+      inputUniverse: toPortAddress(reply.netSwitch, reply.subSwitch, reply.swIn[i] ?? 0),
+      outputUniverse: toPortAddress(reply.netSwitch, reply.subSwitch, reply.swOut[i] ?? 0),
+      goodInput: reply.goodInput[i] ?? 0,
+      goodOutput: reply.goodOutput[i] ?? 0,
+    });
+  }
+
+  return ports;
+}
+
+/**
+ * Summarise a port's direction and status for display, e.g. "Out U5 DMX512 (active, merging)"
+ * @param formatUniverse Converts the 0-based port address for display
+ */
+export function describePort(port: ArtNetNodePort, formatUniverse: (universe: number) => number = (u) => u): string {
+  const parts: string[] = [];
+
+  if (port.isOutput) {
+    const flags: string[] = [port.goodOutput & GoodOutput.DATA_TRANSMITTING ? "active" : "idle"];
+    if (port.goodOutput & GoodOutput.MERGING) flags.push(port.goodOutput & GoodOutput.MERGE_LTP ? "merging LTP" : "merging HTP");
+    if (port.goodOutput & GoodOutput.SACN) flags.push("sACN");
+    if (port.goodOutput & GoodOutput.SHORT_DETECTED) flags.push("short");
+    parts.push(`Out U${formatUniverse(port.outputUniverse)} (${flags.join(", ")})`);
+  }
+
+  if (port.isInput) {
+    const flags: string[] = [];
+    if (port.goodInput & GoodInput.DISABLED) {
+      flags.push("disabled");
+    } else {
+      flags.push(port.goodInput & GoodInput.DATA_RECEIVED ? "receiving" : "no data");
+    }
+    if (port.goodInput & GoodInput.RECEIVE_ERRORS) flags.push("errors");
+    parts.push(`In U${formatUniverse(port.inputUniverse)} (${flags.join(", ")})`);
+  }
+
+  return `${parts.join(" / ")} ${port.protocol}`;
+}
+
+/**
+ * Summarise ports as output and input universe lists, e.g. "Out: 1, 2 | In: 3"
+ */
+export function summarizePorts(ports: ArtNetNodePort[], formatUniverse: (universe: number) => number = (u) => u): string {
+  const outputs = new Set(ports.filter((p) => p.isOutput).map((p) => formatUniverse(p.outputUniverse)));
+  const inputs = new Set(ports.filter((p) => p.isInput).map((p) => formatUniverse(p.inputUniverse)));
+  const parts: string[] = [];
+  if (outputs.size > 0) parts.push(`Out: ${Array.from(outputs).join(", ")}`);
+  if (inputs.size > 0) parts.push(`In: ${Array.from(inputs).join(", ")}`);
+  return parts.join(" | ");
+}
+
+/** Decoded ArtTodData packet */
+export interface ArtTodData {
+  /** Physical port (1-4) */
+  port: number;
+  bindIndex: number;
+  /** 15-bit port address of the universe the devices are on */
+  universe: number;
+  /** 0x00 = full table, 0xFF = table not available */
+  commandResponse: number;
+  /** Total number of UIDs in the node's table */
+  uidTotal: number;
+  /** Index of this block when the table spans several packets */
+  blockCount: number;
+  uids: string[];
+}
+
+/** Decoded ArtRdm packet */
+export interface ArtRdm {
+  /** 15-bit port address of the universe the message is for */
+  universe: number;
+  command: number;
+  /** RDM message including the start code */
+  rdmMessage: Buffer;
+}
+
+/**
+ * Write the Art-Net ID, OpCode and protocol version
+ */
+function writeArtNetHeader(packet: Buffer, opCode: number): void {
+  packet.write("Art-Net\0", 0);
+  packet.writeUInt16LE(opCode, 8);
+  packet.writeUInt8(0, 10);
+  packet.writeUInt8(ARTNET_PROTOCOL_VERSION, 11);
+}
+
+/**
+ * Build ArtTodRequest packets asking for the device tables of some universes
+ * Universes on different Nets need separate requests.
+ *
+ * Packet structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 0      | 8    | "Art-Net\0"
+ * 8      | 2    | OpCode (0x8000, little-endian)
+ * 10     | 2    | Protocol version (hi, lo)
+ * 12     | 9    | Filler and spare
+ * 21     | 1    | Net (port address bits 14-8)
+ * 22     | 1    | Command (0x00 = TodFull)
+ * 23     | 1    | Address count (1-32)
+ * 24     | 32   | Addresses (port address bits 7-0)
+ */
+export function buildArtTodRequests(universes: number[]): Buffer[] {
+  const byNet = new Map<number, number[]>();
+  for (const universe of universes) {
+    const net = (universe >> 8) & 0x7f;
+    const addresses = byNet.get(net) ?? [];
+    if (!addresses.includes(universe & 0xff)) addresses.push(universe & 0xff);
+    byNet.set(net, addresses);
+  }
+
+  const packets: Buffer[] = [];
+  for (const [net, addresses] of byNet) {
+    for (let i = 0; i < addresses.length; i += ARTNET_TOD_REQUEST_MAX_ADDRESSES) {
+      const chunk = addresses.slice(i, i + ARTNET_TOD_REQUEST_MAX_ADDRESSES);
+      const packet = Buffer.alloc(24 + ARTNET_TOD_REQUEST_MAX_ADDRESSES);
+      writeArtNetHeader(packet, ARTNET_OPCODE_TOD_REQUEST);
+      packet.writeUInt8(net, 21);
+      packet.writeUInt8(0x00, 22);
+      packet.writeUInt8(chunk.length, 23);
+      chunk.forEach((address, index) => packet.writeUInt8(address, 24 + index));
+      packets.push(packet);
+    }
+  }
+
+  return packets;
+}
+
+/**
+ * Build an ArtSync packet telling nodes to output the ArtDmx data sent since the last ArtSync
+ *
+ * Packet structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 0      | 8    | "Art-Net\0"
+ * 8      | 2    | OpCode (0x5200, little-endian)
+ * 10     | 2    | Protocol version (hi, lo)
+ * 12     | 1    | Aux1 (0)
+ * 13     | 1    | Aux2 (0)
+ */
+export function buildArtSync(): Buffer {
+  const packet = Buffer.alloc(ARTNET_SYNC_LENGTH);
+  writeArtNetHeader(packet, ARTNET_OPCODE_SYNC);
+  return packet;
+}
+
+/**
+ * Parse an ArtTodData packet (OpTodData 0x8100)
+ *
+ * Packet structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 0      | 8    | "Art-Net\0"
+ * 8      | 2    | OpCode (0x8100, little-endian)
+ * 10     | 2    | Protocol version (hi, lo)
+ * 12     | 1    | RDM version
+ * 13     | 1    | Physical port (1-4)
+ * 14     | 6    | Spare
+ * 20     | 1    | Bind index
+ * 21     | 1    | Net (port address bits 14-8)
+ * 22     | 1    | Command response (0x00 = full, 0xFF = not available)
+ * 23     | 1    | Address (port address bits 7-0)
+ * 24     | 2    | UID total (hi, lo)
+ * 26     | 1    | Block count
+ * 27     | 1    | UID count in this packet
+ * 28     | 6*n  | UIDs
+ *
+ * @throws ProtocolError if the packet is too short
+ */
+export function parseArtTodData(msg: Buffer): ArtTodData {
+  if (msg.length < ARTNET_TOD_DATA_MIN_LENGTH) {
+    throw ProtocolError.packetTooShort("Art-Net", msg.length, ARTNET_TOD_DATA_MIN_LENGTH);
+  }
+
+  const uidCount = msg.readUInt8(27);
+  const expected = ARTNET_TOD_DATA_MIN_LENGTH + uidCount * RDM_UID_LENGTH;
+  if (msg.length < expected) {
+    throw ProtocolError.packetTooShort("Art-Net", msg.length, expected);
+  }
+
+  const uids: string[] = [];
+  for (let i = 0; i < uidCount; i++) {
+    uids.push(formatUid(msg, ARTNET_TOD_DATA_MIN_LENGTH + i * RDM_UID_LENGTH));
+  }
+
+  return {
+    port: msg.readUInt8(13),
+    bindIndex: Math.max(1, msg.readUInt8(20)),
+    universe: ((msg.readUInt8(21) & 0x7f) << 8) | msg.readUInt8(23),
+    commandResponse: msg.readUInt8(22),
+    uidTotal: msg.readUInt16BE(24),
+    blockCount: msg.readUInt8(26),
+    uids,
+  };
+}
+
+/**
+ * Build an ArtRdm packet carrying an RDM message
+ * @param rdmMessage RDM message including the start code, which ArtRdm omits
+ *
+ * Packet structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 0      | 8    | "Art-Net\0"
+ * 8      | 2    | OpCode (0x8300, little-endian)
+ * 10     | 2    | Protocol version (hi, lo)
+ * 12     | 1    | RDM version
+ * 13     | 8    | Filler and spare
+ * 21     | 1    | Net (port address bits 14-8)
+ * 22     | 1    | Command (0x00 = ArProcess)
+ * 23     | 1    | Address (port address bits 7-0)
+ * 24     | n    | RDM message without the start code
+ */
+export function buildArtRdm(universe: number, rdmMessage: Buffer): Buffer {
+  const body = rdmMessage.subarray(1);
+  const packet = Buffer.alloc(ARTNET_RDM_MIN_LENGTH + body.length);
+  writeArtNetHeader(packet, ARTNET_OPCODE_RDM);
+  packet.writeUInt8(ARTNET_RDM_VERSION, 12);
+  packet.writeUInt8((universe >> 8) & 0x7f, 21);
+  packet.writeUInt8(0x00, 22);
+  packet.writeUInt8(universe & 0xff, 23);
+  body.copy(packet, ARTNET_RDM_MIN_LENGTH);
+  return packet;
+}
+
+/**
+ * Parse an ArtRdm packet (OpRdm 0x8300)
+ * The start code is restored so the message can be passed to parseRdmMessage.
+ * @throws ProtocolError if the packet is too short
+ */
+export function parseArtRdm(msg: Buffer): ArtRdm {
+  if (msg.length < ARTNET_RDM_MIN_LENGTH + 1) {
+    throw ProtocolError.packetTooShort("Art-Net", msg.length, ARTNET_RDM_MIN_LENGTH + 1);
+  }
+
+  return {
+    universe: ((msg.readUInt8(21) & 0x7f) << 8) | msg.readUInt8(23),
+    command: msg.readUInt8(22),
+    rdmMessage: Buffer.concat([Buffer.from([RDM_START_CODE]), msg.subarray(ARTNET_RDM_MIN_LENGTH)]),
+  };
+}
@@ -8,20 +8,59 @@
 
 import dgram from 'dgram';
 import { EventEmitter } from 'events';
+import { performance } from 'perf_hooks';
 import {
   DMXPacket,
   UniverseInfo,
   ProtocolHandler,
   ProtocolEvents,
   ArtNetNode,
+  RdmDevice,
+  ArtSyncStats,
+  SequenceStats,
+  TimingStats,
   ARTNET_PORT,
   ARTNET_BROADCAST,
   TOTAL_CHANNELS,
   isValidUniverse,
+  pushSample,
+  meanOf,
 } from '../types';
-import { NetworkError, ProtocolError, wrapError } from '../errors';
+import { NetworkError, ProtocolError, RdmError, wrapError } from '../errors';
 import { logDebug, logError, logInfo, logWarn } from '../logger';
 import { ESTA_MANUFACTURER_CODES } from '../constants/esta';
+import {
+  ArtPollReply,
+  ArtTodData,
+  parseArtPollReply,
+  getArtPollReplyPorts,
+  buildArtTodRequests,
+  parseArtTodData,
+  buildArtRdm,
+  parseArtRdm,
+  ARTNET_OPCODE_TOD_DATA,
+  ARTNET_OPCODE_RDM,
+  ARTNET_OPCODE_SYNC,
+  ARTNET_SYNC_LENGTH,
+} from './artnet-packets';
+import {
+  RdmMessage,
+  RdmCommandClass,
+  RdmParameterId,
+  RdmResponseType,
+  buildRdmMessage,
+  parseRdmMessage,
+  isRdmResponse,
+  createControllerUid,
+  parseDeviceInfo,
+  parseDmxStartAddress,
+  parseRdmText,
+  parseSensorValue,
+  describeNackReason,
+  describeParameter,
+} from './rdm';
+import { createSequenceTracker, isLatePacket } from '../sequence';
+import { createTimingAnalyzer, TIMING_FORGET_MS } from '../timing';
 
 /** Art-Net handler configuration */
 export interface ArtNetConfig {
@@ -41,11 +80,48 @@ const ARTNET_OPCODE_POLL_REPLY = 0x2100; // OpPollReply
 const ARTNET_HEADER = Buffer.from("Art-Net\0");
 const ARTNET_HEADER_LENGTH = 8;
 const ARTNET_MIN_PACKET_LENGTH = 18; // Header + OpCode + ProtVer + Sequence + Physical + Universe + Length
-const ARTNET_POLL_REPLY_MIN_LENGTH = 207; // Minimum ArtPollReply packet length
 
 /** Default discovery timeout in milliseconds */
 const DEFAULT_DISCOVERY_TIMEOUT = 3000;
 
+/** Default interval between background ArtPolls in milliseconds */
+const DEFAULT_POLL_INTERVAL = 3000;
+
+/** Number of unanswered polls before a node is considered lost */
+const NODE_TIMEOUT_POLLS = 3;
+
+/** Time to collect ArtTodData replies after an ArtTodRequest (ms) */
+const DEFAULT_TOD_TIMEOUT = 2000;
+
+/** Time to wait for an ArtRdm response (ms) */
+const RDM_RESPONSE_TIMEOUT = 2000;
+
+/** ArtTodData command response meaning the node has no table yet */
+const TOD_NOT_AVAILABLE = 0xff;
+
+/** Nodes return to immediate output after this long without ArtSync (ms) */
+const ARTSYNC_TIMEOUT_MS = 4000;
+
+/** Number of recent ArtSync intervals and delays the statistics cover */
+const ARTSYNC_STATS_WINDOW = 100;
+
+/** ArtSync state for one controller (times from performance.now(), ms) */
+interface ArtSyncState {
+  stats: ArtSyncStats;
+  lastSyncAt: number;
+  intervals: number[];
+  delays: number[];
+}
+
+/** RDM request waiting for its response */
+interface PendingRdmRequest {
+  uid: string;
+  parameterId: number;
+  timer: NodeJS.Timeout;
+  resolve: (response: RdmMessage) => void;
+  reject: (error: Error) => void;
+}
+
 /**
  * Calculate the subnet broadcast address from an IP and netmask
  * e.g., IP: 2.0.0.2, Netmask: 255.0.0.0 -> Broadcast: 2.255.255.255
@@ -78,6 +154,28 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
   private readonly discoveredNodes: Map<string, ArtNetNode> = new Map();
   private isRunning = false;
   private isDiscovering = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private pollIntervalMs = DEFAULT_POLL_INTERVAL;
+
+  // RDM over Art-Net
+  private readonly rdmUid = createControllerUid();
+  private rdmTransaction = 0;
+  private readonly pendingRdmRequests: Map<number, PendingRdmRequest> = new Map();
+  private readonly rdmDevices: Map<string, RdmDevice> = new Map();
+  /** UIDs reported per node during a running table-of-devices request */
+  private readonly todCollectors: Map<string, Set<string>> = new Map();
+  /** ArtSync state per controller IP */
+  private readonly artSyncStates: Map<string, ArtSyncState> = new Map();
+  /** Time of the last ArtDmx per controller IP (performance.now(), ms) */
+  private readonly lastDmxTimes: Map<string, number> = new Map();
+  /** Sequence numbers per controller and universe */
+  private readonly sequenceTracker = createSequenceTracker("artnet");
+  /** Drop out-of-order and duplicate packets instead of only counting them */
+  private discardLatePackets = false;
+  /** Inter-arrival times per controller and universe */
+  private readonly timingAnalyzer = createTimingAnalyzer();
+  /** Detects stalls and forgets silent controllers */
+  private cleanupTimer: NodeJS.Timeout | null = null;
 
   constructor(config: ArtNetConfig) {
     super();
@@ -140,6 +238,10 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
         this.socket.on("close", () => {
           logDebug("Art-Net socket closed");
           this.isRunning = false;
+          if (this.cleanupTimer) {
+            clearInterval(this.cleanupTimer);
+            this.cleanupTimer = null;
+          }
           this.emit("close");
         });
 
@@ -176,6 +278,12 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
             }
 
             this.isRunning = true;
+
+            // Start cleanup timer for ArtSync, timing and sequence state
+            this.cleanupTimer = setInterval(() => {
+              this.cleanupStaleState();
+            }, 1000);
+
             const address = this.socket.address();
             logInfo("Art-Net receiver started", {
               address: address.address,
@@ -206,6 +314,22 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
     }
 
     logInfo("Stopping Art-Net receiver");
+    this.stopPolling();
+
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+
+    for (const [transaction, pending] of this.pendingRdmRequests) {
+      clearTimeout(pending.timer);
+      pending.reject(RdmError.timeout(pending.uid, describeParameter(pending.parameterId)));
+      this.pendingRdmRequests.delete(transaction);
+    }
+    this.artSyncStates.clear();
+    this.lastDmxTimes.clear();
+    this.sequenceTracker.clear();
+    this.timingAnalyzer.clear();
 
     return new Promise((resolve) => {
       if (!this.socket) {
@@ -223,6 +347,29 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
     });
   }
 
+  /**
+   * Enable or disable discarding of late (out-of-order and duplicate) packets
+   * Late packets are always counted; senders using sequence 0 are never checked.
+   */
+  setDiscardLatePackets(enabled: boolean): void {
+    this.discardLatePackets = enabled;
+    logInfo(`Art-Net late packet discarding ${enabled ? "enabled" : "disabled"}`);
+  }
+
+  /**
+   * Get sequence statistics for every controller on a universe
+   */
+  getSequenceStats(universe: number): SequenceStats[] {
+    return this.sequenceTracker.getStats(universe);
+  }
+
+  /**
+   * Get inter-packet timing statistics for every controller and universe
+   */
+  getTimingStats(): TimingStats[] {
+    return this.timingAnalyzer.getStats();
+  }
+
   /**
    * Get list of discovered universes
    */
@@ -324,98 +471,425 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
   }
 
   /**
-   * Parse ArtPollReply packet
+   * Start polling for nodes in the background while monitoring
+   * Nodes that miss NODE_TIMEOUT_POLLS consecutive polls are marked offline.
+   * @param interval Poll interval in milliseconds (default: 3000ms)
    */
-  private parseArtPollReply(msg: Buffer, rinfo: dgram.RemoteInfo): void {
-    if (msg.length < ARTNET_POLL_REPLY_MIN_LENGTH) {
-      logDebug("ArtPollReply packet too short", { length: msg.length });
-      return;
+  startPolling(interval: number = DEFAULT_POLL_INTERVAL): void {
+    if (!this.isRunning) {
+      throw new Error("Art-Net handler must be started before polling");
     }
 
-    // Get short name early for logging
-    const shortName = msg.toString("utf8", 26, 44).split("\0")[0]?.trim() || "";
+    this.stopPolling();
+    this.pollIntervalMs = interval;
+    logInfo("Starting Art-Net node polling", { interval });
 
-    try {
-      // Parse ESTA manufacturer code (offset 24-25, little-endian with hi byte at offset+1)
-      const estaOffset = 24;
-      const estaCode = (msg.readUInt8(estaOffset + 1) << 8) | msg.readUInt8(estaOffset);
-      const estaHex = `${estaCode.toString(16).padStart(4, "0").toUpperCase()}h`;
-
-      // Find manufacturer name
-      const manufacturerObj = ESTA_MANUFACTURER_CODES.find((code) => Object.keys(code)[0] === estaHex);
-      const manufacturer = manufacturerObj ? Object.values(manufacturerObj)[0] : `Unknown (0x${estaCode.toString(16).padStart(4, "0")})`;
-
-      // Parse other fields
-      const longName = msg.toString("utf8", 44, 108).split("\0")[0]?.trim() || "";
-      const firmwareVersion = `V${msg[16]}.${msg[17]}`;
-      const numPorts = msg[173] || 0;
-
-      // Parse MAC address
-      const macBuffer = msg.subarray(201, 207);
-      const macAddress = Array.from(macBuffer)
-        .map((byte) => byte.toString(16).padStart(2, "0"))
-        .join(":")
-        .toUpperCase();
-
-      // Get or create node entry
-      let node = this.discoveredNodes.get(rinfo.address);
-      const isNewNode = !node;
-
-      if (!node) {
-        node = {
-          ip: rinfo.address,
-          shortName,
-          longName,
-          universes: [],
-          macAddress,
-          manufacturer,
-          firmwareVersion,
-          lastSeen: new Date(),
-        };
-        this.discoveredNodes.set(rinfo.address, node);
-        logInfo(`Discovered Art-Net node: ${shortName} (${rinfo.address})`, {
-          manufacturer,
-          firmwareVersion,
-          numPorts,
+    this.sendArtPoll();
+    this.pollTimer = setInterval(() => {
+      this.expireNodes();
+      this.sendArtPoll();
+    }, interval);
+  }
+
+  /**
+   * Stop background node polling
+   */
+  stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      logInfo("Art-Net node polling stopped");
+    }
+  }
+
+  /**
+   * Mark nodes that have stopped replying to ArtPoll as offline
+   */
+  private expireNodes(): void {
+    const now = Date.now();
+    const timeout = this.pollIntervalMs * NODE_TIMEOUT_POLLS;
+
+    for (const node of this.discoveredNodes.values()) {
+      if (node.online && now - node.lastSeen.getTime() > timeout) {
+        node.online = false;
+        node.statusChangedAt = new Date(now);
+        logWarn(`Art-Net node stopped responding: ${node.shortName} (${node.ip})`, {
+          lastSeen: node.lastSeen.toISOString(),
         });
-      } else {
-        // Update existing node
-        node.lastSeen = new Date();
-        node.shortName = shortName;
-        node.longName = longName;
-        node.manufacturer = manufacturer;
-        node.firmwareVersion = firmwareVersion;
-        node.macAddress = macAddress;
+        this.emit("nodeLost", node);
       }
+    }
+  }
+
+  /**
+   * Get RDM devices found behind nodes, optionally for a single node
+   */
+  getRdmDevices(nodeIp?: string): RdmDevice[] {
+    const devices = Array.from(this.rdmDevices.values());
+    return (nodeIp ? devices.filter((d) => d.nodeIp === nodeIp) : devices).sort(
+      (a, b) => a.universe - b.universe || a.uid.localeCompare(b.uid)
+    );
+  }
+
+  /**
+   * Get an RDM device by UID
+   */
+  getRdmDevice(uid: string): RdmDevice | undefined {
+    return this.rdmDevices.get(uid);
+  }
+
+  /**
+   * Request the RDM table of devices of every output port of a node
+   * Devices no longer in the node's table are removed once it has replied.
+   * @param timeout Time to collect ArtTodData replies (default: 2000ms)
+   * @returns Promise that resolves with the node's devices
+   */
+  async discoverRdmDevices(nodeIp: string, timeout: number = DEFAULT_TOD_TIMEOUT): Promise<RdmDevice[]> {
+    if (!this.socket || !this.isRunning) {
+      throw new Error("Art-Net handler must be started before RDM discovery");
+    }
+
+    const node = this.discoveredNodes.get(nodeIp);
+    const universes = node ? node.ports.filter((p) => p.isOutput).map((p) => p.outputUniverse) : [];
+    if (universes.length === 0) {
+      logWarn(`Node ${nodeIp} has no output ports to discover RDM devices on`);
+      return this.getRdmDevices(nodeIp);
+    }
+
+    logInfo(`Requesting RDM table of devices from ${nodeIp}`, { universes });
+
+    const seen = new Set<string>();
+    this.todCollectors.set(nodeIp, seen);
+
+    for (const packet of buildArtTodRequests(universes)) {
+      this.socket.send(packet, ARTNET_PORT, nodeIp, (error) => {
+        if (error) {
+          logError(error, "Failed to send ArtTodRequest");
+        }
+      });
+    }
+
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        if (this.todCollectors.get(nodeIp) === seen) {
+          this.todCollectors.delete(nodeIp);
+        }
+
+        // Only prune when the node actually answered, so a lost reply doesn't empty the list
+        if (seen.size > 0) {
+          for (const device of this.getRdmDevices(nodeIp)) {
+            if (!seen.has(device.uid)) {
+              logInfo(`RDM device ${device.uid} no longer reported by ${nodeIp}`);
+              this.rdmDevices.delete(device.uid);
+            }
+          }
+          this.emit("rdmDevicesChanged", nodeIp);
+        }
+
+        const devices = this.getRdmDevices(nodeIp);
+        logInfo(`RDM discovery on ${nodeIp} complete. Found ${devices.length} device(s)`);
+        resolve(devices);
+      }, timeout);
+    });
+  }
+
+  /**
+   * Read DEVICE_INFO, DEVICE_LABEL, DMX_START_ADDRESS and every SENSOR_VALUE of a device
+   * Parameters the device rejects are skipped; the first other failure is kept in `error`.
+   */
+  async refreshRdmDevice(uid: string): Promise<RdmDevice> {
+    const device = this.rdmDevices.get(uid);
+    if (!device) {
+      throw RdmError.deviceNotFound(uid);
+    }
+
+    device.error = undefined;
+
+    try {
+      const info = await this.sendRdmRequest(device, RdmCommandClass.GET, RdmParameterId.DEVICE_INFO);
+      device.deviceInfo = parseDeviceInfo(info.parameterData);
+
+      const label = await this.getOptionalParameter(device, RdmParameterId.DEVICE_LABEL);
+      if (label) {
+        device.label = parseRdmText(label.parameterData);
+      }
+
+      const address = await this.getOptionalParameter(device, RdmParameterId.DMX_START_ADDRESS);
+      device.dmxStartAddress = address ? parseDmxStartAddress(address.parameterData) : device.deviceInfo.dmxStartAddress;
+
+      device.sensors = [];
+      for (let sensor = 0; sensor < device.deviceInfo.sensorCount; sensor++) {
+        const value = await this.getOptionalParameter(device, RdmParameterId.SENSOR_VALUE, Buffer.from([sensor]));
+        if (value) {
+          device.sensors.push(parseSensorValue(value.parameterData));
+        }
+      }
+
+      device.lastUpdated = new Date();
+      logDebug(`RDM device ${uid} refreshed`, {
+        label: device.label,
+        dmxStartAddress: device.dmxStartAddress,
+        sensors: device.sensors.length,
+      });
+    } catch (error) {
+      device.error = error instanceof Error ? error.message : String(error);
+      logWarn(`Failed to read RDM device ${uid}`, { error: device.error });
+    }
+
+    this.emit("rdmDevicesChanged", device.nodeIp);
+    return device;
+  }
+
+  /**
+   * Send an RDM request to a device through its node and wait for the response
+   * @throws RdmError on timeout, NACK or an unsupported response type
+   */
+  sendRdmRequest(device: RdmDevice, commandClass: number, parameterId: number, parameterData?: Buffer): Promise<RdmMessage> {
+    if (!this.socket || !this.isRunning) {
+      return Promise.reject(new Error("Art-Net handler must be started before sending RDM"));
+    }
+
+    const socket = this.socket;
+    const transactionNumber = this.rdmTransaction;
+    this.rdmTransaction = (this.rdmTransaction + 1) & 0xff;
+
+    const message = buildRdmMessage({
+      destination: device.uid,
+      source: this.rdmUid,
+      transactionNumber,
+      commandClass,
+      parameterId,
+      parameterData,
+    });
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRdmRequests.delete(transactionNumber);
+        reject(RdmError.timeout(device.uid, describeParameter(parameterId)));
+      }, RDM_RESPONSE_TIMEOUT);
+
+      this.pendingRdmRequests.set(transactionNumber, { uid: device.uid, parameterId, timer, resolve, reject });
+
+      logDebug(`Sending RDM ${describeParameter(parameterId)} to ${device.uid}`, {
+        nodeIp: device.nodeIp,
+        universe: device.universe,
+        commandClass: commandClass.toString(16),
+        transactionNumber,
+      });
 
-      // Extract universes from SwOut array (always read all 4 ports)
-      // SwOut values are 0-indexed - keep as-is to match wire format
-      // Note: numPorts may not reflect actual configured universes, so we read all 4 SwOut values
-      // and filter out invalid/unused ones (0xFF typically indicates unused port)
-      for (let i = 0; i < 4; i++) {
-        const swOutValue = msg[190 + i];
-        // Valid Art-Net universe values are 0-255 for the low byte (SubUni)
-        // 0xFF (255) typically indicates an unused/unconfigured port
-        // We also check that the value is defined and not already in the list
-        if (swOutValue !== undefined && swOutValue !== 0xff && !node.universes.includes(swOutValue)) {
-          node.universes.push(swOutValue);
-          logDebug(`Added universe ${swOutValue} to node ${rinfo.address}`);
+      socket.send(buildArtRdm(device.universe, message), ARTNET_PORT, device.nodeIp, (error) => {
+        if (error) {
+          clearTimeout(timer);
+          this.pendingRdmRequests.delete(transactionNumber);
+          logError(error, "Failed to send ArtRdm");
+          reject(error);
         }
+      });
+    });
+  }
+
+  /**
+   * GET a parameter, returning null if the device rejects it
+   */
+  private async getOptionalParameter(device: RdmDevice, parameterId: number, parameterData?: Buffer): Promise<RdmMessage | null> {
+    try {
+      return await this.sendRdmRequest(device, RdmCommandClass.GET, parameterId, parameterData);
+    } catch (error) {
+      if (error instanceof RdmError && error.nackReason !== undefined) {
+        logDebug(`RDM device ${device.uid} does not support ${describeParameter(parameterId)}`, { reason: error.message });
+        return null;
       }
-      node.universes.sort((a, b) => a - b);
-      
-      logDebug(`Node ${shortName} universes parsed`, { 
-        numPorts, 
-        universes: node.universes,
-        swOut: [msg[190], msg[191], msg[192], msg[193]]
+      throw error;
+    }
+  }
+
+  /**
+   * Handle ArtTodData packet - add the reported UIDs to the device inventory
+   */
+  private handleArtTodData(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+    let tod: ArtTodData;
+    try {
+      tod = parseArtTodData(msg);
+    } catch (error) {
+      logDebug("Invalid ArtTodData", { from: rinfo.address, error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    logDebug(`ArtTodData from ${rinfo.address}`, {
+      universe: tod.universe,
+      uidTotal: tod.uidTotal,
+      block: tod.blockCount,
+      uids: tod.uids.length,
+    });
+
+    if (tod.commandResponse === TOD_NOT_AVAILABLE) {
+      logDebug(`Node ${rinfo.address} has no RDM table for universe ${tod.universe} yet`);
+      return;
+    }
+
+    const collector = this.todCollectors.get(rinfo.address);
+    let changed = false;
+
+    for (const uid of tod.uids) {
+      collector?.add(uid);
+      const existing = this.rdmDevices.get(uid);
+      if (!existing || existing.nodeIp !== rinfo.address || existing.universe !== tod.universe) {
+        this.rdmDevices.set(uid, {
+          ...existing,
+          uid,
+          nodeIp: rinfo.address,
+          universe: tod.universe,
+          sensors: existing?.sensors ?? [],
+        });
+        logInfo(`RDM device ${uid} found on ${rinfo.address} universe ${tod.universe}`);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.emit("rdmDevicesChanged", rinfo.address);
+    }
+  }
+
+  /**
+   * Handle ArtRdm packet - resolve the request it answers
+   */
+  private handleArtRdm(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+    let response: RdmMessage;
+    try {
+      response = parseRdmMessage(parseArtRdm(msg).rdmMessage);
+    } catch (error) {
+      logDebug("Invalid ArtRdm", { from: rinfo.address, error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    // Ignore requests from other controllers and responses meant for them
+    if (!isRdmResponse(response.commandClass) || response.destination !== this.rdmUid) {
+      return;
+    }
+
+    const pending = this.pendingRdmRequests.get(response.transactionNumber);
+    if (!pending || pending.uid !== response.source || pending.parameterId !== response.parameterId) {
+      logDebug("Unexpected RDM response", {
+        from: rinfo.address,
+        uid: response.source,
+        transactionNumber: response.transactionNumber,
       });
+      return;
+    }
 
-      // Emit nodeDiscovered event for new nodes
-      if (isNewNode) {
-        this.emit("nodeDiscovered", node);
+    clearTimeout(pending.timer);
+    this.pendingRdmRequests.delete(response.transactionNumber);
+
+    const parameter = describeParameter(response.parameterId);
+    switch (response.portIdOrResponseType) {
+      case RdmResponseType.ACK:
+        pending.resolve(response);
+        break;
+      case RdmResponseType.NACK_REASON: {
+        const reason = response.parameterData.length >= 2 ? response.parameterData.readUInt16BE(0) : 0;
+        pending.reject(RdmError.nack(response.source, parameter, reason, describeNackReason(reason)));
+        break;
       }
+      default:
+        pending.reject(RdmError.unsupportedResponse(response.source, parameter, response.portIdOrResponseType));
+    }
+  }
+
+  /**
+   * Handle ArtPollReply packet
+   * Nodes with more than four ports send one reply per bind index; ports from
+   * every reply are merged into a single node entry keyed by IP address.
+   */
+  private handleArtPollReply(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+    let reply: ArtPollReply;
+    try {
+      reply = parseArtPollReply(msg);
     } catch (error) {
-      logError(error, "Error parsing ArtPollReply");
+      logDebug("Invalid ArtPollReply", { from: rinfo.address, error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    // Find manufacturer name from ESTA code
+    const estaHex = `${reply.estaCode.toString(16).padStart(4, "0").toUpperCase()}h`;
+    const manufacturerObj = ESTA_MANUFACTURER_CODES.find((code) => Object.keys(code)[0] === estaHex);
+    const manufacturer = manufacturerObj ? Object.values(manufacturerObj)[0] : `Unknown (0x${reply.estaCode.toString(16).padStart(4, "0")})`;
+    const firmwareVersion = `V${reply.firmwareVersion >> 8}.${reply.firmwareVersion & 0xff}`;
+    const replyPorts = getArtPollReplyPorts(reply);
+
+    // Get or create node entry
+    let node = this.discoveredNodes.get(rinfo.address);
+    const isNewNode = !node;
+
+    if (!node) {
+      node = {
+        ip: rinfo.address,
+        shortName: reply.shortName,
+        longName: reply.longName,
+        universes: [],
+        macAddress: reply.macAddress,
+        manufacturer,
+        firmwareVersion,
+        lastSeen: new Date(),
+        ports: [],
+        online: true,
+      };
+      this.discoveredNodes.set(rinfo.address, node);
+      logInfo(`Discovered Art-Net node: ${reply.shortName} (${rinfo.address})`, {
+        manufacturer,
+        firmwareVersion,
+        numPorts: reply.numPorts,
+        bindIndex: reply.bindIndex,
+      });
+    } else {
+      node.lastSeen = new Date();
+    }
+
+    // Identity and status come from the root device (bind index 1)
+    if (isNewNode || reply.bindIndex === 1) {
+      node.shortName = reply.shortName;
+      node.longName = reply.longName;
+      node.manufacturer = manufacturer;
+      node.firmwareVersion = firmwareVersion;
+      node.macAddress = reply.macAddress;
+      node.nodeReport = reply.nodeReport;
+      node.status1 = reply.status1;
+      node.status2 = reply.status2;
+      node.oem = reply.oem;
+      node.style = reply.style;
+    }
+
+    // Replace the ports previously reported under this bind index
+    node.ports = node.ports
+      .filter((port) => port.bindIndex !== reply.bindIndex)
+      .concat(replyPorts)
+      .sort((a, b) => a.bindIndex - b.bindIndex || a.port - b.port);
+
+    // Universes are the 15-bit port addresses of every input and output port
+    const universes = new Set<number>();
+    for (const port of node.ports) {
+      if (port.isOutput) universes.add(port.outputUniverse);
+      if (port.isInput) universes.add(port.inputUniverse);
+    }
+    node.universes = Array.from(universes).sort((a, b) => a - b);
+
+    logDebug(`Node ${node.shortName} ports parsed`, {
+      bindIndex: reply.bindIndex,
+      netSwitch: reply.netSwitch,
+      subSwitch: reply.subSwitch,
+      swIn: reply.swIn,
+      swOut: reply.swOut,
+      universes: node.universes,
+    });
+
+    // Emit nodeDiscovered event for new nodes
+    if (isNewNode) {
+      this.emit("nodeDiscovered", node);
+    } else if (!node.online) {
+      node.online = true;
+      node.statusChangedAt = new Date();
+      logInfo(`Art-Net node responding again: ${node.shortName} (${rinfo.address})`);
+      this.emit("nodeRecovered", node);
     }
   }
 
@@ -423,8 +897,8 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
    * Handle incoming UDP message
    */
   private handleMessage(msg: Buffer, rinfo: dgram.RemoteInfo): void {
-    // Validate minimum packet length
-    if (msg.length < ARTNET_MIN_PACKET_LENGTH) {
+    // Validate minimum packet length (ArtSync is the shortest packet we handle)
+    if (msg.length < ARTNET_SYNC_LENGTH) {
       logDebug("Packet too short", { length: msg.length, from: rinfo.address });
       return;
     }
@@ -438,6 +912,16 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
     // Get OpCode (little-endian at offset 8)
     const opCode = msg.readUInt16LE(8);
 
+    if (opCode === ARTNET_OPCODE_SYNC) {
+      this.handleArtSync(rinfo);
+      return;
+    }
+
+    if (msg.length < ARTNET_MIN_PACKET_LENGTH) {
+      logDebug("Packet too short", { length: msg.length, from: rinfo.address });
+      return;
+    }
+
     // Handle different packet types
     switch (opCode) {
       case ARTNET_OPCODE_DMX:
@@ -445,13 +929,93 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
         break;
       case ARTNET_OPCODE_POLL_REPLY:
         // Always process ArtPollReply - nodes may respond late or unsolicited
-        this.parseArtPollReply(msg, rinfo);
+        this.handleArtPollReply(msg, rinfo);
+        break;
+      case ARTNET_OPCODE_TOD_DATA:
+        this.handleArtTodData(msg, rinfo);
+        break;
+      case ARTNET_OPCODE_RDM:
+        this.handleArtRdm(msg, rinfo);
         break;
       default:
         logDebug("Unhandled Art-Net packet", { opCode: opCode.toString(16), from: rinfo.address });
     }
   }
 
+  /**
+   * Handle an ArtSync packet (OpSync 0x5200): record the interval and the delay since the controller's last ArtDmx
+   * Nodes only honour ArtSync from the controller sending them ArtDmx, so state is kept per IP.
+   */
+  private handleArtSync(rinfo: dgram.RemoteInfo): void {
+    const now = performance.now();
+    let sync = this.artSyncStates.get(rinfo.address);
+    if (!sync) {
+      sync = {
+        stats: { source: rinfo.address, packets: 0, meanInterval: 0, maxInterval: 0, meanDelay: 0, maxDelay: 0, lastSync: null, active: false },
+        lastSyncAt: now,
+        intervals: [],
+        delays: [],
+      };
+      this.artSyncStates.set(rinfo.address, sync);
+    }
+
+    if (sync.stats.active) {
+      pushSample(sync.intervals, now - sync.lastSyncAt, ARTSYNC_STATS_WINDOW);
+    } else {
+      logInfo(`ArtSync detected from ${rinfo.address}`);
+    }
+
+    // Only ArtDmx sent since the previous ArtSync belongs to this frame
+    const lastDmx = this.lastDmxTimes.get(rinfo.address);
+    if (lastDmx !== undefined && (sync.stats.packets === 0 || lastDmx > sync.lastSyncAt)) {
+      pushSample(sync.delays, now - lastDmx, ARTSYNC_STATS_WINDOW);
+    }
+
+    sync.stats.packets++;
+    sync.stats.lastSync = new Date();
+    sync.stats.active = true;
+    sync.lastSyncAt = now;
+    sync.stats.meanInterval = meanOf(sync.intervals);
+    sync.stats.maxInterval = sync.intervals.length > 0 ? Math.max(...sync.intervals) : 0;
+    sync.stats.meanDelay = meanOf(sync.delays);
+    sync.stats.maxDelay = sync.delays.length > 0 ? Math.max(...sync.delays) : 0;
+  }
+
+  /**
+   * Report stalled controllers, end ArtSync that has stopped and forget controllers that have gone silent
+   */
+  private cleanupStaleState(): void {
+    const now = performance.now();
+
+    // Nodes fall back to immediate output once ArtSync stops
+    for (const [source, sync] of this.artSyncStates) {
+      if (sync.stats.active && now - sync.lastSyncAt > ARTSYNC_TIMEOUT_MS) {
+        sync.stats.active = false;
+        sync.intervals.length = 0;
+        logWarn(`ArtSync from ${source} stopped; nodes return to immediate output`);
+      }
+    }
+
+    for (const [source, lastDmx] of this.lastDmxTimes) {
+      if (now - lastDmx > TIMING_FORGET_MS) {
+        this.lastDmxTimes.delete(source);
+      }
+    }
+
+    this.timingAnalyzer.checkStalls();
+    this.timingAnalyzer.prune();
+    this.sequenceTracker.prune();
+  }
+
+  /**
+   * Get ArtSync statistics for a controller
+   * @returns null if the controller has never sent ArtSync
+   */
+  getArtSyncStats(source: string): ArtSyncStats | null {
+    const sync = this.artSyncStates.get(source);
+    return sync ? { ...sync.stats } : null;
+  }
+
   /**
    * Validate Art-Net header
    */
@@ -519,6 +1083,18 @@ export class ArtNetHandler extends EventEmitter implements ProtocolHandler {
       return;
     }
 
+    // Sequence numbers run per controller and universe (0 = not sequenced)
+    const sequenceResult = this.sequenceTracker.check(rinfo.address, rinfo.address, universe, sequence ?? 0);
+    if (this.discardLatePackets && isLatePacket(sequenceResult)) {
+      this.sequenceTracker.markDiscarded(rinfo.address, universe);
+      logDebug("Discarded late Art-Net packet", { universe, sequence, result: sequenceResult, source: rinfo.address });
+      return;
+    }
+
+    const arrival = performance.now();
+    this.lastDmxTimes.set(rinfo.address, arrival);
+    this.timingAnalyzer.record(rinfo.address, rinfo.address, universe, arrival);
+
     // Update discovered universes
     const now = new Date();
     const existingInfo = this.discoveredUniverses.get(universe);
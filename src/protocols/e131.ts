@@ -0,0 +1,487 @@
+/**
+ * E1.31 (Streaming ACN) packet codec for DMX Monitor
+ *
+ * Decodes the root, framing and DMP layers of E1.31 packets directly from
+ * the wire so channel values are byte-exact.
+ * Port: 5568
+ * Multicast: 239.255.{universe hi}.{universe lo}
+ */
+
+import { SACN_MULTICAST_BASE } from "../types";
+import { ProtocolError } from "../errors";
+
+/** ACN packet identifier (12 bytes) */
+export const E131_ACN_PACKET_IDENTIFIER = Buffer.from("ASC-E1.17\0\0\0", "ascii");
+
+/** Root layer vectors */
+export const VECTOR_ROOT_E131_DATA = 0x00000004;
+export const VECTOR_ROOT_E131_EXTENDED = 0x00000008;
+
+/** Framing layer vectors */
+export const VECTOR_E131_DATA_PACKET = 0x00000002;
+export const VECTOR_E131_EXTENDED_SYNCHRONIZATION = 0x00000001;
+export const VECTOR_E131_EXTENDED_DISCOVERY = 0x00000002;
+
+/** Universe discovery layer vector */
+export const VECTOR_UNIVERSE_DISCOVERY_UNIVERSE_LIST = 0x00000001;
+
+/** Universe that discovery packets are sent on (multicast 239.255.250.214) */
+export const E131_DISCOVERY_UNIVERSE = 64214;
+
+/** Interval at which sources send universe discovery (ms) */
+export const E131_UNIVERSE_DISCOVERY_INTERVAL = 10000;
+
+/** Length of a synchronization packet */
+const E131_SYNC_LENGTH = 49;
+
+/** Offset of the universe list in a discovery packet */
+const E131_DISCOVERY_LIST_OFFSET = 120;
+
+/** Maximum universes listed per discovery page */
+export const E131_DISCOVERY_UNIVERSES_PER_PAGE = 512;
+
+/** DMP layer vector and address/data type */
+export const VECTOR_DMP_SET_PROPERTY = 0x02;
+const DMP_ADDRESS_DATA_TYPE = 0xa1;
+
+/** Preamble size (root layer) */
+const E131_PREAMBLE_SIZE = 0x0010;
+
+/** Offset of the first property value (the start code) in a data packet */
+export const E131_DATA_OFFSET = 125;
+
+/** Minimum data packet length: headers plus the start code */
+export const E131_DATA_MIN_LENGTH = E131_DATA_OFFSET + 1;
+
+/** Source name field length (UTF-8, null-terminated) */
+export const E131_SOURCE_NAME_LENGTH = 64;
+
+/** CID length (UUID) */
+export const E131_CID_LENGTH = 16;
+
+/** Framing layer option bits */
+export const E131Options = {
+  /** Data is intended for visualisers, not live fixtures */
+  PREVIEW_DATA: 0x80,
+  /** Source is terminating this universe's stream */
+  STREAM_TERMINATED: 0x40,
+  /** Receivers should keep processing synchronized data if sync is lost */
+  FORCE_SYNCHRONIZATION: 0x20,
+} as const;
+
+/** DMX512 start codes carried in E1.31 data packets */
+export const StartCode = {
+  /** Null start code - dimmer levels */
+  DMX: 0x00,
+  /** ETC per-address priority - one priority (0-200) per slot, 0 = not sourced */
+  PER_ADDRESS_PRIORITY: 0xdd,
+} as const;
+
+/** Decoded E1.31 data packet (root vector 0x4) */
+export interface E131DataPacket {
+  type: "data";
+  /** Component identifier of the sender */
+  cid: Buffer;
+  sourceName: string;
+  /** Universe priority (0-200) */
+  priority: number;
+  /** Synchronization universe (0 = unsynchronized) */
+  syncAddress: number;
+  sequence: number;
+  /** Framing options byte (see E131Options) */
+  options: number;
+  universe: number;
+  /** DMX512 start code (first property value) */
+  startCode: number;
+  /** Slot data following the start code (0-512 bytes) */
+  data: Buffer;
+}
+
+/** Decoded E1.31 universe discovery packet (one page of a source's universe list) */
+export interface E131DiscoveryPacket {
+  type: "discovery";
+  /** Component identifier of the sender */
+  cid: Buffer;
+  sourceName: string;
+  /** Page number of this packet (0-based) */
+  page: number;
+  /** Number of the last page in the source's list */
+  lastPage: number;
+  /** Universes on this page, in ascending order */
+  universes: number[];
+}
+
+/** Decoded E1.31 synchronization packet */
+export interface E131SyncPacket {
+  type: "sync";
+  /** Component identifier of the sender */
+  cid: Buffer;
+  sequence: number;
+  /** Universe the sync packet is addressed to */
+  syncAddress: number;
+}
+
+/** Any decoded E1.31 packet */
+export type E131Packet = E131DataPacket | E131DiscoveryPacket | E131SyncPacket;
+
+/** Fields for building an E1.31 data packet */
+export interface E131DataPacketOptions {
+  /** Component identifier (16 bytes) */
+  cid: Buffer;
+  sourceName: string;
+  /** Universe priority (0-200) */
+  priority: number;
+  /** Synchronization universe (default 0 = unsynchronized) */
+  syncAddress?: number;
+  sequence: number;
+  /** Framing options byte (see E131Options) */
+  options?: number;
+  universe: number;
+  /** DMX512 start code (default 0x00) */
+  startCode?: number;
+  /** Slot data (up to 512 bytes) */
+  data: Uint8Array;
+}
+
+/** Fields for building an E1.31 synchronization packet */
+export interface E131SyncPacketOptions {
+  /** Component identifier (16 bytes) */
+  cid: Buffer;
+  sequence: number;
+  /** Universe the sync packet is addressed to */
+  syncAddress: number;
+}
+
+/** Fields for building an E1.31 universe discovery packet */
+export interface E131DiscoveryPacketOptions {
+  /** Component identifier (16 bytes) */
+  cid: Buffer;
+  sourceName: string;
+  /** Page number of this packet (0-based) */
+  page: number;
+  /** Number of the last page */
+  lastPage: number;
+  /** Universes on this page, ascending (up to 512) */
+  universes: number[];
+}
+
+/**
+ * Calculate the multicast group for a universe
+ * e.g., universe 1 -> 239.255.0.1, universe 258 -> 239.255.1.2
+ */
+export function universeToMulticastAddress(universe: number): string {
+  return `${SACN_MULTICAST_BASE}${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
+
+/**
+ * Write the root layer shared by all E1.31 packets
+ */
+function writeRootLayer(packet: Buffer, vector: number, cid: Buffer): void {
+  packet.writeUInt16BE(E131_PREAMBLE_SIZE, 0);
+  packet.writeUInt16BE(0x0000, 2);
+  E131_ACN_PACKET_IDENTIFIER.copy(packet, 4);
+  writeFlagsAndLength(packet, 16);
+  packet.writeUInt32BE(vector, 18);
+  cid.copy(packet, 22, 0, E131_CID_LENGTH);
+}
+
+/**
+ * Write a PDU flags & length field covering everything from offset to the end of the packet
+ */
+function writeFlagsAndLength(packet: Buffer, offset: number): void {
+  packet.writeUInt16BE(0x7000 | ((packet.length - offset) & 0x0fff), offset);
+}
+
+/**
+ * Write a null-terminated UTF-8 string field, truncated to fit
+ */
+function writeStringField(packet: Buffer, offset: number, length: number, value: string): void {
+  const encoded = Buffer.from(value, "utf8").subarray(0, length - 1);
+  encoded.copy(packet, offset);
+}
+
+/**
+ * Read a null-terminated UTF-8 string field
+ */
+function readStringField(msg: Buffer, offset: number, length: number): string {
+  return msg.toString("utf8", offset, offset + length).split("\0")[0] ?? "";
+}
+
+/**
+ * Validate the root layer and return its vector
+ *
+ * Root layer structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 0      | 2    | Preamble size (0x0010)
+ * 2      | 2    | Postamble size (0x0000)
+ * 4      | 12   | ACN packet identifier
+ * 16     | 2    | Flags & length
+ * 18     | 4    | Vector
+ * 22     | 16   | CID
+ */
+function parseRootLayer(msg: Buffer): number {
+  if (msg.length < 38) {
+    throw ProtocolError.packetTooShort("sACN", msg.length, 38);
+  }
+
+  if (msg.readUInt16BE(0) !== E131_PREAMBLE_SIZE || msg.readUInt16BE(2) !== 0) {
+    throw ProtocolError.invalidHeader("sACN");
+  }
+
+  if (!msg.subarray(4, 16).equals(E131_ACN_PACKET_IDENTIFIER)) {
+    throw ProtocolError.invalidHeader("sACN");
+  }
+
+  return msg.readUInt32BE(18);
+}
+
+/**
+ * Parse an E1.31 data packet (root vector VECTOR_ROOT_E131_DATA)
+ *
+ * Framing layer structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 38     | 2    | Flags & length
+ * 40     | 4    | Vector (0x00000002)
+ * 44     | 64   | Source name
+ * 108    | 1    | Priority
+ * 109    | 2    | Synchronization address
+ * 111    | 1    | Sequence number
+ * 112    | 1    | Options
+ * 113    | 2    | Universe
+ *
+ * DMP layer structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 115    | 2    | Flags & length
+ * 117    | 1    | Vector (0x02)
+ * 118    | 1    | Address & data type (0xa1)
+ * 119    | 2    | First property address (0x0000)
+ * 121    | 2    | Address increment (0x0001)
+ * 123    | 2    | Property value count (1 + slots)
+ * 125    | 1    | Start code
+ * 126    | n    | Slot data
+ */
+function parseDataPacket(msg: Buffer): E131DataPacket {
+  if (msg.length < E131_DATA_MIN_LENGTH) {
+    throw ProtocolError.packetTooShort("sACN", msg.length, E131_DATA_MIN_LENGTH);
+  }
+
+  const framingVector = msg.readUInt32BE(40);
+  if (framingVector !== VECTOR_E131_DATA_PACKET) {
+    throw ProtocolError.malformedPacket("sACN", `unexpected framing vector 0x${framingVector.toString(16)}`);
+  }
+
+  if (msg[117] !== VECTOR_DMP_SET_PROPERTY || msg[118] !== DMP_ADDRESS_DATA_TYPE) {
+    throw ProtocolError.malformedPacket("sACN", "invalid DMP layer vector or address type");
+  }
+
+  if (msg.readUInt16BE(119) !== 0x0000 || msg.readUInt16BE(121) !== 0x0001) {
+    throw ProtocolError.malformedPacket("sACN", "invalid DMP property address or increment");
+  }
+
+  const propertyCount = msg.readUInt16BE(123);
+  if (propertyCount < 1 || propertyCount > 513) {
+    throw ProtocolError.malformedPacket("sACN", `invalid property value count ${propertyCount}`);
+  }
+
+  const expectedLength = E131_DATA_OFFSET + propertyCount;
+  if (msg.length < expectedLength) {
+    throw ProtocolError.packetTooShort("sACN", msg.length, expectedLength);
+  }
+
+  return {
+    type: "data",
+    cid: Buffer.from(msg.subarray(22, 22 + E131_CID_LENGTH)),
+    sourceName: readStringField(msg, 44, E131_SOURCE_NAME_LENGTH),
+    priority: msg.readUInt8(108),
+    syncAddress: msg.readUInt16BE(109),
+    sequence: msg.readUInt8(111),
+    options: msg.readUInt8(112),
+    universe: msg.readUInt16BE(113),
+    startCode: msg.readUInt8(E131_DATA_OFFSET),
+    data: msg.subarray(E131_DATA_OFFSET + 1, expectedLength),
+  };
+}
+
+/**
+ * Build an E1.31 data packet (root vector VECTOR_ROOT_E131_DATA)
+ * Layout matches parseDataPacket
+ */
+export function buildE131DataPacket(options: E131DataPacketOptions): Buffer {
+  const slotCount = Math.min(options.data.length, 512);
+  const packet = Buffer.alloc(E131_DATA_OFFSET + 1 + slotCount);
+
+  // Root layer
+  writeRootLayer(packet, VECTOR_ROOT_E131_DATA, options.cid);
+
+  // Framing layer
+  writeFlagsAndLength(packet, 38);
+  packet.writeUInt32BE(VECTOR_E131_DATA_PACKET, 40);
+  writeStringField(packet, 44, E131_SOURCE_NAME_LENGTH, options.sourceName);
+  packet.writeUInt8(options.priority, 108);
+  packet.writeUInt16BE(options.syncAddress ?? 0, 109);
+  packet.writeUInt8(options.sequence & 0xff, 111);
+  packet.writeUInt8(options.options ?? 0, 112);
+  packet.writeUInt16BE(options.universe, 113);
+
+  // DMP layer
+  writeFlagsAndLength(packet, 115);
+  packet.writeUInt8(VECTOR_DMP_SET_PROPERTY, 117);
+  packet.writeUInt8(DMP_ADDRESS_DATA_TYPE, 118);
+  packet.writeUInt16BE(0x0000, 119);
+  packet.writeUInt16BE(0x0001, 121);
+  packet.writeUInt16BE(slotCount + 1, 123);
+  packet.writeUInt8(options.startCode ?? StartCode.DMX, E131_DATA_OFFSET);
+  packet.set(options.data.subarray(0, slotCount), E131_DATA_OFFSET + 1);
+
+  return packet;
+}
+
+/**
+ * Build an E1.31 synchronization packet (root vector VECTOR_ROOT_E131_EXTENDED)
+ * Layout matches parseExtendedPacket
+ */
+export function buildE131SyncPacket(options: E131SyncPacketOptions): Buffer {
+  const packet = Buffer.alloc(E131_SYNC_LENGTH);
+
+  // Root layer
+  writeRootLayer(packet, VECTOR_ROOT_E131_EXTENDED, options.cid);
+
+  // Framing layer
+  writeFlagsAndLength(packet, 38);
+  packet.writeUInt32BE(VECTOR_E131_EXTENDED_SYNCHRONIZATION, 40);
+  packet.writeUInt8(options.sequence & 0xff, 44);
+  packet.writeUInt16BE(options.syncAddress, 45);
+  packet.writeUInt16BE(0x0000, 47);
+
+  return packet;
+}
+
+/**
+ * Build an E1.31 universe discovery packet (root vector VECTOR_ROOT_E131_EXTENDED)
+ * Layout matches parseExtendedPacket
+ */
+export function buildE131DiscoveryPacket(options: E131DiscoveryPacketOptions): Buffer {
+  const universes = options.universes.slice(0, E131_DISCOVERY_UNIVERSES_PER_PAGE);
+  const packet = Buffer.alloc(E131_DISCOVERY_LIST_OFFSET + universes.length * 2);
+
+  // Root layer
+  writeRootLayer(packet, VECTOR_ROOT_E131_EXTENDED, options.cid);
+
+  // Framing layer
+  writeFlagsAndLength(packet, 38);
+  packet.writeUInt32BE(VECTOR_E131_EXTENDED_DISCOVERY, 40);
+  writeStringField(packet, 44, E131_SOURCE_NAME_LENGTH, options.sourceName);
+
+  // Universe discovery layer
+  writeFlagsAndLength(packet, 112);
+  packet.writeUInt32BE(VECTOR_UNIVERSE_DISCOVERY_UNIVERSE_LIST, 114);
+  packet.writeUInt8(options.page, 118);
+  packet.writeUInt8(options.lastPage, 119);
+  universes.forEach((universe, index) => {
+    packet.writeUInt16BE(universe, E131_DISCOVERY_LIST_OFFSET + index * 2);
+  });
+
+  return packet;
+}
+
+/**
+ * Parse an E1.31 packet from a UDP datagram
+ * @returns The decoded packet, or null for valid ACN packets of a type we don't handle
+ * @throws ProtocolError if the packet is malformed
+ */
+export function parseE131Packet(msg: Buffer): E131Packet | null {
+  const rootVector = parseRootLayer(msg);
+
+  switch (rootVector) {
+    case VECTOR_ROOT_E131_DATA:
+      return parseDataPacket(msg);
+    case VECTOR_ROOT_E131_EXTENDED:
+      return parseExtendedPacket(msg);
+    default:
+      throw ProtocolError.malformedPacket("sACN", `unknown root vector 0x${rootVector.toString(16)}`);
+  }
+}
+
+/**
+ * Parse an extended packet (root vector VECTOR_ROOT_E131_EXTENDED)
+ *
+ * Framing layer structure (synchronization):
+ * Offset | Size | Description
+ * -------|------|------------
+ * 38     | 2    | Flags & length
+ * 40     | 4    | Vector (0x00000001)
+ * 44     | 1    | Sequence number
+ * 45     | 2    | Synchronization address
+ * 47     | 2    | Reserved
+ *
+ * Framing layer structure (discovery):
+ * Offset | Size | Description
+ * -------|------|------------
+ * 38     | 2    | Flags & length
+ * 40     | 4    | Vector (0x00000002)
+ * 44     | 64   | Source name
+ * 108    | 4    | Reserved
+ *
+ * Universe discovery layer structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 112    | 2    | Flags & length
+ * 114    | 4    | Vector (0x00000001)
+ * 118    | 1    | Page
+ * 119    | 1    | Last page
+ * 120    | 2*n  | Universe list (up to 512, ascending)
+ */
+function parseExtendedPacket(msg: Buffer): E131DiscoveryPacket | E131SyncPacket {
+  if (msg.length < 44) {
+    throw ProtocolError.packetTooShort("sACN", msg.length, 44);
+  }
+
+  const framingVector = msg.readUInt32BE(40);
+  if (framingVector === VECTOR_E131_EXTENDED_SYNCHRONIZATION) {
+    if (msg.length < E131_SYNC_LENGTH) {
+      throw ProtocolError.packetTooShort("sACN sync", msg.length, E131_SYNC_LENGTH);
+    }
+    return {
+      type: "sync",
+      cid: Buffer.from(msg.subarray(22, 22 + E131_CID_LENGTH)),
+      sequence: msg.readUInt8(44),
+      syncAddress: msg.readUInt16BE(45),
+    };
+  }
+  if (framingVector !== VECTOR_E131_EXTENDED_DISCOVERY) {
+    throw ProtocolError.malformedPacket("sACN", `unexpected extended framing vector 0x${framingVector.toString(16)}`);
+  }
+
+  if (msg.length < E131_DISCOVERY_LIST_OFFSET) {
+    throw ProtocolError.packetTooShort("sACN discovery", msg.length, E131_DISCOVERY_LIST_OFFSET);
+  }
+
+  const discoveryVector = msg.readUInt32BE(114);
+  if (discoveryVector !== VECTOR_UNIVERSE_DISCOVERY_UNIVERSE_LIST) {
+    throw ProtocolError.malformedPacket("sACN", `unexpected universe discovery vector 0x${discoveryVector.toString(16)}`);
+  }
+
+  // The list length comes from the discovery layer's PDU length
+  const layerLength = msg.readUInt16BE(112) & 0x0fff;
+  const listBytes = Math.min(layerLength - 8, msg.length - E131_DISCOVERY_LIST_OFFSET);
+  if (listBytes < 0 || listBytes % 2 !== 0 || listBytes / 2 > E131_DISCOVERY_UNIVERSES_PER_PAGE) {
+    throw ProtocolError.malformedPacket("sACN", `invalid universe discovery list length ${listBytes}`);
+  }
+
+  const universes: number[] = [];
+  for (let offset = E131_DISCOVERY_LIST_OFFSET; offset < E131_DISCOVERY_LIST_OFFSET + listBytes; offset += 2) {
+    universes.push(msg.readUInt16BE(offset));
+  }
+
+  return {
+    type: "discovery",
+    cid: Buffer.from(msg.subarray(22, 22 + E131_CID_LENGTH)),
+    sourceName: readStringField(msg, 44, E131_SOURCE_NAME_LENGTH),
+    page: msg.readUInt8(118),
+    lastPage: msg.readUInt8(119),
+    universes,
+  };
+}
@@ -0,0 +1,325 @@
+/**
+ * RDM (ANSI E1.20) message codec for DMX Monitor
+ *
+ * Builds and decodes RDM messages so they can be tunnelled over Art-Net
+ * (ArtRdm) to fixtures behind a node.
+ * UIDs are written as "MMMM:DDDDDDDD" (manufacturer ID : device ID, hex).
+ */
+
+import { RdmDeviceInfo, RdmSensorValue } from "../types";
+import { ProtocolError } from "../errors";
+
+/** RDM start code (alternate DMX512 start code) */
+export const RDM_START_CODE = 0xcc;
+
+/** RDM sub start code */
+export const RDM_SUB_START_CODE = 0x01;
+
+/** Length of the message header before the parameter data */
+export const RDM_HEADER_LENGTH = 24;
+
+/** Maximum parameter data length */
+export const RDM_MAX_PDL = 231;
+
+/** UID length in bytes */
+export const RDM_UID_LENGTH = 6;
+
+/** Broadcast UID to every device */
+export const RDM_BROADCAST_UID = "FFFF:FFFFFFFF";
+
+/**
+ * Manufacturer ID used for our controller UID
+ * 0x7FF0-0x7FFF is reserved by ESTA for prototyping and experimental use.
+ */
+export const RDM_CONTROLLER_MANUFACTURER_ID = 0x7ff0;
+
+/** Command classes */
+export const RdmCommandClass = {
+  DISCOVERY: 0x10,
+  DISCOVERY_RESPONSE: 0x11,
+  GET: 0x20,
+  GET_RESPONSE: 0x21,
+  SET: 0x30,
+  SET_RESPONSE: 0x31,
+} as const;
+
+/** Response types (Port ID / Response Type field of responses) */
+export const RdmResponseType = {
+  ACK: 0x00,
+  ACK_TIMER: 0x01,
+  NACK_REASON: 0x02,
+  ACK_OVERFLOW: 0x03,
+} as const;
+
+/** Parameter IDs used by the monitor */
+export const RdmParameterId = {
+  SUPPORTED_PARAMETERS: 0x0050,
+  DEVICE_INFO: 0x0060,
+  DEVICE_MODEL_DESCRIPTION: 0x0080,
+  MANUFACTURER_LABEL: 0x0081,
+  DEVICE_LABEL: 0x0082,
+  SOFTWARE_VERSION_LABEL: 0x00c0,
+  DMX_START_ADDRESS: 0x00f0,
+  SENSOR_DEFINITION: 0x0200,
+  SENSOR_VALUE: 0x0201,
+  IDENTIFY_DEVICE: 0x1000,
+} as const;
+
+/** NACK reason codes */
+const NACK_REASONS: Record<number, string> = {
+  0x0000: "unknown PID",
+  0x0001: "format error",
+  0x0002: "hardware fault",
+  0x0003: "proxy reject",
+  0x0004: "write protect",
+  0x0005: "unsupported command class",
+  0x0006: "data out of range",
+  0x0007: "buffer full",
+  0x0008: "packet size unsupported",
+  0x0009: "sub-device out of range",
+  0x000a: "proxy buffer full",
+};
+
+/** Parameter names for logging */
+const PARAMETER_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(RdmParameterId).map(([name, pid]) => [pid, name])
+);
+
+/** RDM message to send */
+export interface RdmRequest {
+  destination: string;
+  source: string;
+  transactionNumber: number;
+  /** Port ID of the controller (1-255) */
+  portId?: number;
+  subDevice?: number;
+  commandClass: number;
+  parameterId: number;
+  parameterData?: Buffer;
+}
+
+/** Decoded RDM message */
+export interface RdmMessage {
+  destination: string;
+  source: string;
+  transactionNumber: number;
+  /** Port ID for requests, response type for responses */
+  portIdOrResponseType: number;
+  messageCount: number;
+  subDevice: number;
+  commandClass: number;
+  parameterId: number;
+  parameterData: Buffer;
+}
+
+/**
+ * Format a 6-byte UID as "MMMM:DDDDDDDD"
+ */
+export function formatUid(buffer: Buffer, offset: number = 0): string {
+  const manufacturer = buffer.readUInt16BE(offset).toString(16).padStart(4, "0");
+  const device = buffer.readUInt32BE(offset + 2).toString(16).padStart(8, "0");
+  return `${manufacturer}:${device}`.toUpperCase();
+}
+
+/**
+ * Write a "MMMM:DDDDDDDD" UID into a buffer
+ */
+export function writeUid(uid: string, buffer: Buffer, offset: number): void {
+  const match = /^([0-9a-f]{4}):([0-9a-f]{8})$/i.exec(uid);
+  if (!match) {
+    throw ProtocolError.malformedPacket("RDM", `invalid UID "${uid}"`);
+  }
+  buffer.writeUInt16BE(parseInt(match[1]!, 16), offset);
+  buffer.writeUInt32BE(parseInt(match[2]!, 16), offset + 2);
+}
+
+/**
+ * Create a controller UID in the prototyping manufacturer range
+ */
+export function createControllerUid(deviceId: number = Math.floor(Math.random() * 0xfffffffe) + 1): string {
+  const buffer = Buffer.alloc(RDM_UID_LENGTH);
+  buffer.writeUInt16BE(RDM_CONTROLLER_MANUFACTURER_ID, 0);
+  buffer.writeUInt32BE(deviceId >>> 0, 2);
+  return formatUid(buffer);
+}
+
+/**
+ * Sum every byte of a message for the checksum
+ */
+function checksum(buffer: Buffer, length: number): number {
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += buffer[i] ?? 0;
+  }
+  return sum & 0xffff;
+}
+
+/**
+ * Build an RDM message, including the start code and checksum
+ *
+ * Message structure:
+ * Offset | Size | Description
+ * -------|------|------------
+ * 0      | 1    | Start code (0xCC)
+ * 1      | 1    | Sub start code (0x01)
+ * 2      | 1    | Message length (24 + PDL, excludes checksum)
+ * 3      | 6    | Destination UID
+ * 9      | 6    | Source UID
+ * 15     | 1    | Transaction number
+ * 16     | 1    | Port ID / Response type
+ * 17     | 1    | Message count
+ * 18     | 2    | Sub-device
+ * 20     | 1    | Command class
+ * 21     | 2    | Parameter ID
+ * 23     | 1    | Parameter data length (PDL)
+ * 24     | PDL  | Parameter data
+ * 24+PDL | 2    | Checksum (sum of all previous bytes)
+ */
+export function buildRdmMessage(request: RdmRequest): Buffer {
+  const data = request.parameterData ?? Buffer.alloc(0);
+  if (data.length > RDM_MAX_PDL) {
+    throw ProtocolError.malformedPacket("RDM", `parameter data too long (${data.length} bytes)`);
+  }
+
+  const length = RDM_HEADER_LENGTH + data.length;
+  const message = Buffer.alloc(length + 2);
+
+  message.writeUInt8(RDM_START_CODE, 0);
+  message.writeUInt8(RDM_SUB_START_CODE, 1);
+  message.writeUInt8(length, 2);
+  writeUid(request.destination, message, 3);
+  writeUid(request.source, message, 9);
+  message.writeUInt8(request.transactionNumber & 0xff, 15);
+  message.writeUInt8(request.portId ?? 1, 16);
+  message.writeUInt8(0, 17);
+  message.writeUInt16BE(request.subDevice ?? 0, 18);
+  message.writeUInt8(request.commandClass, 20);
+  message.writeUInt16BE(request.parameterId, 21);
+  message.writeUInt8(data.length, 23);
+  data.copy(message, RDM_HEADER_LENGTH);
+  message.writeUInt16BE(checksum(message, length), length);
+
+  return message;
+}
+
+/**
+ * Parse an RDM message starting with the start code
+ * @throws ProtocolError if the message is truncated or the checksum is wrong
+ */
+export function parseRdmMessage(msg: Buffer): RdmMessage {
+  if (msg.length < RDM_HEADER_LENGTH + 2) {
+    throw ProtocolError.packetTooShort("RDM", msg.length, RDM_HEADER_LENGTH + 2);
+  }
+
+  if (msg.readUInt8(0) !== RDM_START_CODE || msg.readUInt8(1) !== RDM_SUB_START_CODE) {
+    throw ProtocolError.invalidHeader("RDM");
+  }
+
+  const length = msg.readUInt8(2);
+  if (length < RDM_HEADER_LENGTH) {
+    throw ProtocolError.malformedPacket("RDM", `message length ${length} shorter than header`);
+  }
+  if (msg.length < length + 2) {
+    throw ProtocolError.packetTooShort("RDM", msg.length, length + 2);
+  }
+
+  const expected = checksum(msg, length);
+  const actual = msg.readUInt16BE(length);
+  if (expected !== actual) {
+    throw ProtocolError.malformedPacket("RDM", `checksum 0x${actual.toString(16)} (expected 0x${expected.toString(16)})`);
+  }
+
+  const pdl = msg.readUInt8(23);
+  if (RDM_HEADER_LENGTH + pdl > length) {
+    throw ProtocolError.malformedPacket("RDM", `parameter data length ${pdl} exceeds message length`);
+  }
+
+  return {
+    destination: formatUid(msg, 3),
+    source: formatUid(msg, 9),
+    transactionNumber: msg.readUInt8(15),
+    portIdOrResponseType: msg.readUInt8(16),
+    messageCount: msg.readUInt8(17),
+    subDevice: msg.readUInt16BE(18),
+    commandClass: msg.readUInt8(20),
+    parameterId: msg.readUInt16BE(21),
+    parameterData: Buffer.from(msg.subarray(RDM_HEADER_LENGTH, RDM_HEADER_LENGTH + pdl)),
+  };
+}
+
+/**
+ * Check whether a command class is a response
+ */
+export function isRdmResponse(commandClass: number): boolean {
+  return (commandClass & 0x01) === 0x01;
+}
+
+/**
+ * Parse DEVICE_INFO parameter data (19 bytes)
+ */
+export function parseDeviceInfo(data: Buffer): RdmDeviceInfo {
+  if (data.length < 19) {
+    throw ProtocolError.packetTooShort("RDM DEVICE_INFO", data.length, 19);
+  }
+
+  return {
+    protocolVersion: data.readUInt16BE(0),
+    deviceModelId: data.readUInt16BE(2),
+    productCategory: data.readUInt16BE(4),
+    softwareVersionId: data.readUInt32BE(6),
+    dmxFootprint: data.readUInt16BE(10),
+    currentPersonality: data.readUInt8(12),
+    personalityCount: data.readUInt8(13),
+    dmxStartAddress: data.readUInt16BE(14),
+    subDeviceCount: data.readUInt16BE(16),
+    sensorCount: data.readUInt8(18),
+  };
+}
+
+/**
+ * Parse SENSOR_VALUE parameter data (9 bytes)
+ */
+export function parseSensorValue(data: Buffer): RdmSensorValue {
+  if (data.length < 9) {
+    throw ProtocolError.packetTooShort("RDM SENSOR_VALUE", data.length, 9);
+  }
+
+  return {
+    sensor: data.readUInt8(0),
+    present: data.readInt16BE(1),
+    lowest: data.readInt16BE(3),
+    highest: data.readInt16BE(5),
+    recorded: data.readInt16BE(7),
+  };
+}
+
+/**
+ * Parse a DMX_START_ADDRESS response
+ */
+export function parseDmxStartAddress(data: Buffer): number {
+  if (data.length < 2) {
+    throw ProtocolError.packetTooShort("RDM DMX_START_ADDRESS", data.length, 2);
+  }
+  return data.readUInt16BE(0);
+}
+
+/**
+ * Parse a text parameter such as DEVICE_LABEL (up to 32 ASCII characters)
+ */
+export function parseRdmText(data: Buffer): string {
+  return data.toString("ascii").split("\0")[0]?.trim() ?? "";
+}
+
+/**
+ * Describe a NACK reason code
+ */
+export function describeNackReason(reason: number): string {
+  return NACK_REASONS[reason] ?? `reason 0x${reason.toString(16).padStart(4, "0")}`;
+}
+
+/**
+ * Get a parameter's name for logging, e.g. "DEVICE_INFO"
+ */
+export function describeParameter(parameterId: number): string {
+  return PARAMETER_NAMES[parameterId] ?? `PID 0x${parameterId.toString(16).padStart(4, "0")}`;
+}
@@ -1,12 +1,19 @@
 /**
  * sACN (E1.31) protocol handler for DMX Monitor
+ *
+ * Receives E1.31 on our own UDP socket and decodes packets with the
+ * first-party codec in e131.ts, so channel values are byte-exact.
+ * Port: 5568 (multicast 239.255.x.y or unicast)
  */
 
-import { Receiver } from 'sacn';
-import { EventEmitter } from 'events';
-import { DMXPacket, UniverseInfo, ProtocolHandler, ProtocolEvents, SACNSourceInfo, SACN_PORT, TOTAL_CHANNELS, isValidUniverse } from "../types";
+import dgram from "dgram";
+import { EventEmitter } from "events";
+import { DMXPacket, UniverseInfo, ProtocolHandler, ProtocolEvents, SACNSourceInfo, SACNDiscoveredSource, SyncStats, SequenceStats, TimingStats, SourceEvent, SourceEventType, SourceMerge, ChannelArbitration, NO_CHANNEL_OWNER, SACN_PORT, TOTAL_CHANNELS, isValidUniverse, isValidSACNUniverse, pushSample, meanOf } from "../types";
 import { NetworkError, ProtocolError, wrapError } from "../errors";
 import { logDebug, logError, logInfo, logWarn } from "../logger";
+import { E131DataPacket, E131DiscoveryPacket, E131Packet, E131SyncPacket, E131Options, E131_DISCOVERY_UNIVERSE, E131_UNIVERSE_DISCOVERY_INTERVAL, StartCode, parseE131Packet, universeToMulticastAddress } from "./e131";
+import { createSequenceTracker, isLatePacket } from "../sequence";
+import { createTimingAnalyzer } from "../timing";
 
 /** sACN handler configuration */
 export interface SACNConfig {
@@ -16,38 +23,109 @@ export interface SACNConfig {
   interfaceName?: string;
 }
 
-/** sACN packet from the sacn library */
-interface SACNPacket {
-  universe: number;
-  payload: { [channel: number]: number };
-  sourceName?: string;
-  sourceAddress?: string;
-  priority?: number;
-  sequence?: number;
-  cid?: Buffer;
+/** Latest levels from a source and when each channel last changed */
+interface SourceLevels {
+  levels: Uint8Array;
+  changedAt: Float64Array;
 }
 
-/** Source timeout in milliseconds - sources not seen for this long are removed */
-const SOURCE_TIMEOUT_MS = 5000;
+/** Per-address priorities (start code 0xDD) received from a source */
+interface AddressPriorities {
+  priorities: Uint8Array;
+  receivedAt: number;
+}
+
+/** Source arbitration state for one universe */
+interface UniverseSources {
+  /** Sources keyed by CID (or name@address) */
+  sources: Map<string, SACNSourceInfo>;
+  /** Currently active source key (highest priority) */
+  activeSource: string | null;
+  /** Latest levels per source, for per-channel arbitration and merging */
+  levels: Map<string, SourceLevels>;
+  /** Latest per-address priorities per source */
+  addressPriorities: Map<string, AddressPriorities>;
+}
+
+/** Universe discovery pages received from one source */
+interface DiscoveryState {
+  info: SACNDiscoveredSource;
+  /** Universe list per page number */
+  pages: Map<number, number[]>;
+}
+
+/** Synchronization state for one sync address */
+interface SyncState {
+  stats: SyncStats;
+  /** Time of the last sync packet (ms) */
+  lastSyncAt: number;
+  /** Latest data per universe waiting for the next sync packet */
+  held: Map<number, { packet: DMXPacket; heldAt: number }>;
+  /** Recent sync intervals and hold times (ms) */
+  intervals: number[];
+  holds: number[];
+}
+
+/**
+ * Sync timeout in milliseconds (E1.31 network data loss timeout)
+ * Without a sync packet for this long, held data is released and data is processed unsynchronized.
+ */
+const SYNC_TIMEOUT_MS = 2500;
+
+/** Number of recent sync intervals and hold times the statistics cover */
+const SYNC_STATS_WINDOW = 100;
+
+/** Discovery timeout in milliseconds - sources that miss three announcements are removed */
+const DISCOVERY_TIMEOUT_MS = E131_UNIVERSE_DISCOVERY_INTERVAL * 3;
+
+/** Source timeout in milliseconds (E1.31 network data loss timeout) - sources not seen for this long are removed */
+const SOURCE_TIMEOUT_MS = 2500;
+
+/**
+ * Per-address priority timeout in milliseconds
+ * A source that stops sending 0xDD falls back to its universe priority after this long.
+ */
+const ADDRESS_PRIORITY_TIMEOUT_MS = 2500;
 
 /**
  * sACN (E1.31) protocol handler
  */
 export class SACNHandler extends EventEmitter implements ProtocolHandler {
-  private receiver: Receiver | null = null;
+  private socket: dgram.Socket | null = null;
   private readonly config: SACNConfig;
   private readonly discoveredUniverses: Map<number, UniverseInfo> = new Map();
-  /** Track sources by sourceName for priority arbitration */
-  private readonly sources: Map<string, SACNSourceInfo> = new Map();
-  /** Currently active source (highest priority) */
-  private activeSource: string | null = null;
+  /** Universes we have joined (or will join once started) */
+  private readonly universes: Set<number> = new Set();
+  /** Interface address used for multicast membership */
+  private multicastInterface: string | undefined;
+  /** Track sources per universe for priority arbitration */
+  private readonly universeSources: Map<number, UniverseSources> = new Map();
+  /** Universe discovery state per source CID */
+  private readonly discoveredSources: Map<string, DiscoveryState> = new Map();
+  /** Synchronization state per sync address */
+  private readonly syncStates: Map<number, SyncState> = new Map();
+  /** Sync addresses joined for sync packets (in addition to the data universes) */
+  private readonly syncUniverses: Set<number> = new Set();
   private isRunning = false;
   /** Timer for cleaning up stale sources */
   private sourceCleanupTimer: NodeJS.Timeout | null = null;
+  /** Emit HTP/LTP merges of competing sources (sourcesMerged event) */
+  private mergeEnabled = false;
+  /** Sequence numbers per source and universe */
+  private readonly sequenceTracker = createSequenceTracker("sacn");
+  /** Drop out-of-order and duplicate packets instead of only counting them */
+  private discardLatePackets = false;
+  /** Inter-arrival times per source and universe */
+  private readonly timingAnalyzer = createTimingAnalyzer();
+  /** Let preview data sources compete with live sources (excluded by default) */
+  private includePreview = false;
 
   constructor(config: SACNConfig) {
     super();
     this.config = config;
+    for (const universe of config.universes ?? []) {
+      this.universes.add(universe);
+    }
   }
 
   /**
@@ -64,112 +142,259 @@ export class SACNHandler extends EventEmitter implements ProtocolHandler {
       useMulticast: this.config.useMulticast,
     });
 
-    try {
-      // For multicast, we need a specific interface. If 0.0.0.0 is specified,
-      // find the first non-internal IPv4 interface
-      let ifaceAddress: string | undefined;
-      if (this.config.bindAddress !== "0.0.0.0") {
-        ifaceAddress = this.config.bindAddress;
-      } else if (this.config.useMulticast) {
-        // Find first non-internal IPv4 interface for multicast
-        const os = await import("os");
-        const interfaces = os.networkInterfaces();
-        for (const [, addrs] of Object.entries(interfaces)) {
-          if (!addrs) continue;
-          for (const addr of addrs) {
-            if (addr.family === "IPv4" && !addr.internal) {
-              ifaceAddress = addr.address;
-              logInfo(`Using interface ${ifaceAddress} for sACN multicast`);
-              break;
-            }
+    // For multicast, we need a specific interface. If 0.0.0.0 is specified,
+    // find the first non-internal IPv4 interface
+    if (this.config.bindAddress !== "0.0.0.0") {
+      this.multicastInterface = this.config.bindAddress;
+    } else if (this.config.useMulticast) {
+      // Find first non-internal IPv4 interface for multicast
+      const os = await import("os");
+      const interfaces = os.networkInterfaces();
+      for (const [, addrs] of Object.entries(interfaces)) {
+        if (!addrs) continue;
+        for (const addr of addrs) {
+          if (addr.family === "IPv4" && !addr.internal) {
+            this.multicastInterface = addr.address;
+            logInfo(`Using interface ${this.multicastInterface} for sACN multicast`);
+            break;
           }
-          if (ifaceAddress) break;
         }
+        if (this.multicastInterface) break;
       }
+    }
 
-      // Create receiver with empty universes initially to avoid immediate multicast join
-      // Universes will be added later via addUniverse() after user selects one
-      const receiverOptions: ConstructorParameters<typeof Receiver>[0] = {
-        universes: this.config.universes ?? [], // Empty - will add after user prompt
-        iface: ifaceAddress,
-        reuseAddr: true,
-      };
+    return new Promise((resolve, reject) => {
+      try {
+        this.socket = dgram.createSocket({
+          type: "udp4",
+          reuseAddr: true,
+        });
+
+        // Handle errors
+        this.socket.on("error", (error: Error) => {
+          logError(error, "sACN socket error");
+          const categorizedError = this.categorizeError(error);
+
+          if (!this.isRunning) {
+            // Error during startup
+            reject(categorizedError);
+          } else {
+            this.emit("error", categorizedError);
+          }
+        });
+
+        // Handle incoming messages
+        this.socket.on("message", (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+          try {
+            this.handleMessage(msg, rinfo);
+          } catch (error) {
+            logError(error, "Error handling sACN packet");
+            this.emit("error", wrapError(error, "sACN packet handling"));
+          }
+        });
+
+        // Handle socket close
+        this.socket.on("close", () => {
+          logDebug("sACN socket closed");
+          this.isRunning = false;
+          this.emit("close");
+        });
+
+        // Bind to all addresses - on Linux, a socket bound to a unicast address
+        // does not receive multicast traffic. Interface selection is done via
+        // the multicast membership instead.
+        this.socket.bind({ port: SACN_PORT, exclusive: false }, () => {
+          if (!this.socket) return;
+
+          this.isRunning = true;
+
+          // Join any universes configured before start, plus the discovery universe
+          for (const universe of this.universes) {
+            this.joinUniverse(universe);
+          }
+          for (const universe of this.syncUniverses) {
+            this.joinUniverse(universe);
+          }
+          this.joinUniverse(E131_DISCOVERY_UNIVERSE);
+
+          // Start source cleanup timer to remove stale sources
+          this.sourceCleanupTimer = setInterval(() => {
+            this.cleanupStaleSources();
+          }, 1000);
+
+          const address = this.socket.address();
+          logInfo("sACN receiver started successfully", {
+            address: address.address,
+            port: address.port,
+            multicastInterface: this.multicastInterface,
+          });
+          resolve();
+        });
+      } catch (error) {
+        const wrappedError = this.categorizeError(error);
+        logError(wrappedError, "Failed to start sACN receiver");
+        reject(wrappedError);
+      }
+    });
+  }
 
-      this.receiver = new Receiver(receiverOptions);
+  /**
+   * Stop the sACN receiver
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning || !this.socket) {
+      return;
+    }
 
-      // Handle incoming packets
-      this.receiver.on("packet", (packet: SACNPacket) => {
-        try {
-          this.handlePacket(packet);
-        } catch (error) {
-          logError(error, "Error handling sACN packet");
-          this.emit("error", wrapError(error, "sACN packet handling"));
-        }
-      });
+    logInfo("Stopping sACN receiver");
 
-      // Handle errors - but don't crash on multicast join errors during startup
-      this.receiver.on("error", (error: Error) => {
-        const nodeError = error as NodeJS.ErrnoException;
-        // EINVAL during startup is usually a multicast join issue - log but don't crash
-        if (nodeError.message?.includes("addMembership") || nodeError.message?.includes("EINVAL")) {
-          logWarn("sACN multicast join warning (will retry when universe is added)", { error: error.message });
-          return;
-        }
-        logError(error, "sACN receiver error");
-        this.emit("error", this.categorizeError(error));
+    // Stop source cleanup timer
+    if (this.sourceCleanupTimer) {
+      clearInterval(this.sourceCleanupTimer);
+      this.sourceCleanupTimer = null;
+    }
+
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve();
+        return;
+      }
+
+      this.socket.removeAllListeners();
+      this.socket.close(() => {
+        this.socket = null;
+        this.isRunning = false;
+        this.universeSources.clear();
+        this.discoveredSources.clear();
+        this.syncStates.clear();
+        this.sequenceTracker.clear();
+        this.timingAnalyzer.clear();
+        this.emit("close");
+        logInfo("sACN receiver stopped");
+        resolve();
       });
+    });
+  }
 
-      this.isRunning = true;
+  /**
+   * Get list of discovered universes
+   */
+  getDiscoveredUniverses(): UniverseInfo[] {
+    return Array.from(this.discoveredUniverses.values());
+  }
 
-      // Start source cleanup timer to remove stale sources
-      this.sourceCleanupTimer = setInterval(() => {
-        this.cleanupStaleSources();
-      }, 1000);
+  /**
+   * Get the sources announcing universes through E1.31 universe discovery, by name
+   */
+  getDiscoveredSources(): SACNDiscoveredSource[] {
+    return Array.from(this.discoveredSources.values(), (state) => state.info).sort((a, b) => a.sourceName.localeCompare(b.sourceName));
+  }
 
-      logInfo("sACN receiver started successfully");
-    } catch (error) {
-      const wrappedError = this.categorizeError(error);
-      logError(wrappedError, "Failed to start sACN receiver");
-      throw wrappedError;
+  /**
+   * Listen for universe discovery announcements
+   * Sources announce every 10 seconds, so a short wait may not catch every source.
+   * @returns The sources heard so far
+   */
+  async waitForDiscovery(timeout: number): Promise<SACNDiscoveredSource[]> {
+    if (!this.isRunning) {
+      throw new Error("sACN handler must be started before discovery");
     }
+
+    logInfo("Listening for sACN universe discovery", { timeout });
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        const sources = this.getDiscoveredSources();
+        logInfo(`sACN discovery complete. Found ${sources.length} source(s)`);
+        resolve(sources);
+      }, timeout);
+    });
   }
 
   /**
-   * Stop the sACN receiver
+   * Store one page of a source's universe list
    */
-  async stop(): Promise<void> {
-    if (!this.isRunning || !this.receiver) {
-      return;
+  private handleDiscovery(packet: E131DiscoveryPacket, sourceAddress: string): void {
+    const cid = packet.cid.toString("hex");
+    let state = this.discoveredSources.get(cid);
+    const isNew = !state;
+    if (!state) {
+      state = {
+        info: { cid, sourceName: packet.sourceName, address: sourceAddress, universes: [], lastSeen: new Date() },
+        pages: new Map(),
+      };
+      this.discoveredSources.set(cid, state);
     }
 
-    logInfo("Stopping sACN receiver");
-
-    try {
-      // Stop source cleanup timer
-      if (this.sourceCleanupTimer) {
-        clearInterval(this.sourceCleanupTimer);
-        this.sourceCleanupTimer = null;
+    // Pages past the last page belong to an older, longer list
+    for (const page of state.pages.keys()) {
+      if (page > packet.lastPage) {
+        state.pages.delete(page);
       }
+    }
+    state.pages.set(packet.page, packet.universes);
 
-      this.receiver.removeAllListeners();
-      this.receiver.close();
-      this.receiver = null;
-      this.isRunning = false;
-      this.sources.clear();
-      this.activeSource = null;
-      this.emit("close");
-      logInfo("sACN receiver stopped");
-    } catch (error) {
-      logError(error, "Error stopping sACN receiver");
-      throw wrapError(error, "sACN stop");
+    const universes = Array.from(new Set(Array.from(state.pages.values()).flat())).sort((a, b) => a - b);
+    const changed = isNew || universes.join(",") !== state.info.universes.join(",") || packet.sourceName !== state.info.sourceName;
+
+    state.info.sourceName = packet.sourceName;
+    state.info.address = sourceAddress;
+    state.info.universes = universes;
+    state.info.lastSeen = new Date();
+
+    if (changed) {
+      logInfo(`sACN discovery: ${packet.sourceName || cid} (${sourceAddress}) lists ${universes.length} universe(s)`, { page: packet.page, lastPage: packet.lastPage });
+      this.emit("discoveredSourcesChanged", this.getDiscoveredSources());
     }
   }
 
   /**
-   * Get list of discovered universes
+   * Enable or disable merging of competing sources
+   * While enabled, sourcesMerged is emitted on every packet from a universe with more than one source.
    */
-  getDiscoveredUniverses(): UniverseInfo[] {
-    return Array.from(this.discoveredUniverses.values());
+  setMergeSources(enabled: boolean): void {
+    this.mergeEnabled = enabled;
+    logInfo(`sACN source merging ${enabled ? "enabled" : "disabled"}`);
+  }
+
+  /**
+   * Enable or disable discarding of late (out-of-order and duplicate) packets
+   * Late packets are always counted; when enabled they are also dropped, as E1.31 receivers do.
+   */
+  setDiscardLatePackets(enabled: boolean): void {
+    this.discardLatePackets = enabled;
+    logInfo(`sACN late packet discarding ${enabled ? "enabled" : "disabled"}`);
+  }
+
+  /**
+   * Get sequence statistics for every source on a universe
+   */
+  getSequenceStats(universe: number): SequenceStats[] {
+    return this.sequenceTracker.getStats(universe);
+  }
+
+  /**
+   * Include or exclude preview data sources from arbitration and merging
+   * Preview sources are always tracked and listed; while excluded their data never reaches the grid.
+   */
+  setIncludePreview(enabled: boolean): void {
+    this.includePreview = enabled;
+    logInfo(`sACN preview data ${enabled ? "included" : "excluded"}`);
+
+    for (const [universe, state] of this.universeSources) {
+      const previousActive = state.activeSource;
+      this.recalculateActiveSource(state);
+      if (previousActive !== state.activeSource) {
+        this.emitTakeOver(state);
+      }
+      this.emitSourcesChanged(universe);
+    }
+  }
+
+  /**
+   * Get inter-packet timing statistics for every source and universe
+   */
+  getTimingStats(): TimingStats[] {
+    return this.timingAnalyzer.getStats();
   }
 
   /**
@@ -181,20 +406,71 @@ export class SACNHandler extends EventEmitter implements ProtocolHandler {
       return;
     }
 
-    if (this.receiver) {
-      try {
-        this.receiver.addUniverse(universe);
-        logDebug(`Added universe ${universe} to sACN receiver`);
-      } catch (error) {
-        logWarn(`Failed to add universe ${universe}: ${error}`);
-      }
+    if (this.universes.has(universe)) {
+      return;
+    }
+
+    this.universes.add(universe);
+    if (this.isRunning) {
+      this.joinUniverse(universe);
+    }
+  }
+
+  /**
+   * Join the multicast group for a universe
+   * Join failures are logged but not fatal - unicast traffic is still received
+   */
+  private joinUniverse(universe: number): void {
+    if (!this.socket || !this.config.useMulticast) {
+      return;
+    }
+
+    const group = universeToMulticastAddress(universe);
+    try {
+      this.socket.addMembership(group, this.multicastInterface);
+      logDebug(`Added universe ${universe} to sACN receiver`, { group, iface: this.multicastInterface });
+    } catch (error) {
+      logWarn(`Failed to join multicast group ${group} for universe ${universe}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Handle incoming UDP message
+   */
+  private handleMessage(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+    // Stray or malformed datagrams on a shared port are not receiver errors
+    let packet: E131Packet | null;
+    try {
+      packet = parseE131Packet(msg);
+    } catch (error) {
+      logDebug("Invalid sACN packet", { from: rinfo.address, length: msg.length, error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (!packet) {
+      logDebug("Unhandled sACN packet", { from: rinfo.address, length: msg.length });
+      return;
     }
+
+    if (packet.type === "discovery") {
+      this.handleDiscovery(packet, rinfo.address);
+      return;
+    }
+
+    if (packet.type === "sync") {
+      this.handleSync(packet);
+      return;
+    }
+
+    this.handlePacket(packet, rinfo.address);
   }
 
   /**
-   * Handle incoming sACN packet
+   * Handle incoming sACN data packet
    */
-  private handlePacket(packet: SACNPacket): void {
+  private handlePacket(packet: E131DataPacket, sourceAddress: string): void {
     const universe = packet.universe;
 
     // Validate universe
@@ -203,6 +479,40 @@ export class SACNHandler extends EventEmitter implements ProtocolHandler {
       return;
     }
 
+    // Sequence numbers run per source and universe across all start codes
+    const sequenceKey = this.getSourceKey(packet, sourceAddress);
+    const sequenceResult = this.sequenceTracker.check(sequenceKey, packet.sourceName || "Unknown", universe, packet.sequence);
+    if (this.discardLatePackets && isLatePacket(sequenceResult)) {
+      this.sequenceTracker.markDiscarded(sequenceKey, universe);
+      logDebug("Discarded late sACN packet", { universe, sequence: packet.sequence, result: sequenceResult, source: packet.sourceName });
+      return;
+    }
+
+    // A terminating source is released at once; the packet's data is ignored (E1.31 section 6.2.6)
+    if (packet.options & E131Options.STREAM_TERMINATED) {
+      this.terminateSource(universe, sequenceKey);
+      return;
+    }
+
+    // Per-address priorities are stored and applied to the source's next levels
+    if (packet.startCode === StartCode.PER_ADDRESS_PRIORITY) {
+      this.handleAddressPriorities(packet, sourceAddress);
+      return;
+    }
+
+    // Only null start code packets carry dimmer levels
+    if (packet.startCode !== StartCode.DMX) {
+      logDebug("Ignoring sACN packet with alternate start code", {
+        universe,
+        startCode: packet.startCode.toString(16),
+        source: packet.sourceName,
+      });
+      return;
+    }
+
+    // Only level packets count towards the refresh rate
+    this.timingAnalyzer.record(sequenceKey, packet.sourceName || "Unknown", universe);
+
     // Update discovered universes
     const existingInfo = this.discoveredUniverses.get(universe);
     const now = new Date();
@@ -228,120 +538,484 @@ export class SACNHandler extends EventEmitter implements ProtocolHandler {
     }
 
     // Track source for priority arbitration
-    // Use CID (if available) or sourceAddress to create unique source key
+    // Use CID (or sourceAddress as a fallback) to create unique source key
     // This handles multiple senders with the same sourceName
-    const sourceName = packet.sourceName ?? "Unknown";
-    const sourceKey = this.getSourceKey(packet);
-    const priority = packet.priority ?? 100;
+    const sourceName = packet.sourceName || "Unknown";
+    const sourceKey = this.getSourceKey(packet, sourceAddress);
+    const priority = packet.priority;
+    const cid = packet.cid.toString("hex");
 
     // Debug: log source identification info (log every 100th packet to reduce spam)
     if (existingInfo && existingInfo.packetCount % 100 === 1) {
-      logInfo(`sACN source info - name: "${sourceName}", key: ${sourceKey.substring(0, 16)}..., pri: ${priority}, cid: ${packet.cid?.toString("hex")?.substring(0, 8) ?? "none"}, addr: ${packet.sourceAddress ?? "none"}, sources tracked: ${this.sources.size}`);
+      logInfo(`sACN source info - name: "${sourceName}", key: ${sourceKey.substring(0, 16)}..., pri: ${priority}, cid: ${cid.substring(0, 8)}, addr: ${sourceAddress}, sources tracked: ${this.getUniverseSources(universe).sources.size}`);
     }
 
-    const shouldEmit = this.updateSourceTracking(sourceKey, sourceName, packet.sourceAddress, priority, now);
+    const preview = (packet.options & E131Options.PREVIEW_DATA) !== 0;
+    const shouldEmit = this.updateSourceTracking(universe, sourceKey, sourceName, sourceAddress, priority, preview, now);
+
+    // Copy slot data - channels not present in a short packet stay at 0
+    const channels = new Uint8Array(TOTAL_CHANNELS);
+    channels.set(packet.data.subarray(0, TOTAL_CHANNELS));
+
+    // With per-address priority in play every source's packet updates the merged output
+    const state = this.getUniverseSources(universe);
+    this.storeLevels(state, sourceKey, channels, now.getTime());
+    if (this.mergeEnabled && this.countArbitrated(state) > 1) {
+      this.emit("sourcesMerged", this.buildMerge(state), universe);
+    }
+
+    if (this.hasAddressPriorities(state, now.getTime())) {
+      const arbitration = this.arbitrateChannels(state, now.getTime());
+      this.emitPacket({
+        universe,
+        channels: arbitration.channels,
+        source: arbitration.source,
+        priority: arbitration.priority,
+        sequence: packet.sequence,
+        timestamp: now,
+        cid,
+        options: packet.options,
+        syncAddress: packet.syncAddress,
+        startCode: packet.startCode,
+        arbitration: arbitration.result,
+      });
+      return;
+    }
 
     // Only emit packet if this is from the highest priority source
     if (!shouldEmit) {
       // Log ignored packets periodically
       if (existingInfo && existingInfo.packetCount % 100 === 1) {
-        logInfo(`IGNORING packet from lower priority source: ${sourceName} (pri:${priority}), active source: ${this.activeSource?.substring(0, 16)}...`);
+        logInfo(`IGNORING packet from lower priority source: ${sourceName} (pri:${priority}), active source: ${this.getUniverseSources(universe).activeSource?.substring(0, 16)}...`);
       }
       return;
     }
 
-    // Extract channel data
-    const channels = new Uint8Array(TOTAL_CHANNELS);
-    const payload = packet.payload;
-
-    // Copy channel data from payload object (sacn library uses object with channel keys)
-    // The sacn library returns values as percentages (0-100), convert to DMX (0-255)
-    for (let i = 0; i < TOTAL_CHANNELS; i++) {
-      const value = payload[i + 1]; // sACN uses 1-based channel numbers
-      if (value !== undefined) {
-        // Convert percentage (0-100) to DMX value (0-255)
-        channels[i] = Math.round((value / 100) * 255);
-      }
-    }
-
     // Create DMX packet
     const dmxPacket: DMXPacket = {
       universe,
       channels,
-      source: packet.sourceName,
-      priority: packet.priority,
+      source: sourceName,
+      priority,
       sequence: packet.sequence,
       timestamp: now,
+      cid,
+      options: packet.options,
+      syncAddress: packet.syncAddress,
+      startCode: packet.startCode,
     };
 
-    this.emit("packet", dmxPacket);
+    this.emitPacket(dmxPacket);
+  }
+
+  /**
+   * Emit a packet, or hold it for its sync packet while its sync address is active
+   */
+  private emitPacket(packet: DMXPacket): void {
+    const syncAddress = packet.syncAddress ?? 0;
+    if (syncAddress !== 0) {
+      this.joinSyncUniverse(syncAddress);
+      const sync = this.syncStates.get(syncAddress);
+      if (sync?.stats.active) {
+        // Only the latest frame per universe is applied when the sync packet arrives
+        sync.held.set(packet.universe, { packet, heldAt: Date.now() });
+        return;
+      }
+    }
+
+    this.emit("packet", packet);
+  }
+
+  /**
+   * Handle a synchronization packet: release the data held for its address
+   */
+  private handleSync(packet: E131SyncPacket): void {
+    const now = Date.now();
+    let sync = this.syncStates.get(packet.syncAddress);
+    if (!sync) {
+      sync = {
+        stats: { syncAddress: packet.syncAddress, packets: 0, meanInterval: 0, maxInterval: 0, meanHold: 0, lastSync: null, active: false },
+        lastSyncAt: now,
+        held: new Map(),
+        intervals: [],
+        holds: [],
+      };
+      this.syncStates.set(packet.syncAddress, sync);
+    }
+
+    if (sync.stats.lastSync) {
+      pushSample(sync.intervals, now - sync.lastSyncAt, SYNC_STATS_WINDOW);
+    }
+    if (!sync.stats.active) {
+      logInfo(`sACN synchronization active on universe ${packet.syncAddress}`);
+    }
+
+    sync.stats.packets++;
+    sync.stats.lastSync = new Date(now);
+    sync.stats.active = true;
+    sync.lastSyncAt = now;
+
+    for (const { packet: held, heldAt } of sync.held.values()) {
+      pushSample(sync.holds, now - heldAt, SYNC_STATS_WINDOW);
+      this.emit("packet", held);
+    }
+    sync.held.clear();
+
+    sync.stats.meanInterval = meanOf(sync.intervals);
+    sync.stats.maxInterval = sync.intervals.length > 0 ? Math.max(...sync.intervals) : 0;
+    sync.stats.meanHold = meanOf(sync.holds);
+  }
+
+  /**
+   * Join a sync address's multicast group so its sync packets are received
+   */
+  private joinSyncUniverse(syncAddress: number): void {
+    if (this.universes.has(syncAddress) || this.syncUniverses.has(syncAddress) || !isValidSACNUniverse(syncAddress)) {
+      return;
+    }
+
+    this.syncUniverses.add(syncAddress);
+    this.joinUniverse(syncAddress);
+    logDebug(`Listening for sACN sync packets on universe ${syncAddress}`);
+  }
+
+  /**
+   * Get synchronization statistics for a sync address
+   * @returns null until a sync packet has been received for the address
+   */
+  getSyncStats(syncAddress: number): SyncStats | null {
+    const sync = this.syncStates.get(syncAddress);
+    return sync ? { ...sync.stats } : null;
+  }
+
+  /**
+   * Store per-address priorities (start code 0xDD) from a source
+   */
+  private handleAddressPriorities(packet: E131DataPacket, sourceAddress: string): void {
+    const state = this.getUniverseSources(packet.universe);
+    const sourceKey = this.getSourceKey(packet, sourceAddress);
+
+    // Slots missing from a short packet are not sourced (priority 0)
+    const priorities = new Uint8Array(TOTAL_CHANNELS);
+    priorities.set(packet.data.subarray(0, TOTAL_CHANNELS));
+
+    const wasSending = state.addressPriorities.has(sourceKey);
+    state.addressPriorities.set(sourceKey, { priorities, receivedAt: Date.now() });
+
+    const info = state.sources.get(sourceKey);
+    if (!wasSending) {
+      logInfo(`sACN source sending per-address priority on universe ${packet.universe}: ${packet.sourceName || sourceKey}`);
+      if (info) {
+        info.perAddressPriority = true;
+        this.emitSourcesChanged(packet.universe);
+      }
+    }
+  }
+
+  /**
+   * Check whether any source on a universe has sent per-address priority recently
+   */
+  private hasAddressPriorities(state: UniverseSources, now: number): boolean {
+    for (const [key, entry] of state.addressPriorities) {
+      const info = state.sources.get(key);
+      if (info && !this.isArbitrated(info)) continue;
+      if (now - entry.receivedAt <= ADDRESS_PRIORITY_TIMEOUT_MS) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Pick the winning source for every channel
+   * A source's per-address priority is used while fresh, otherwise its universe priority.
+   * Per-address priority 0 means the source does not drive that channel.
+   * Sources tied on priority are merged highest-takes-precedence.
+   */
+  private arbitrateChannels(state: UniverseSources, now: number): { channels: Uint8Array; source: string; priority: number; result: ChannelArbitration } {
+    const channels = new Uint8Array(TOTAL_CHANNELS);
+    const priorities = new Uint8Array(TOTAL_CHANNELS);
+    const owners = new Uint8Array(TOTAL_CHANNELS).fill(NO_CHANNEL_OWNER);
+    const sources: string[] = [];
+    const wins: number[] = [];
+
+    for (const [key, info] of state.sources) {
+      const levels = state.levels.get(key)?.levels;
+      if (!levels || !this.isArbitrated(info) || sources.length >= NO_CHANNEL_OWNER) continue;
+
+      const entry = state.addressPriorities.get(key);
+      const addressPriorities = entry && now - entry.receivedAt <= ADDRESS_PRIORITY_TIMEOUT_MS ? entry.priorities : null;
+      const index = sources.length;
+      sources.push(info.sourceName);
+      wins.push(0);
+
+      for (let i = 0; i < TOTAL_CHANNELS; i++) {
+        const priority = addressPriorities ? addressPriorities[i]! : info.priority;
+        if (addressPriorities && priority === 0) continue;
+
+        const level = levels[i]!;
+        const owner = owners[i]!;
+        if (owner === NO_CHANNEL_OWNER || priority > priorities[i]! || (priority === priorities[i]! && level > channels[i]!)) {
+          if (owner !== NO_CHANNEL_OWNER) wins[owner]!--;
+          channels[i] = level;
+          priorities[i] = priority;
+          owners[i] = index;
+          wins[index]!++;
+        }
+      }
+    }
+
+    // Report the source driving the most channels and the highest winning priority
+    let top = 0;
+    wins.forEach((count, index) => {
+      if (count > wins[top]!) top = index;
+    });
+
+    return {
+      channels,
+      source: sources[top] ?? "Unknown",
+      priority: priorities.reduce((max, p) => Math.max(max, p), 0),
+      result: { priorities, owners, sources },
+    };
+  }
+
+  /**
+   * Store a source's latest levels, noting which channels changed
+   */
+  private storeLevels(state: UniverseSources, sourceKey: string, channels: Uint8Array, now: number): void {
+    const previous = state.levels.get(sourceKey);
+    if (!previous) {
+      // A new source takes every channel for LTP
+      state.levels.set(sourceKey, { levels: channels, changedAt: new Float64Array(TOTAL_CHANNELS).fill(now) });
+      return;
+    }
+
+    for (let i = 0; i < TOTAL_CHANNELS; i++) {
+      if (channels[i] !== previous.levels[i]) {
+        previous.changedAt[i] = now;
+      }
+    }
+    previous.levels = channels;
+  }
+
+  /**
+   * Merge the latest frame from every source on a universe
+   * HTP takes the highest level; LTP takes the level most recently changed.
+   */
+  private buildMerge(state: UniverseSources): SourceMerge {
+    const htp = new Uint8Array(TOTAL_CHANNELS);
+    const ltp = new Uint8Array(TOTAL_CHANNELS);
+    const latest = new Float64Array(TOTAL_CHANNELS);
+    const sources: SourceMerge["sources"] = [];
+
+    const keys = Array.from(state.sources.keys()).sort((a, b) => state.sources.get(b)!.priority - state.sources.get(a)!.priority);
+    for (const key of keys) {
+      const info = state.sources.get(key)!;
+      const frame = state.levels.get(key);
+      if (!frame || !this.isArbitrated(info)) continue;
+
+      sources.push({ sourceName: info.sourceName, priority: info.priority, channels: frame.levels });
+      for (let i = 0; i < TOTAL_CHANNELS; i++) {
+        const level = frame.levels[i]!;
+        if (level > htp[i]!) htp[i] = level;
+        if (frame.changedAt[i]! > latest[i]!) {
+          latest[i] = frame.changedAt[i]!;
+          ltp[i] = level;
+        }
+      }
+    }
+
+    return { htp, ltp, sources };
   }
 
   /**
    * Generate a unique key for a source
-   * Uses CID if available, otherwise falls back to sourceAddress, then sourceName
+   * Uses the CID (a UUID per sender), falling back to name@address for senders with a null CID
    */
-  private getSourceKey(packet: SACNPacket): string {
-    // CID is the best unique identifier (UUID per sender)
-    if (packet.cid && packet.cid.length > 0) {
+  private getSourceKey(packet: E131DataPacket, sourceAddress: string): string {
+    if (packet.cid.some((byte) => byte !== 0)) {
       return packet.cid.toString("hex");
     }
-    // Fall back to sourceAddress (IP) if available
-    if (packet.sourceAddress) {
-      return `${packet.sourceName ?? "Unknown"}@${packet.sourceAddress}`;
+    return `${packet.sourceName || "Unknown"}@${sourceAddress}`;
+  }
+
+  /**
+   * Get (or create) the source arbitration state for a universe
+   */
+  private getUniverseSources(universe: number): UniverseSources {
+    let state = this.universeSources.get(universe);
+    if (!state) {
+      state = { sources: new Map(), activeSource: null, levels: new Map(), addressPriorities: new Map() };
+      this.universeSources.set(universe, state);
     }
-    // Last resort: just use sourceName (may collide)
-    return packet.sourceName ?? "Unknown";
+    return state;
   }
 
   /**
    * Update source tracking and determine if packet should be emitted
+   * Arbitration is per universe - a source only competes on the universes it sends
    * @returns true if this packet is from the active (highest priority) source
    */
-  private updateSourceTracking(sourceKey: string, sourceName: string, sourceAddress: string | undefined, priority: number, now: Date): boolean {
-    const existingSource = this.sources.get(sourceKey);
+  private updateSourceTracking(universe: number, sourceKey: string, sourceName: string, sourceAddress: string | undefined, priority: number, preview: boolean, now: Date): boolean {
+    const state = this.getUniverseSources(universe);
+    const existingSource = state.sources.get(sourceKey);
     const wasNewSource = !existingSource;
+    const addressPriorities = state.addressPriorities.get(sourceKey);
 
     // Update or create source info
     const sourceInfo: SACNSourceInfo = {
+      universe,
       sourceName,
       sourceAddress,
       priority,
       lastSeen: now,
       isActive: false, // Will be set below
+      perAddressPriority: addressPriorities !== undefined && now.getTime() - addressPriorities.receivedAt <= ADDRESS_PRIORITY_TIMEOUT_MS,
+      preview,
+    };
+    state.sources.set(sourceKey, sourceInfo);
+
+    if (wasNewSource) {
+      this.emitSourceEvent("appeared", sourceInfo);
+    }
+
+    // Check if active source changed
+    const previousActive = state.activeSource;
+    this.recalculateActiveSource(state);
+    const activeChanged = previousActive !== state.activeSource;
+    if (activeChanged && previousActive !== null) {
+      this.emitTakeOver(state);
+    }
+
+    // Emit sourcesChanged event if we have multiple sources or source list changed
+    const addressPriorityChanged = existingSource !== undefined && existingSource.perAddressPriority !== sourceInfo.perAddressPriority;
+    const previewChanged = existingSource !== undefined && existingSource.preview !== sourceInfo.preview;
+    if (wasNewSource || activeChanged || addressPriorityChanged || previewChanged) {
+      if (state.sources.size > 1) {
+        const active = state.activeSource ? state.sources.get(state.activeSource) : undefined;
+        logWarn(`Multiple sACN sources detected on universe ${universe}. Active: ${state.activeSource} (pri:${active?.priority ?? -1})`);
+      }
+      this.emitSourcesChanged(universe);
+    }
+
+    // Return true if this packet is from the active (highest priority) source
+    return sourceKey === state.activeSource;
+  }
+
+  /**
+   * Release a source that sent Stream_Terminated
+   */
+  private terminateSource(universe: number, sourceKey: string): void {
+    const state = this.universeSources.get(universe);
+    if (!state?.sources.has(sourceKey)) return;
+
+    this.removeSource(universe, state, sourceKey, "terminated");
+  }
+
+  /**
+   * Remove a source from a universe and re-run arbitration
+   */
+  private removeSource(universe: number, state: UniverseSources, sourceKey: string, reason: "terminated" | "timedOut"): void {
+    const info = state.sources.get(sourceKey);
+    if (!info) return;
+
+    state.sources.delete(sourceKey);
+    state.levels.delete(sourceKey);
+    state.addressPriorities.delete(sourceKey);
+    this.emitSourceEvent(reason, info);
+
+    const previousActive = state.activeSource;
+    this.recalculateActiveSource(state);
+    if (previousActive !== state.activeSource) {
+      this.emitTakeOver(state);
+    }
+
+    this.emitSourcesChanged(universe);
+    if (this.mergeEnabled) {
+      this.emit("sourcesMerged", this.countArbitrated(state) > 1 ? this.buildMerge(state) : null, universe);
+    }
+  }
+
+  /**
+   * Emit tookOver for a universe's new active source, if it has one
+   */
+  private emitTakeOver(state: UniverseSources): void {
+    const active = state.activeSource ? state.sources.get(state.activeSource) : undefined;
+    if (active) {
+      this.emitSourceEvent("tookOver", active);
+    }
+  }
+
+  /**
+   * Log a source transition and emit it for the event timeline
+   */
+  private emitSourceEvent(type: SourceEventType, info: SACNSourceInfo): void {
+    const event: SourceEvent = {
+      type,
+      time: new Date(),
+      universe: info.universe,
+      sourceName: info.sourceName,
+      sourceAddress: info.sourceAddress,
+      priority: info.priority,
     };
-    this.sources.set(sourceKey, sourceInfo);
 
-    // Find the highest priority source
+    const description = `${info.sourceName} (pri:${info.priority}) on universe ${info.universe}`;
+    switch (type) {
+      case "appeared":
+        logInfo(`sACN source appeared: ${description}`);
+        break;
+      case "terminated":
+        logInfo(`sACN source terminated its stream: ${description}`);
+        break;
+      case "timedOut":
+        logWarn(`sACN source timed out: ${description}`);
+        break;
+      case "tookOver":
+        logInfo(`sACN source took over: ${description}`);
+        break;
+    }
+
+    this.emit("sourceEvent", event);
+  }
+
+  /**
+   * Whether a source takes part in arbitration and merging (preview sources only when included)
+   */
+  private isArbitrated(info: SACNSourceInfo): boolean {
+    return !info.preview || this.includePreview;
+  }
+
+  /**
+   * Number of sources on a universe that take part in arbitration and merging
+   */
+  private countArbitrated(state: UniverseSources): number {
+    let count = 0;
+    for (const info of state.sources.values()) {
+      if (this.isArbitrated(info)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Pick the highest priority source for a universe and update active flags
+   */
+  private recalculateActiveSource(state: UniverseSources): void {
     let highestPriority = -1;
     let highestPrioritySource: string | null = null;
 
-    for (const [name, info] of this.sources) {
-      if (info.priority > highestPriority) {
+    for (const [name, info] of state.sources) {
+      if (this.isArbitrated(info) && info.priority > highestPriority) {
         highestPriority = info.priority;
         highestPrioritySource = name;
       }
     }
 
     // Update active status for all sources
-    for (const [name, info] of this.sources) {
+    for (const [name, info] of state.sources) {
       info.isActive = name === highestPrioritySource;
     }
 
-    // Check if active source changed
-    const activeChanged = this.activeSource !== highestPrioritySource;
-    this.activeSource = highestPrioritySource;
-
-    // Emit sourcesChanged event if we have multiple sources or source list changed
-    if (wasNewSource || activeChanged) {
-      if (this.sources.size > 1) {
-        logWarn(`Multiple sACN sources detected. Active: ${highestPrioritySource} (pri:${highestPriority})`);
-      }
-      this.emitSourcesChanged();
-    }
-
-    // Return true if this packet is from the active (highest priority) source
-    return sourceKey === highestPrioritySource;
+    state.activeSource = highestPrioritySource;
   }
 
   /**
@@ -349,71 +1023,79 @@ export class SACNHandler extends EventEmitter implements ProtocolHandler {
    */
   private cleanupStaleSources(): void {
     const now = Date.now();
-    let removed = false;
 
-    for (const [name, info] of this.sources) {
-      if (now - info.lastSeen.getTime() > SOURCE_TIMEOUT_MS) {
-        this.sources.delete(name);
-        removed = true;
-        logInfo(`sACN source timed out: ${name}`);
+    // Sync packets stopped - release held data and process unsynchronized
+    for (const [syncAddress, sync] of this.syncStates) {
+      if (sync.stats.active && now - sync.lastSyncAt > SYNC_TIMEOUT_MS) {
+        sync.stats.active = false;
+        logWarn(`sACN sync lost on universe ${syncAddress}; processing data unsynchronized`);
+        for (const { packet } of sync.held.values()) {
+          this.emit("packet", packet);
+        }
+        sync.held.clear();
       }
     }
 
-    if (removed) {
-      // Recalculate active source
-      if (this.sources.size > 0) {
-        let highestPriority = -1;
-        let highestPrioritySource: string | null = null;
-
-        for (const [name, info] of this.sources) {
-          if (info.priority > highestPriority) {
-            highestPriority = info.priority;
-            highestPrioritySource = name;
-          }
-        }
+    let discoveryRemoved = false;
+    for (const [cid, state] of this.discoveredSources) {
+      if (now - state.info.lastSeen.getTime() > DISCOVERY_TIMEOUT_MS) {
+        this.discoveredSources.delete(cid);
+        discoveryRemoved = true;
+        logInfo(`sACN source stopped announcing universes: ${state.info.sourceName || cid}`);
+      }
+    }
+    if (discoveryRemoved) {
+      this.emit("discoveredSourcesChanged", this.getDiscoveredSources());
+    }
 
-        // Update active status
-        for (const [name, info] of this.sources) {
-          info.isActive = name === highestPrioritySource;
+    for (const [universe, state] of this.universeSources) {
+      for (const [name, info] of state.sources) {
+        if (now - info.lastSeen.getTime() > SOURCE_TIMEOUT_MS) {
+          this.removeSource(universe, state, name, "timedOut");
         }
-
-        this.activeSource = highestPrioritySource;
-      } else {
-        this.activeSource = null;
       }
-
-      this.emitSourcesChanged();
     }
+
+    this.timingAnalyzer.checkStalls();
+    this.timingAnalyzer.prune();
+    this.sequenceTracker.prune();
   }
 
   /**
-   * Emit the sourcesChanged event with current source list
+   * Emit the sourcesChanged event with the current source list for a universe
    */
-  private emitSourcesChanged(): void {
-    const sources = this.getSources();
-    this.emit("sourcesChanged", sources);
+  private emitSourcesChanged(universe: number): void {
+    this.emit("sourcesChanged", this.getSources(universe), universe);
   }
 
   /**
-   * Get list of all tracked sources
+   * Get list of tracked sources for a universe (or all universes), highest priority first
    */
-  getSources(): SACNSourceInfo[] {
-    return Array.from(this.sources.values()).sort((a, b) => b.priority - a.priority);
+  getSources(universe?: number): SACNSourceInfo[] {
+    const states = universe !== undefined ? [this.universeSources.get(universe)] : Array.from(this.universeSources.values());
+    const sources: SACNSourceInfo[] = [];
+    for (const state of states) {
+      if (state) {
+        sources.push(...state.sources.values());
+      }
+    }
+    return sources.sort((a, b) => b.priority - a.priority);
   }
 
   /**
-   * Get the currently active source (highest priority)
+   * Get the currently active source (highest priority) for a universe
    */
-  getActiveSource(): SACNSourceInfo | null {
-    if (!this.activeSource) return null;
-    return this.sources.get(this.activeSource) ?? null;
+  getActiveSource(universe: number): SACNSourceInfo | null {
+    const state = this.universeSources.get(universe);
+    if (!state?.activeSource) return null;
+    return state.sources.get(state.activeSource) ?? null;
   }
 
   /**
-   * Check if there are competing sources (multiple sources with different priorities)
+   * Check if there are competing sources (multiple sources on the same universe)
    */
-  hasCompetingSources(): boolean {
-    return this.sources.size > 1;
+  hasCompetingSources(universe: number): boolean {
+    return (this.universeSources.get(universe)?.sources.size ?? 0) > 1;
   }
 
   /**
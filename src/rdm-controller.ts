@@ -0,0 +1,144 @@
+/**
+ * RDM Controller - Changes RDM device settings over Art-Net
+ *
+ * Used by the RDM panel to patch misaddressed fixtures without a vendor tool.
+ * Every change is logged and read back from the device after it is acknowledged.
+ */
+
+import { RdmDevice, TOTAL_CHANNELS } from "./types";
+import { RdmError } from "./errors";
+import { logInfo, logWarn, logError } from "./logger";
+import { ArtNetHandler } from "./protocols/artnet";
+import { RdmCommandClass, RdmParameterId, describeParameter } from "./protocols/rdm";
+
+/** Maximum DEVICE_LABEL length (E1.20) */
+export const RDM_MAX_LABEL_LENGTH = 32;
+
+/**
+ * RDM Controller
+ *
+ * Sends SET commands through the Art-Net handler's ArtRdm transport.
+ */
+export class RdmController {
+  private readonly transport: ArtNetHandler;
+
+  constructor(transport: ArtNetHandler) {
+    this.transport = transport;
+  }
+
+  /**
+   * Set a device's DMX start address (1-512)
+   * @throws RdmError if the address doesn't fit the footprint or the device rejects it
+   */
+  async setDmxStartAddress(uid: string, address: number): Promise<RdmDevice> {
+    const device = this.getDevice(uid);
+    const parameter = describeParameter(RdmParameterId.DMX_START_ADDRESS);
+    const footprint = device.deviceInfo?.dmxFootprint ?? 1;
+
+    if (!Number.isInteger(address) || address < 1 || address > TOTAL_CHANNELS) {
+      throw this.rejected(RdmError.invalidValue(uid, parameter, `must be between 1 and ${TOTAL_CHANNELS}`));
+    }
+    if (footprint > 0 && address + footprint - 1 > TOTAL_CHANNELS) {
+      throw this.rejected(RdmError.invalidValue(uid, parameter, `footprint of ${footprint} channels would end past channel ${TOTAL_CHANNELS}`));
+    }
+
+    const data = Buffer.alloc(2);
+    data.writeUInt16BE(address, 0);
+    await this.set(device, RdmParameterId.DMX_START_ADDRESS, data, { from: device.dmxStartAddress, to: address });
+
+    // Only compare when the read-back itself worked
+    const updated = await this.transport.refreshRdmDevice(uid);
+    if (!updated.error && updated.dmxStartAddress !== address) {
+      throw this.rejected(RdmError.notApplied(uid, parameter));
+    }
+    return updated;
+  }
+
+  /**
+   * Set a device's label (up to 32 ASCII characters)
+   * @throws RdmError if the label is too long or the device rejects it
+   */
+  async setDeviceLabel(uid: string, label: string): Promise<RdmDevice> {
+    const device = this.getDevice(uid);
+    const parameter = describeParameter(RdmParameterId.DEVICE_LABEL);
+
+    if (label.length > RDM_MAX_LABEL_LENGTH) {
+      throw this.rejected(RdmError.invalidValue(uid, parameter, `must be at most ${RDM_MAX_LABEL_LENGTH} characters`));
+    }
+    if (!/^[\x20-\x7e]*$/.test(label)) {
+      throw this.rejected(RdmError.invalidValue(uid, parameter, "must only contain printable ASCII characters"));
+    }
+
+    await this.set(device, RdmParameterId.DEVICE_LABEL, Buffer.from(label, "ascii"), { from: device.label, to: label });
+
+    const updated = await this.transport.refreshRdmDevice(uid);
+    if (!updated.error && updated.label !== undefined && updated.label !== label.trim()) {
+      throw this.rejected(RdmError.notApplied(uid, parameter));
+    }
+    return updated;
+  }
+
+  /**
+   * Switch a device's identify (locate) mode on or off
+   * @throws RdmError if the device rejects it
+   */
+  async setIdentify(uid: string, on: boolean): Promise<RdmDevice> {
+    const device = this.getDevice(uid);
+
+    await this.set(device, RdmParameterId.IDENTIFY_DEVICE, Buffer.from([on ? 1 : 0]), { from: device.identifying ?? false, to: on });
+
+    device.identifying = on;
+    return this.transport.refreshRdmDevice(uid);
+  }
+
+  /**
+   * Log a change that was refused before or after sending it
+   */
+  private rejected(error: RdmError): RdmError {
+    logWarn(`RDM change rejected: ${error.message}`, { uid: error.uid, parameter: error.parameter });
+    return error;
+  }
+
+  /**
+   * Look up a device found by RDM discovery
+   */
+  private getDevice(uid: string): RdmDevice {
+    const device = this.transport.getRdmDevice(uid);
+    if (!device) {
+      throw RdmError.deviceNotFound(uid);
+    }
+    return device;
+  }
+
+  /**
+   * Send a SET command, logging the change and its outcome
+   */
+  private async set(device: RdmDevice, parameterId: number, data: Buffer, change: { from: unknown; to: unknown }): Promise<void> {
+    const parameter = describeParameter(parameterId);
+    const context = {
+      uid: device.uid,
+      label: device.label,
+      nodeIp: device.nodeIp,
+      universe: device.universe,
+      ...change,
+    };
+
+    logInfo(`RDM SET ${parameter} requested`, context);
+
+    try {
+      await this.transport.sendRdmRequest(device, RdmCommandClass.SET, parameterId, data);
+    } catch (error) {
+      logError(error, `RDM SET ${parameter} on ${device.uid} failed`);
+      throw error;
+    }
+
+    logInfo(`RDM SET ${parameter} acknowledged`, context);
+  }
+}
+
+/**
+ * Create an RDM controller on an Art-Net handler
+ */
+export function createRdmController(transport: ArtNetHandler): RdmController {
+  return new RdmController(transport);
+}
@@ -3,6 +3,20 @@
  * 
  * Highly optimized binary format for recording DMX data with delta compression.
  * Only stores channel changes with precision timestamps for minimal file size.
+ * 
+ * File layout (v2):
+ * - 32-byte header (universe count in the reserved area); the
+ *   MICROSECOND_DELTAS flag marks delta times in microseconds, not milliseconds
+ * - Universe table: one uint16 per universe
+ * - Frames: varint delta time, uint16 universe, then change count and changes
+ *   (or a snapshot marker and 512 values)
+ * 
+ * v1 files have no universe table and untagged frames; they are still readable.
+ * 
+ * Playback streams frames from disk through a read-ahead buffer. Snapshot
+ * positions for seeking are indexed in memory on the first seek. With
+ * saveSeekIndex the index is also saved to a "<recording>.idx" file next to
+ * the recording, by the recorder or on the first seek, and read on load.
  */
 
 import * as fs from 'fs';
@@ -12,6 +26,7 @@ import {
   Protocol,
   DMXREC_MAGIC,
   DMXREC_VERSION,
+  DMXREC_VERSION_MULTI_UNIVERSE,
   RecordingHeader,
   RecordingFlags,
   FrameType,
@@ -21,18 +36,52 @@ import {
   RecordingStats,
   PlaybackState,
   PlaybackStats,
+  pushSample,
+  meanOf,
 } from './types';
 import { logInfo, logDebug } from './logger';
 
 /** Header size in bytes */
 const HEADER_SIZE = 32;
 
+/** Offset of the universe count in the header (v2, inside the reserved area) */
+const HEADER_UNIVERSE_COUNT_OFFSET = 25;
+
 /** Interval between full snapshots (ms) */
 const SNAPSHOT_INTERVAL = 5000;
 
 /** Write buffer size before flushing */
 const WRITE_BUFFER_SIZE = 64 * 1024; // 64KB
 
+/** Largest header plus universe table (65535 universes) */
+const MAX_HEADER_READ = HEADER_SIZE + 0xffff * 2;
+
+/** Read-ahead buffer size for streaming playback */
+const READ_AHEAD_SIZE = 1024 * 1024; // 1MB
+
+/** Largest frame: varint delta, universe tag, extended change count and 65535 changes */
+const MAX_FRAME_SIZE = 5 + 2 + 1 + 2 + 0xffff * 3;
+
+/** Frame fields before the channel data: varint delta, universe tag, extended change count */
+const MAX_FRAME_HEADER_SIZE = 5 + 2 + 1 + 2;
+
+/** Seek index file: magic, version, the recording it was built for, then the entries */
+const INDEX_MAGIC = "DMXI";
+const INDEX_VERSION = 1;
+const INDEX_HEADER_SIZE = 32;
+/** Per entry: offset (float64), position (float64), frame number (uint32) */
+const INDEX_ENTRY_SIZE = 20;
+
+/** Largest delta time a frame can store (decodeVarint works in 32-bit signed integers) */
+const MAX_FRAME_DELTA = 0x7fffffff;
+
+/** Length of a stored delta time unit (ns) */
+const MILLISECOND_NS = BigInt(1_000_000);
+const MICROSECOND_NS = BigInt(1_000);
+
+/** Number of recent frames the playback lateness mean covers */
+const DRIFT_WINDOW = 500;
+
 /**
  * Encode an unsigned integer as a varint (1-4 bytes)
  * Uses continuation bit encoding for compact representation
@@ -67,6 +116,14 @@ function decodeVarint(buffer: Buffer, offset: number): { value: number; bytesRea
   return { value, bytesRead };
 }
 
+/**
+ * Monotonic clock in milliseconds, unaffected by system clock changes
+ */
+function monotonicNow(): number {
+  const [seconds, nanoseconds] = process.hrtime();
+  return seconds * 1000 + nanoseconds / 1e6;
+}
+
 /**
  * Format a date as YYYYMMDD-HHMMSS for filenames
  */
@@ -75,6 +132,97 @@ function formatDateForFilename(date: Date): string {
   return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
 }
 
+/** Frame index entry for seeking */
+interface FrameIndex {
+  /** Byte offset of the first frame of a snapshot group */
+  offset: number;
+  /** Playback position of the snapshot group (ms) */
+  position: number;
+  /** Number of frames before this one */
+  frameNumber: number;
+}
+
+/** Identifies the recording a seek index was built for */
+interface SeekIndexKey {
+  fileSize: number;
+  startTime: number;
+  frameCount: number;
+}
+
+/**
+ * Path of a recording's seek index file
+ */
+function seekIndexPath(recordingPath: string): string {
+  return `${recordingPath}.idx`;
+}
+
+/**
+ * Write a recording's seek index file
+ */
+function writeSeekIndex(recordingPath: string, key: SeekIndexKey, entries: FrameIndex[]): void {
+  const buffer = Buffer.alloc(INDEX_HEADER_SIZE + entries.length * INDEX_ENTRY_SIZE);
+  buffer.write(INDEX_MAGIC, 0, 'ascii');
+  buffer.writeUInt8(INDEX_VERSION, 4);
+  buffer.writeDoubleLE(key.fileSize, 8);
+  buffer.writeBigInt64LE(BigInt(key.startTime), 16);
+  buffer.writeUInt32LE(key.frameCount, 24);
+  buffer.writeUInt32LE(entries.length, 28);
+  
+  entries.forEach((entry, i) => {
+    const offset = INDEX_HEADER_SIZE + i * INDEX_ENTRY_SIZE;
+    buffer.writeDoubleLE(entry.offset, offset);
+    buffer.writeDoubleLE(entry.position, offset + 8);
+    buffer.writeUInt32LE(entry.frameNumber, offset + 16);
+  });
+  
+  fs.writeFileSync(seekIndexPath(recordingPath), buffer);
+  logInfo('Seek index saved', { path: seekIndexPath(recordingPath), snapshots: entries.length });
+}
+
+/**
+ * Read a recording's seek index file
+ * @returns The entries, or null when there is no index or it belongs to another version of the file
+ */
+function readSeekIndex(recordingPath: string, key: SeekIndexKey): FrameIndex[] | null {
+  let buffer: Buffer;
+  try {
+    buffer = fs.readFileSync(seekIndexPath(recordingPath));
+  } catch {
+    return null;
+  }
+  
+  if (buffer.length < INDEX_HEADER_SIZE ||
+      buffer.toString('ascii', 0, 4) !== INDEX_MAGIC ||
+      buffer.readUInt8(4) !== INDEX_VERSION ||
+      buffer.readDoubleLE(8) !== key.fileSize ||
+      Number(buffer.readBigInt64LE(16)) !== key.startTime ||
+      buffer.readUInt32LE(24) !== key.frameCount) {
+    return null;
+  }
+  
+  const count = buffer.readUInt32LE(28);
+  if (buffer.length < INDEX_HEADER_SIZE + count * INDEX_ENTRY_SIZE) return null;
+  
+  const entries: FrameIndex[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = INDEX_HEADER_SIZE + i * INDEX_ENTRY_SIZE;
+    entries.push({
+      offset: buffer.readDoubleLE(offset),
+      position: buffer.readDoubleLE(offset + 8),
+      frameNumber: buffer.readUInt32LE(offset + 16),
+    });
+  }
+  return entries;
+}
+
+/** Recorder configuration */
+export interface RecorderConfig {
+  /** Store frame delta times in microseconds (sets RecordingFlags.MICROSECOND_DELTAS) */
+  microsecondTimestamps?: boolean;
+  /** Save the seek index to "<recording>.idx" when recording stops */
+  saveSeekIndex?: boolean;
+}
+
 /**
  * DMX Recorder - Records DMX data to an optimized binary format
  */
@@ -85,19 +233,31 @@ export class DMXRecorder {
   private writeBuffer: Buffer;
   private writeOffset = 0;
   
-  private previousChannels: Uint8Array;
+  /** Last recorded channel values per universe */
+  private previousChannels: Map<number, Uint8Array> = new Map();
   private startTime: number = 0;
-  private lastFrameTime: number = 0;
   private lastSnapshotTime: number = 0;
+  /** Monotonic time of the last frame (ns), advanced by whole delta units so rounding does not accumulate */
+  private lastFrameClock = BigInt(0);
+  /** Length of one stored delta time unit (ns) */
+  private readonly deltaUnit: bigint;
+  private readonly saveSeekIndex: boolean;
+  /** Playback position of the last frame (ms) and the seek index entries so far */
+  private position = 0;
+  private seekIndex: FrameIndex[] = [];
+  /** File offset of the first frame */
+  private frameDataStart = 0;
   private frameCount = 0;
   private bytesWritten = 0;
   
   private protocol: Protocol = 'sacn';
-  private universe: number = 1;
+  /** Universes in the recording, ascending */
+  private universes: number[] = [1];
   
-  constructor() {
-    this.previousChannels = new Uint8Array(TOTAL_CHANNELS);
+  constructor(config: RecorderConfig = {}) {
     this.writeBuffer = Buffer.alloc(WRITE_BUFFER_SIZE);
+    this.deltaUnit = config.microsecondTimestamps ? MICROSECOND_NS : MILLISECOND_NS;
+    this.saveSeekIndex = config.saveSeekIndex ?? false;
   }
   
   /**
@@ -130,14 +290,20 @@ export class DMXRecorder {
   
   /**
    * Start recording to a new file
+   * @param universes Universe, or list of universes, to capture in this recording
    */
-  startRecording(protocol: Protocol, universe: number, outputDir?: string): string {
+  startRecording(protocol: Protocol, universes: number | number[], outputDir?: string): string {
     if (this.state === "recording") {
       throw new Error("Already recording");
     }
     
+    const universeList = Array.isArray(universes) ? universes : [universes];
+    if (universeList.length === 0) {
+      throw new Error("No universes to record");
+    }
+    
     this.protocol = protocol;
-    this.universe = universe;
+    this.universes = Array.from(new Set(universeList)).sort((a, b) => a - b);
     
     // Generate filename
     const timestamp = formatDateForFilename(new Date());
@@ -151,19 +317,30 @@ export class DMXRecorder {
     // Write initial header with magic bytes (will be updated on stop with final values)
     const headerBuffer = this.createHeader(0);
     fs.writeSync(this.fileHandle, headerBuffer);
-    this.bytesWritten = HEADER_SIZE;
+    
+    // Write universe table
+    const universeTable = Buffer.alloc(this.universes.length * 2);
+    this.universes.forEach((universe, index) => universeTable.writeUInt16LE(universe, index * 2));
+    fs.writeSync(this.fileHandle, universeTable);
+    this.bytesWritten = HEADER_SIZE + universeTable.length;
+    this.frameDataStart = this.bytesWritten;
     
     // Reset state
-    this.previousChannels.fill(0);
+    this.previousChannels.clear();
+    for (const universe of this.universes) {
+      this.previousChannels.set(universe, new Uint8Array(TOTAL_CHANNELS));
+    }
     this.startTime = Date.now();
-    this.lastFrameTime = this.startTime;
+    this.lastFrameClock = process.hrtime.bigint();
     this.lastSnapshotTime = this.startTime;
     this.frameCount = 0;
     this.writeOffset = 0;
+    this.position = 0;
+    this.seekIndex = [];
     
     this.state = "recording";
     
-    logInfo("Recording started", { filePath: this.filePath, protocol, universe });
+    logInfo("Recording started", { filePath: this.filePath, protocol, universes: this.universes });
     
     return this.filePath;
   }
@@ -189,6 +366,16 @@ export class DMXRecorder {
       fs.fsyncSync(this.fileHandle);  // Ensure data is flushed to disk
       fs.closeSync(this.fileHandle);
       this.fileHandle = null;
+      
+      // Save the seek index so playback can seek without scanning the file
+      if (this.saveSeekIndex) {
+        try {
+          const fileSize = fs.statSync(this.filePath!).size;
+          writeSeekIndex(this.filePath!, { fileSize, startTime: this.startTime, frameCount: this.frameCount }, this.seekIndex);
+        } catch (error) {
+          logDebug('Failed to save seek index', { error });
+        }
+      }
     }
     
     const stats = this.getStats();
@@ -208,33 +395,51 @@ export class DMXRecorder {
   
   /**
    * Record a frame of DMX data
-   * Only stores changes from the previous frame
+   * Only stores changes from the previous frame of the same universe
+   * @param universe Universe the data belongs to (defaults to the first recorded universe)
    */
-  recordFrame(channels: Uint8Array): void {
+  recordFrame(channels: Uint8Array, universe: number = this.universes[0]!): void {
     if (this.state !== "recording") return;
     
+    const previous = this.previousChannels.get(universe);
+    if (!previous) {
+      logDebug('Frame for unrecorded universe ignored', { universe });
+      return;
+    }
+    
     const now = Date.now();
+    const clock = process.hrtime.bigint();
     const isFirstFrame = this.frameCount === 0;
     
     // First frame always has deltaTime = 0 (starts immediately on playback)
-    const deltaTime = isFirstFrame ? 0 : (now - this.lastFrameTime);
+    const deltaUnits = isFirstFrame ? BigInt(0) : (clock - this.lastFrameClock) / this.deltaUnit;
+    const deltaTime = Math.min(Number(deltaUnits), MAX_FRAME_DELTA);
+    // Keep the remainder below one unit for the next delta
+    const frameClock = isFirstFrame ? clock : this.lastFrameClock + deltaUnits * this.deltaUnit;
     
     // Check if we need a full snapshot (first frame or periodic)
     const needsSnapshot = isFirstFrame || (now - this.lastSnapshotTime) >= SNAPSHOT_INTERVAL;
     
+    // Playback position of this frame, as the player adds it up
+    const position = this.position + deltaTime * (this.deltaUnit === MICROSECOND_NS ? 0.001 : 1);
+    
     if (needsSnapshot) {
-      this.writeSnapshotFrame(channels, deltaTime);
+      // Snapshot every universe together so a seek can restore the whole show
+      this.seekIndex.push({ offset: this.bytesWritten + this.writeOffset - this.frameDataStart, position, frameNumber: this.frameCount });
+      this.position = position;
+      previous.set(channels.subarray(0, TOTAL_CHANNELS));
+      this.universes.forEach((snapshotUniverse, index) => {
+        this.writeSnapshotFrame(this.previousChannels.get(snapshotUniverse)!, snapshotUniverse, index === 0 ? deltaTime : 0);
+        this.frameCount++;
+      });
       this.lastSnapshotTime = now;
-      // Update state
-      this.previousChannels.set(channels);
-      this.lastFrameTime = now;
-      this.frameCount++;
+      this.lastFrameClock = frameClock;
     } else {
       // Compute delta changes
       const changes: ChannelChange[] = [];
       for (let i = 0; i < TOTAL_CHANNELS; i++) {
         const newValue = channels[i] ?? 0;
-        const oldValue = this.previousChannels[i] ?? 0;
+        const oldValue = previous[i] ?? 0;
         if (newValue !== oldValue) {
           changes.push({ channel: i, value: newValue });
         }
@@ -242,10 +447,11 @@ export class DMXRecorder {
       
       // Only write if there are changes
       if (changes.length > 0) {
-        this.writeDeltaFrame(changes, deltaTime);
+        this.writeDeltaFrame(changes, universe, deltaTime);
         // Update state
-        this.previousChannels.set(channels);
-        this.lastFrameTime = now;
+        previous.set(channels.subarray(0, TOTAL_CHANNELS));
+        this.lastFrameClock = frameClock;
+        this.position = position;
         this.frameCount++;
       }
       // No changes = no frame written, don't update state
@@ -255,11 +461,14 @@ export class DMXRecorder {
   /**
    * Write a delta frame to the buffer
    */
-  private writeDeltaFrame(changes: ChannelChange[], deltaTime: number): void {
+  private writeDeltaFrame(changes: ChannelChange[], universe: number, deltaTime: number): void {
     // Encode delta time as varint
     const deltaBuffer = encodeVarint(deltaTime);
     this.appendToBuffer(deltaBuffer);
     
+    // Universe tag
+    this.appendUint16(universe);
+    
     // Write change count
     if (changes.length < FrameType.SNAPSHOT) {
       this.appendByte(changes.length);
@@ -279,18 +488,21 @@ export class DMXRecorder {
   /**
    * Write a full snapshot frame
    */
-  private writeSnapshotFrame(channels: Uint8Array, deltaTime: number): void {
+  private writeSnapshotFrame(channels: Uint8Array, universe: number, deltaTime: number): void {
     // Encode delta time as varint
     const deltaBuffer = encodeVarint(deltaTime);
     this.appendToBuffer(deltaBuffer);
     
+    // Universe tag
+    this.appendUint16(universe);
+    
     // Write snapshot marker
     this.appendByte(FrameType.SNAPSHOT);
     
     // Write all 512 channel values
     this.appendToBuffer(Buffer.from(channels.slice(0, TOTAL_CHANNELS)));
     
-    logDebug('Wrote snapshot frame', { deltaTime, frameCount: this.frameCount });
+    logDebug('Wrote snapshot frame', { deltaTime, universe, frameCount: this.frameCount });
   }
   
   /**
@@ -361,13 +573,14 @@ export class DMXRecorder {
     header.writeUInt8(DMXREC_VERSION, offset++);
     
     // Flags (1 byte)
-    header.writeUInt8(RecordingFlags.HAS_SNAPSHOTS, offset++);
+    const timestampFlag = this.deltaUnit === MICROSECOND_NS ? RecordingFlags.MICROSECOND_DELTAS : RecordingFlags.NONE;
+    header.writeUInt8(RecordingFlags.HAS_SNAPSHOTS | timestampFlag, offset++);
     
     // Protocol (1 byte) - 0=sACN, 1=Art-Net
     header.writeUInt8(this.protocol === 'sacn' ? 0 : 1, offset++);
     
-    // Universe (2 bytes)
-    header.writeUInt16LE(this.universe, offset);
+    // Universe (2 bytes) - first universe of the recording
+    header.writeUInt16LE(this.universes[0] ?? 0, offset);
     offset += 2;
     
     // Start timestamp (8 bytes)
@@ -382,7 +595,11 @@ export class DMXRecorder {
     header.writeUInt32LE(this.frameCount, offset);
     offset += 4;
     
-    // Reserved (7 bytes) - already zeroed
+    // Universe count (2 bytes) - size of the universe table that follows the header
+    header.writeUInt16LE(this.universes.length, offset);
+    offset += 2;
+    
+    // Reserved (5 bytes) - already zeroed
     
     return header;
   }
@@ -391,31 +608,91 @@ export class DMXRecorder {
 /** Speed presets for playback */
 const SPEED_PRESETS = [0.25, 0.5, 0.75, 1.0, 1.5, 2.0, 4.0];
 
-/** Frame index entry for seeking */
-interface FrameIndex {
-  offset: number;
-  position: number;
-  isSnapshot: boolean;
+/**
+ * Frame Reader - Streams a recording's frame data from disk
+ * 
+ * Holds one read-ahead window of the file, so memory use does not grow with
+ * the recording. Offsets are relative to the start of the frame data.
+ */
+class FrameReader {
+  private readonly fd: number;
+  /** File offset of the first frame */
+  private readonly dataStart: number;
+  /** Length of the frame data in bytes */
+  readonly length: number;
+  private readonly buffer = Buffer.alloc(READ_AHEAD_SIZE);
+  /** Frame data offset of buffer[0] and number of bytes read into the buffer */
+  private bufferStart = 0;
+  private bufferLength = 0;
+  
+  constructor(fd: number, dataStart: number, fileSize: number) {
+    this.fd = fd;
+    this.dataStart = dataStart;
+    this.length = Math.max(0, fileSize - dataStart);
+  }
+  
+  /**
+   * Get the buffered data starting at an offset, reading ahead from disk if needed
+   * @returns The buffer and the offset's index in it; at least `length` bytes follow unless the data ends first
+   */
+  window(offset: number, length: number): { data: Buffer; index: number } {
+    const end = Math.min(offset + length, this.length);
+    if (offset < this.bufferStart || end > this.bufferStart + this.bufferLength) {
+      this.bufferStart = offset;
+      this.bufferLength = fs.readSync(this.fd, this.buffer, 0, Math.min(READ_AHEAD_SIZE, this.length - offset), this.dataStart + offset);
+    }
+    return { data: this.buffer.subarray(0, this.bufferLength), index: offset - this.bufferStart };
+  }
+  
+  /**
+   * Close the file
+   */
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+}
+
+/** Player configuration */
+export interface PlayerConfig {
+  /** Save the seek index to "<recording>.idx" after building it on the first seek */
+  saveSeekIndex?: boolean;
 }
 
 /**
  * DMX Player - Plays back recorded DMX data
  * 
  * Enhanced with speed control, seeking, and loop support.
+ * Multi-universe (v2) recordings play back to every universe at once.
  */
 export class DMXPlayer {
   private state: PlaybackState = "idle";
   private filePath: string | null = null;
   private header: RecordingHeader | null = null;
-  private frameData: Buffer | null = null;
+  /** Streams the frame data of the loaded file */
+  private reader: FrameReader | null = null;
+  private fileSize = 0;
   private frameOffset = 0;
+  /** Milliseconds per stored delta time unit (0.001 for microsecond recordings) */
+  private deltaScale = 1;
   
-  private channels: Uint8Array;
+  /** Current channel values per universe */
+  private channels: Map<number, Uint8Array> = new Map();
   private currentFrame = 0;
-  private playbackStartTime = 0;
+  /** Recording position of the last applied frame group (ms); frame deltas are relative to it */
   private currentPosition = 0;
   private pausedPosition = 0;
   
+  // Playback clock: anchorPosition was due at anchorTime (monotonic ms),
+  // re-anchored on start, resume, seek and speed changes
+  private anchorTime = 0;
+  private anchorPosition = 0;
+  
+  // Scheduler drift
+  private latenessSamples: number[] = [];
+  private lastLateness = 0;
+  private maxLateness = 0;
+  private coalescedFrames = 0;
+  
   // Speed and loop control
   private speed = 1.0;
   private loopEnabled = false;
@@ -423,15 +700,16 @@ export class DMXPlayer {
   // Frame index for seeking (built lazily)
   private frameIndex: FrameIndex[] = [];
   private frameIndexBuilt = false;
+  private readonly saveSeekIndex: boolean;
   
   private playbackTimer: NodeJS.Timeout | null = null;
-  private onFrameCallback: ((channels: Uint8Array) => void) | null = null;
+  private onFrameCallback: ((channels: Uint8Array, universe: number) => void) | null = null;
   private onFinishedCallback: (() => void) | null = null;
   private onPositionCallback: ((position: number, duration: number) => void) | null = null;
   private onStateChangeCallback: ((state: PlaybackState) => void) | null = null;
   
-  constructor() {
-    this.channels = new Uint8Array(TOTAL_CHANNELS);
+  constructor(config: PlayerConfig = {}) {
+    this.saveSeekIndex = config.saveSeekIndex ?? false;
   }
   
   /**
@@ -452,6 +730,12 @@ export class DMXPlayer {
       frameIndex: this.currentFrame,
       totalFrames: this.header?.frameCount ?? 0,
       filePath: this.filePath,
+      drift: {
+        lastLateness: this.lastLateness,
+        meanLateness: meanOf(this.latenessSamples),
+        maxLateness: this.maxLateness,
+        coalescedFrames: this.coalescedFrames,
+      },
     };
   }
   
@@ -462,6 +746,13 @@ export class DMXPlayer {
     return this.header;
   }
   
+  /**
+   * Get the universes in the loaded recording
+   */
+  getUniverses(): number[] {
+    return this.header?.universes ?? [];
+  }
+  
   /**
    * Get current playback speed
    */
@@ -477,10 +768,10 @@ export class DMXPlayer {
   }
   
   /**
-   * Get current channel data
+   * Get current channel data for a universe (defaults to the first universe)
    */
-  getChannels(): Uint8Array {
-    return this.channels;
+  getChannels(universe: number = this.header?.universe ?? 0): Uint8Array {
+    return this.getUniverseChannels(universe);
   }
   
   /**
@@ -491,94 +782,199 @@ export class DMXPlayer {
       this.stop();
     }
     
+    this.closeReader();
     this.filePath = filePath;
     
-    // Read entire file into memory
-    const fileBuffer = fs.readFileSync(filePath);
-    
-    // Parse header
-    this.header = this.parseHeader(fileBuffer);
+    // Read only the header and universe table; frames are streamed during playback
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      this.fileSize = fs.fstatSync(fd).size;
+      const headerBuffer = Buffer.alloc(Math.min(this.fileSize, MAX_HEADER_READ));
+      fs.readSync(fd, headerBuffer, 0, headerBuffer.length, 0);
+      this.header = this.parseHeader(headerBuffer);
+    } catch (error) {
+      fs.closeSync(fd);
+      throw error;
+    }
+    this.deltaScale = (this.header.flags & RecordingFlags.MICROSECOND_DELTAS) !== 0 ? 0.001 : 1;
     
-    // Store frame data (everything after header)
-    this.frameData = fileBuffer.subarray(HEADER_SIZE);
+    // Frame data is everything after the header and universe table
+    const frameStart = this.isMultiUniverse() ? HEADER_SIZE + this.header.universes.length * 2 : HEADER_SIZE;
+    this.reader = new FrameReader(fd, frameStart, this.fileSize);
     this.frameOffset = 0;
     
-    // Clear frame index (will be built lazily on first seek)
-    this.frameIndex = [];
-    this.frameIndexBuilt = false;
+    // Use the saved seek index if it matches this file (otherwise built on first seek)
+    const savedIndex = readSeekIndex(filePath, this.seekIndexKey());
+    this.frameIndex = savedIndex ?? [];
+    this.frameIndexBuilt = savedIndex !== null;
     
     // Reset state
-    this.channels.fill(0);
+    this.channels.clear();
+    for (const universe of this.header.universes) {
+      this.channels.set(universe, new Uint8Array(TOTAL_CHANNELS));
+    }
     this.currentFrame = 0;
     this.currentPosition = 0;
+    this.resetDrift();
     
     this.state = "idle";
     
     logInfo("Recording loaded", {
       filePath,
+      version: this.header.version,
+      universes: this.header.universes,
       duration: this.header.duration,
       frameCount: this.header.frameCount,
+      timestamps: this.deltaScale === 1 ? "ms" : "us",
+      seekIndex: this.frameIndexBuilt ? "saved" : "none",
     });
     
     return this.header;
   }
   
+  /**
+   * Stop playback and close the recording file
+   */
+  close(): void {
+    if (this.playbackTimer) {
+      clearTimeout(this.playbackTimer);
+      this.playbackTimer = null;
+    }
+    this.closeReader();
+    this.setState("idle");
+  }
+  
+  /**
+   * Close the loaded file's reader
+   */
+  private closeReader(): void {
+    if (this.reader) {
+      this.reader.close();
+      this.reader = null;
+    }
+  }
+  
+  /**
+   * Identify the loaded file for its seek index
+   */
+  private seekIndexKey(): SeekIndexKey {
+    return {
+      fileSize: this.fileSize,
+      startTime: this.header?.startTime ?? 0,
+      frameCount: this.header?.frameCount ?? 0,
+    };
+  }
+  
+  /**
+   * Check if the loaded file has universe-tagged frames
+   */
+  private isMultiUniverse(): boolean {
+    return (this.header?.version ?? 0) >= DMXREC_VERSION_MULTI_UNIVERSE;
+  }
+  
+  /**
+   * Get the channel buffer for a universe, creating it if needed
+   */
+  private getUniverseChannels(universe: number): Uint8Array {
+    let channels = this.channels.get(universe);
+    if (!channels) {
+      channels = new Uint8Array(TOTAL_CHANNELS);
+      this.channels.set(universe, channels);
+    }
+    return channels;
+  }
+  
+  /**
+   * Zero the channel data of every universe
+   */
+  private resetChannels(): void {
+    for (const channels of this.channels.values()) {
+      channels.fill(0);
+    }
+  }
+  
   /**
    * Build frame index for seeking (only indexes snapshots for efficiency)
-   * Called lazily on first seek operation
+   * Called lazily on first seek operation when no saved index matches the
+   * file; with saveSeekIndex the result is saved for next time.
+   * 
+   * Multi-universe recordings snapshot every universe back to back; only the
+   * first snapshot of each group is indexed so a seek restores all universes.
    */
   private buildFrameIndex(): void {
-    if (!this.frameData || this.frameIndexBuilt) return;
+    if (!this.reader || !this.header || this.frameIndexBuilt) return;
     
     const startTime = Date.now();
+    const groupSize = this.isMultiUniverse() ? Math.max(1, this.header.universes.length) : 1;
     this.frameIndex = [];
     let offset = 0;
     let position = 0;
+    let frameNumber = 0;
+    let snapshotRun = 0;
     
-    while (offset < this.frameData.length) {
+    while (offset < this.reader.length) {
       const frameStart = offset;
+      const { data, index } = this.reader.window(offset, MAX_FRAME_HEADER_SIZE);
+      let i = index;
       
       // Read delta time (varint)
-      const { value: deltaTime, bytesRead: deltaBytes } = decodeVarint(this.frameData, offset);
-      offset += deltaBytes;
+      const { value: deltaTime, bytesRead: deltaBytes } = decodeVarint(data, i);
+      i += deltaBytes;
+      position += deltaTime * this.deltaScale;
+      
+      // Skip universe tag
+      if (this.isMultiUniverse()) {
+        i += 2;
+      }
       
       // Read change count
-      const changeCount = this.frameData[offset++];
+      const changeCount = data[i++];
       if (changeCount === undefined) break;
       
       const isSnapshot = changeCount === FrameType.SNAPSHOT;
       
       // Only index snapshot frames (needed for seeking)
       if (isSnapshot) {
-        this.frameIndex.push({
-          offset: frameStart,
-          position,
-          isSnapshot: true,
-        });
+        if (snapshotRun % groupSize === 0) {
+          this.frameIndex.push({ offset: frameStart, position, frameNumber });
+        }
+        snapshotRun++;
+      } else {
+        snapshotRun = 0;
       }
       
-      position += deltaTime;
-      
       // Skip frame data
       if (isSnapshot) {
-        offset += TOTAL_CHANNELS;
+        i += TOTAL_CHANNELS;
       } else {
         let actualChangeCount = changeCount;
         if (changeCount === FrameType.EXTENDED) {
-          actualChangeCount = this.frameData.readUInt16LE(offset);
-          offset += 2;
+          if (i + 2 > data.length) break;
+          actualChangeCount = data.readUInt16LE(i);
+          i += 2;
         }
         // Skip changes (3 bytes each: 2 for channel, 1 for value)
-        offset += actualChangeCount * 3;
+        i += actualChangeCount * 3;
       }
+      
+      offset += i - index;
+      frameNumber++;
     }
     
     this.frameIndexBuilt = true;
     logDebug("Frame index built", { snapshots: this.frameIndex.length, timeMs: Date.now() - startTime });
+    
+    if (this.saveSeekIndex) {
+      try {
+        writeSeekIndex(this.filePath!, this.seekIndexKey(), this.frameIndex);
+      } catch (error) {
+        logDebug("Failed to save seek index", { error });
+      }
+    }
   }
   
   /**
-   * Parse the file header
+   * Parse the file header (and the universe table for v2 files)
    */
   private parseHeader(buffer: Buffer): RecordingHeader {
     if (buffer.length < HEADER_SIZE) {
@@ -622,12 +1018,26 @@ export class DMXPlayer {
     // Frame count
     const frameCount = buffer.readUInt32LE(offset);
     
+    // Universe table (v2)
+    let universes = [universe];
+    if (version >= DMXREC_VERSION_MULTI_UNIVERSE) {
+      const universeCount = buffer.readUInt16LE(HEADER_UNIVERSE_COUNT_OFFSET);
+      if (universeCount === 0 || buffer.length < HEADER_SIZE + universeCount * 2) {
+        throw new Error("Invalid recording file: bad universe table");
+      }
+      universes = [];
+      for (let i = 0; i < universeCount; i++) {
+        universes.push(buffer.readUInt16LE(HEADER_SIZE + i * 2));
+      }
+    }
+    
     return {
       magic,
       version,
       flags,
       protocol,
       universe,
+      universes,
       startTime,
       duration,
       frameCount,
@@ -636,8 +1046,9 @@ export class DMXPlayer {
   
   /**
    * Set callback for frame updates during playback
+   * Called once per universe whose data changed
    */
-  onFrame(callback: (channels: Uint8Array) => void): void {
+  onFrame(callback: (channels: Uint8Array, universe: number) => void): void {
     this.onFrameCallback = callback;
   }
   
@@ -674,26 +1085,37 @@ export class DMXPlayer {
     }
   }
   
+  /**
+   * Emit the current channel data of the given universes
+   */
+  private emitFrames(universes: Iterable<number>): void {
+    if (!this.onFrameCallback) return;
+    for (const universe of universes) {
+      this.onFrameCallback(this.getUniverseChannels(universe), universe);
+    }
+  }
+  
   /**
    * Start or resume playback
    */
   play(): void {
-    if (!this.frameData || !this.header) {
+    if (!this.reader || !this.header) {
       throw new Error("No recording loaded");
     }
     
     if (this.state === "playing") return;
     
     if (this.state === "paused") {
-      // Resume from paused position - adjust for speed
-      this.playbackStartTime = Date.now() - (this.pausedPosition / this.speed);
+      // Resume from paused position
+      this.anchorAt(this.pausedPosition);
     } else {
       // Start from beginning
-      this.playbackStartTime = Date.now();
+      this.anchorAt(0);
       this.frameOffset = 0;
       this.currentFrame = 0;
       this.currentPosition = 0;
-      this.channels.fill(0);
+      this.resetChannels();
+      this.resetDrift();
     }
     
     this.setState("playing");
@@ -713,10 +1135,11 @@ export class DMXPlayer {
       this.playbackTimer = null;
     }
     
-    this.pausedPosition = this.currentPosition;
+    // Resume where the clock stopped, not at the last frame (frames may be seconds apart)
+    this.pausedPosition = Math.max(this.currentPosition, Math.min(this.playheadPosition(), this.header?.duration ?? 0));
     this.setState("paused");
     
-    logInfo("Playback paused", { position: this.currentPosition });
+    logInfo("Playback paused", { position: this.pausedPosition });
   }
   
   /**
@@ -732,7 +1155,7 @@ export class DMXPlayer {
         this.currentFrame = 0;
         this.currentPosition = 0;
         this.pausedPosition = 0;
-        this.channels.fill(0);
+        this.resetChannels();
       }
       this.play();
     }
@@ -751,7 +1174,7 @@ export class DMXPlayer {
     this.currentFrame = 0;
     this.currentPosition = 0;
     this.pausedPosition = 0;
-    this.channels.fill(0);
+    this.resetChannels();
     this.setState("idle");
     
     // Emit position update
@@ -760,9 +1183,7 @@ export class DMXPlayer {
     }
     
     // Emit frame with zeroed channels
-    if (this.onFrameCallback) {
-      this.onFrameCallback(this.channels);
-    }
+    this.emitFrames(this.channels.keys());
     
     logInfo("Playback stopped");
   }
@@ -774,10 +1195,14 @@ export class DMXPlayer {
     const clampedSpeed = Math.max(0.1, Math.min(10.0, speed));
     
     if (this.state === "playing") {
-      // Adjust playback start time to maintain position
-      const elapsed = this.currentPosition;
+      // Continue from the current position at the new speed; the pending frame's due time changes
+      this.anchorAt(this.playheadPosition());
       this.speed = clampedSpeed;
-      this.playbackStartTime = Date.now() - (elapsed / this.speed);
+      if (this.playbackTimer) {
+        clearTimeout(this.playbackTimer);
+        this.playbackTimer = null;
+      }
+      this.scheduleNextFrame();
     } else {
       this.speed = clampedSpeed;
     }
@@ -828,7 +1253,7 @@ export class DMXPlayer {
    * Seek to a specific position (ms)
    */
   seek(positionMs: number): void {
-    if (!this.frameData || !this.header) return;
+    if (!this.reader || !this.header) return;
     
     // Build frame index if not already built (lazy initialization)
     if (!this.frameIndexBuilt) {
@@ -849,33 +1274,26 @@ export class DMXPlayer {
     const targetPosition = Math.max(0, Math.min(positionMs, this.header.duration));
     
     // Find the nearest snapshot before target position
-    let snapshotIndex = -1;
-    
+    let entry: FrameIndex | undefined;
     for (let i = this.frameIndex.length - 1; i >= 0; i--) {
-      const entry = this.frameIndex[i];
-      if (entry && entry.position <= targetPosition) {
-        snapshotIndex = i;
+      const candidate = this.frameIndex[i];
+      if (candidate && candidate.position <= targetPosition) {
+        entry = candidate;
         break;
       }
     }
     
     // Reset channels
-    this.channels.fill(0);
+    this.resetChannels();
     
     // If we found a snapshot, start from there
-    if (snapshotIndex >= 0) {
-      const entry = this.frameIndex[snapshotIndex];
-      if (entry) {
-        this.frameOffset = entry.offset;
-        this.currentPosition = entry.position;
-        this.currentFrame = snapshotIndex;
-        
-        // Read and apply the snapshot
-        const frame = this.readNextFrame();
-        if (frame?.isSnapshot && frame.snapshotData) {
-          this.channels.set(frame.snapshotData);
-        }
-      }
+    if (entry) {
+      this.frameOffset = entry.offset;
+      this.currentPosition = entry.position;
+      this.currentFrame = entry.frameNumber;
+      
+      // Read and apply the snapshot group (the index already includes its delta time)
+      this.applyFrames(this.readFrameGroup());
     } else {
       // No snapshot found, start from beginning
       this.frameOffset = 0;
@@ -884,27 +1302,21 @@ export class DMXPlayer {
     }
     
     // Replay frames until we reach target position
-    while (this.currentPosition < targetPosition && this.frameOffset < this.frameData.length) {
-      const frame = this.readNextFrame();
-      if (!frame) break;
+    while (this.currentPosition < targetPosition && this.frameOffset < this.reader.length) {
+      const groupOffset = this.frameOffset;
+      const frames = this.readFrameGroup();
+      if (frames.length === 0) break;
       
-      this.currentPosition += frame.deltaTime;
-      this.currentFrame++;
-      
-      if (this.currentPosition > targetPosition) {
-        // Went past target, back up
-        this.currentPosition -= frame.deltaTime;
+      const groupPosition = this.currentPosition + frames[0]!.deltaTime;
+      if (groupPosition > targetPosition) {
+        // Went past target, leave these frames for playback
+        this.frameOffset = groupOffset;
         break;
       }
       
-      // Apply frame
-      if (frame.isSnapshot && frame.snapshotData) {
-        this.channels.set(frame.snapshotData);
-      } else {
-        for (const change of frame.changes) {
-          this.channels[change.channel] = change.value;
-        }
-      }
+      // Apply frames
+      this.currentPosition = groupPosition;
+      this.applyFrames(frames);
     }
     
     this.pausedPosition = this.currentPosition;
@@ -915,15 +1327,13 @@ export class DMXPlayer {
     }
     
     // Emit frame with current channels
-    if (this.onFrameCallback) {
-      this.onFrameCallback(this.channels);
-    }
+    this.emitFrames(this.channels.keys());
     
     logInfo("Seeked to position", { position: this.currentPosition, target: targetPosition });
     
     // Resume if was playing
     if (wasPlaying) {
-      this.playbackStartTime = Date.now() - (this.currentPosition / this.speed);
+      this.anchorAt(this.currentPosition);
       this.setState("playing");
       this.scheduleNextFrame();
     }
@@ -944,109 +1354,221 @@ export class DMXPlayer {
   }
   
   /**
-   * Schedule the next frame for playback
+   * Apply frames to the channel data
+   * @returns The universes that were updated
+   */
+  private applyFrames(frames: RecordingFrame[]): Set<number> {
+    const updated = new Set<number>();
+    for (const frame of frames) {
+      const channels = this.getUniverseChannels(frame.universe);
+      if (frame.isSnapshot && frame.snapshotData) {
+        channels.set(frame.snapshotData);
+      } else {
+        for (const change of frame.changes) {
+          channels[change.channel] = change.value;
+        }
+      }
+      updated.add(frame.universe);
+      this.currentFrame++;
+    }
+    return updated;
+  }
+  
+  /**
+   * Restart playback from the beginning for loop mode
+   * The next pass starts when the recording's end was due, so loops do not drift either.
+   */
+  private restartLoop(): void {
+    logInfo("Looping playback");
+    const duration = this.header?.duration ?? 0;
+    const loopTime = this.dueTime(Math.max(this.currentPosition, duration));
+    const now = monotonicNow();
+    this.frameOffset = 0;
+    this.currentFrame = 0;
+    this.currentPosition = 0;
+    this.resetChannels();
+    // More than a whole pass behind (e.g. the machine slept): start the pass now
+    this.anchorTime = loopTime < now - duration / this.speed ? now : loopTime;
+    this.anchorPosition = 0;
+    this.scheduleNextFrame();
+  }
+  
+  /**
+   * Anchor the playback clock: the given position is due now
+   */
+  private anchorAt(position: number): void {
+    this.anchorTime = monotonicNow();
+    this.anchorPosition = position;
+  }
+  
+  /**
+   * Monotonic time at which a recording position is due at the current speed
+   */
+  private dueTime(position: number): number {
+    return this.anchorTime + (position - this.anchorPosition) / this.speed;
+  }
+  
+  /**
+   * Recording position the playback clock has reached
+   */
+  private playheadPosition(): number {
+    return this.anchorPosition + (monotonicNow() - this.anchorTime) * this.speed;
+  }
+  
+  /**
+   * Record how late a frame group was applied and how many overdue groups joined it
+   */
+  private recordDrift(lateness: number, coalesced: number): void {
+    this.lastLateness = lateness;
+    this.maxLateness = Math.max(this.maxLateness, lateness);
+    this.coalescedFrames += coalesced;
+    pushSample(this.latenessSamples, lateness, DRIFT_WINDOW);
+  }
+  
+  /**
+   * Clear the drift statistics
+   */
+  private resetDrift(): void {
+    this.latenessSamples = [];
+    this.lastLateness = 0;
+    this.maxLateness = 0;
+    this.coalescedFrames = 0;
+  }
+  
+  /**
+   * Apply every frame group that is due, then schedule the next one
+   * Due times come from the monotonic clock relative to the last anchor, so
+   * timer errors do not accumulate. Groups that are already overdue are
+   * applied together and each updated universe is emitted once, rather than
+   * replaying them late one after another.
    */
   private scheduleNextFrame(): void {
-    if (this.state !== "playing" || !this.frameData || !this.header) return;
-    
-    // Check if we've reached the end
-    if (this.frameOffset >= this.frameData.length || this.currentFrame >= this.header.frameCount) {
-      if (this.loopEnabled) {
-        // Loop back to beginning
-        logInfo("Looping playback");
-        this.frameOffset = 0;
-        this.currentFrame = 0;
-        this.currentPosition = 0;
-        this.channels.fill(0);
-        this.playbackStartTime = Date.now();
-        this.scheduleNextFrame();
-        return;
+    this.playbackTimer = null;
+    if (this.state !== "playing" || !this.reader || !this.header) return;
+    
+    const now = monotonicNow();
+    const updated = new Set<number>();
+    let groups = 0;
+    let lateness = 0;
+    let nextDue: number | null = null;
+    
+    while (this.currentFrame < this.header.frameCount) {
+      const offset = this.frameOffset;
+      const frames = this.readFrameGroup();
+      if (frames.length === 0) break;
+      
+      const position = this.currentPosition + frames[0]!.deltaTime;
+      const due = this.dueTime(position);
+      if (due > now) {
+        // Not due yet; read it again when the timer fires
+        this.frameOffset = offset;
+        nextDue = due;
+        break;
       }
       
-      this.setState("finished");
-      if (this.onFinishedCallback) {
-        this.onFinishedCallback();
+      // The first group shows the timer's lateness, the rest are coalesced into it
+      if (groups === 0) lateness = now - due;
+      groups++;
+      this.currentPosition = position;
+      for (const universe of this.applyFrames(frames)) {
+        updated.add(universe);
       }
-      return;
     }
     
-    // Read the next frame
-    const frame = this.readNextFrame();
-    if (!frame) {
-      if (this.loopEnabled) {
-        // Loop back to beginning
-        this.frameOffset = 0;
-        this.currentFrame = 0;
-        this.currentPosition = 0;
-        this.channels.fill(0);
-        this.playbackStartTime = Date.now();
-        this.scheduleNextFrame();
-        return;
-      }
-      
-      this.setState("finished");
-      if (this.onFinishedCallback) {
-        this.onFinishedCallback();
+    if (groups > 0) {
+      this.recordDrift(lateness, groups - 1);
+      this.emitFrames(updated);
+      if (this.onPositionCallback) {
+        this.onPositionCallback(this.currentPosition, this.header.duration);
       }
+    }
+    
+    if (nextDue !== null) {
+      this.playbackTimer = setTimeout(() => {
+        this.scheduleNextFrame();
+      }, Math.ceil(nextDue - now));
       return;
     }
     
-    // Calculate when this frame should be displayed (adjusted for speed)
-    this.currentPosition += frame.deltaTime;
-    const adjustedPosition = this.currentPosition / this.speed;
-    const targetTime = this.playbackStartTime + adjustedPosition;
-    const delay = Math.max(0, targetTime - Date.now());
+    // Reached the end (a recording with no length does not loop)
+    if (this.loopEnabled && this.header.duration > 0) {
+      this.restartLoop();
+      return;
+    }
     
-    this.playbackTimer = setTimeout(() => {
-      // Apply frame to channel data
-      if (frame.isSnapshot && frame.snapshotData) {
-        this.channels.set(frame.snapshotData);
-      } else {
-        for (const change of frame.changes) {
-          this.channels[change.channel] = change.value;
-        }
-      }
-      
-      this.currentFrame++;
-      
-      // Emit frame
-      if (this.onFrameCallback) {
-        this.onFrameCallback(this.channels);
-      }
-      
-      // Emit position update (throttled - every 100ms worth of playback)
-      if (this.onPositionCallback && this.header) {
-        this.onPositionCallback(this.currentPosition, this.header.duration);
+    this.setState("finished");
+    if (this.onFinishedCallback) {
+      this.onFinishedCallback();
+    }
+  }
+  
+  /**
+   * Read the next frame and any following frames with no delay
+   */
+  private readFrameGroup(): RecordingFrame[] {
+    const frames: RecordingFrame[] = [];
+    const first = this.readNextFrame();
+    if (!first) return frames;
+    frames.push(first);
+    
+    while (this.reader && this.frameOffset < this.reader.length) {
+      const offset = this.frameOffset;
+      const frame = this.readNextFrame();
+      if (!frame || frame.deltaTime > 0) {
+        this.frameOffset = offset;
+        break;
       }
-      
-      // Schedule next frame
-      this.scheduleNextFrame();
-    }, delay);
+      frames.push(frame);
+    }
+    
+    return frames;
   }
   
   /**
-   * Read the next frame from the buffer
+   * Read the next frame from the read-ahead buffer
    */
   private readNextFrame(): RecordingFrame | null {
-    if (!this.frameData || this.frameOffset >= this.frameData.length) {
+    if (!this.reader || !this.header || this.frameOffset >= this.reader.length) {
       return null;
     }
     
+    // A whole frame fits in the read-ahead window
+    const { data, index } = this.reader.window(this.frameOffset, MAX_FRAME_SIZE);
+    let offset = index;
+    
     // Read delta time (varint)
-    const { value: deltaTime, bytesRead: deltaBytes } = decodeVarint(this.frameData, this.frameOffset);
-    this.frameOffset += deltaBytes;
+    const { value: deltaUnits, bytesRead: deltaBytes } = decodeVarint(data, offset);
+    offset += deltaBytes;
+    const deltaTime = deltaUnits * this.deltaScale;
+    
+    // Read universe tag (v2), v1 frames all belong to the header universe
+    let universe = this.header.universe;
+    if (this.isMultiUniverse()) {
+      if (offset + 2 > data.length) {
+        this.frameOffset = this.reader.length;
+        return null;
+      }
+      universe = data.readUInt16LE(offset);
+      offset += 2;
+    }
     
     // Read change count
-    const changeCount = this.frameData[this.frameOffset++];
-    if (changeCount === undefined) return null;
+    const changeCount = data[offset++];
+    if (changeCount === undefined) {
+      this.frameOffset = this.reader.length;
+      return null;
+    }
     
     // Check for snapshot frame
     if (changeCount === FrameType.SNAPSHOT) {
-      const snapshotData = new Uint8Array(this.frameData.subarray(this.frameOffset, this.frameOffset + TOTAL_CHANNELS));
-      this.frameOffset += TOTAL_CHANNELS;
+      // Copy, the window is reused
+      const snapshotData = new Uint8Array(data.subarray(offset, offset + TOTAL_CHANNELS));
+      offset += TOTAL_CHANNELS;
+      this.frameOffset += offset - index;
       
       return {
         deltaTime,
+        universe,
         changes: [],
         isSnapshot: true,
         snapshotData,
@@ -1056,23 +1578,25 @@ export class DMXPlayer {
     // Read change count (possibly extended)
     let actualChangeCount = changeCount;
     if (changeCount === FrameType.EXTENDED) {
-      actualChangeCount = this.frameData.readUInt16LE(this.frameOffset);
-      this.frameOffset += 2;
+      actualChangeCount = data.readUInt16LE(offset);
+      offset += 2;
     }
     
     // Read changes
     const changes: ChannelChange[] = [];
     for (let i = 0; i < actualChangeCount; i++) {
-      const channel = this.frameData.readUInt16LE(this.frameOffset);
-      this.frameOffset += 2;
-      const value = this.frameData[this.frameOffset++];
+      const channel = data.readUInt16LE(offset);
+      offset += 2;
+      const value = data[offset++];
       if (value !== undefined) {
         changes.push({ channel, value });
       }
     }
+    this.frameOffset += offset - index;
     
     return {
       deltaTime,
+      universe,
       changes,
       isSnapshot: false,
     };
@@ -1082,13 +1606,13 @@ export class DMXPlayer {
 /**
  * Create a new DMX recorder
  */
-export function createRecorder(): DMXRecorder {
-  return new DMXRecorder();
+export function createRecorder(config?: RecorderConfig): DMXRecorder {
+  return new DMXRecorder(config);
 }
 
 /**
  * Create a new DMX player
  */
-export function createPlayer(): DMXPlayer {
-  return new DMXPlayer();
+export function createPlayer(config?: PlayerConfig): DMXPlayer {
+  return new DMXPlayer(config);
 }
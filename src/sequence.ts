@@ -0,0 +1,176 @@
+/**
+ * Sequence Tracker - Counts lost, out-of-order and duplicate DMX packets
+ *
+ * Used by the protocol handlers to diagnose switches and Wi-Fi links that
+ * drop or reorder packets. Each source and universe has its own sequence.
+ */
+
+import { performance } from "perf_hooks";
+import { Protocol, SequenceStats } from "./types";
+
+/**
+ * Packets this far behind the last sequence number are late (E1.31 section 6.7.2)
+ * Anything further behind is taken as the source restarting.
+ */
+const LATE_WINDOW = 20;
+
+/** Art-Net sequence numbers run 1-255; 0 disables sequence checking */
+const ARTNET_SEQUENCE_DISABLED = 0;
+const ARTNET_SEQUENCE_RANGE = 255;
+
+/** Sources silent this long are forgotten (ms) */
+export const SEQUENCE_FORGET_MS = 60000;
+
+/**
+ * Result of checking a packet's sequence number
+ * - ok: next in sequence (or first / restarted)
+ * - lost: packets were skipped before this one
+ * - outOfOrder: arrived after a later packet
+ * - duplicate: same sequence number as the last packet
+ * - unchecked: the sender disabled sequencing (Art-Net sequence 0)
+ */
+export type SequenceResult = "ok" | "lost" | "outOfOrder" | "duplicate" | "unchecked";
+
+/**
+ * Whether a receiver discards a packet with this result (E1.31 section 6.7.2)
+ */
+export function isLatePacket(result: SequenceResult): boolean {
+  return result === "outOfOrder" || result === "duplicate";
+}
+
+/** Sequence state for one source on one universe */
+interface SequenceState {
+  stats: SequenceStats;
+  /** Last in-order sequence number (null before the first packet) */
+  last: number | null;
+  /** Arrival time of the last packet (performance.now(), ms) */
+  lastSeen: number;
+}
+
+/**
+ * Sequence Tracker
+ *
+ * Applies the protocol's sequence rules per source and universe.
+ */
+export class SequenceTracker {
+  private readonly protocol: Protocol;
+  private readonly states: Map<string, SequenceState> = new Map();
+
+  constructor(protocol: Protocol) {
+    this.protocol = protocol;
+  }
+
+  /**
+   * Check a packet's sequence number and update the source's counts
+   * @param key - Unique source identifier (CID for sACN, IP for Art-Net)
+   * @param sourceName - Name shown in the statistics
+   * @returns How the packet fits the sequence; late packets (outOfOrder, duplicate) are discarded by a real receiver
+   */
+  check(key: string, sourceName: string, universe: number, sequence: number, now: number = performance.now()): SequenceResult {
+    const stateKey = `${key}:${universe}`;
+    let state = this.states.get(stateKey);
+    if (!state) {
+      state = {
+        stats: { source: sourceName, universe, received: 0, lost: 0, outOfOrder: 0, duplicates: 0, discarded: 0 },
+        last: null,
+        lastSeen: now,
+      };
+      this.states.set(stateKey, state);
+    }
+
+    state.lastSeen = now;
+    state.stats.received++;
+    state.stats.source = sourceName;
+
+    if (this.protocol === "artnet" && sequence === ARTNET_SEQUENCE_DISABLED) {
+      state.last = null;
+      return "unchecked";
+    }
+
+    if (state.last === null) {
+      state.last = sequence;
+      return "ok";
+    }
+
+    const diff = this.difference(sequence, state.last);
+
+    if (diff === 0) {
+      state.stats.duplicates++;
+      return "duplicate";
+    }
+
+    if (diff < 0 && diff > -LATE_WINDOW) {
+      state.stats.outOfOrder++;
+      // It was counted as lost when the later packet arrived
+      if (state.stats.lost > 0) state.stats.lost--;
+      return "outOfOrder";
+    }
+
+    state.last = sequence;
+    if (diff > 1) {
+      state.stats.lost += diff - 1;
+      return "lost";
+    }
+    return "ok";
+  }
+
+  /**
+   * Record that a late packet was discarded
+   */
+  markDiscarded(key: string, universe: number): void {
+    const state = this.states.get(`${key}:${universe}`);
+    if (state) state.stats.discarded++;
+  }
+
+  /**
+   * Signed distance from the last sequence number, wrapping around
+   * sACN uses 0-255; Art-Net skips 0 and uses 1-255.
+   */
+  private difference(sequence: number, last: number): number {
+    if (this.protocol === "artnet") {
+      let diff = (sequence - last + ARTNET_SEQUENCE_RANGE) % ARTNET_SEQUENCE_RANGE;
+      if (diff > ARTNET_SEQUENCE_RANGE / 2) diff -= ARTNET_SEQUENCE_RANGE;
+      return diff;
+    }
+
+    // E1.31: 8-bit signed difference
+    const diff = (sequence - last) & 0xff;
+    return diff > 127 ? diff - 256 : diff;
+  }
+
+  /**
+   * Get statistics for every source on a universe
+   */
+  getStats(universe: number): SequenceStats[] {
+    const stats: SequenceStats[] = [];
+    for (const state of this.states.values()) {
+      if (state.stats.universe === universe) stats.push({ ...state.stats });
+    }
+    return stats;
+  }
+
+  /**
+   * Forget sources silent for longer than SEQUENCE_FORGET_MS
+   */
+  prune(now: number = performance.now()): void {
+    for (const [stateKey, state] of this.states) {
+      if (now - state.lastSeen > SEQUENCE_FORGET_MS) {
+        this.states.delete(stateKey);
+      }
+    }
+  }
+
+  /**
+   * Forget every source
+   */
+  clear(): void {
+    this.states.clear();
+  }
+}
+
+/**
+ * Create a sequence tracker for a protocol
+ */
+export function createSequenceTracker(protocol: Protocol): SequenceTracker {
+  return new SequenceTracker(protocol);
+}
@@ -4,8 +4,10 @@
 
 import inquirer from 'inquirer';
 import os from 'os';
-import { Protocol, NetworkInterface, CLIOptions, MonitorConfig, ArtNetNode, isValidIPv4, isValidUniverse, formatUniverseForDisplay } from "./types";
+import { Protocol, NetworkInterface, CLIOptions, MonitorConfig, ArtNetNode, SACNDiscoveredSource, isValidIPv4, isValidUniverse, isValidSACNUniverse, formatUniverseForDisplay, STOP_POLICIES } from "./types";
 import { ConfigError, NetworkError } from "./errors";
+import { describePort, summarizePorts } from "./protocols/artnet-packets";
+import { MAX_REFRESH_RATE } from "./transmitter";
 import { logDebug, logInfo } from "./logger";
 
 /**
@@ -195,14 +197,31 @@ export function displayDiscoveredNodes(nodes: ArtNetNode[]): void {
     if (node.firmwareVersion) {
       console.log(`     Firmware: ${node.firmwareVersion}`);
     }
-    if (node.universes.length > 0) {
+    if (node.ports.length > 0) {
       // Display as 1-indexed for user clarity (Art-Net wire format is 0-indexed)
-      console.log(`     Universes: ${node.universes.map((u) => u + 1).join(", ")}`);
+      console.log(`     Ports:`);
+      node.ports.forEach((port) => {
+        console.log(`       ${port.bindIndex}.${port.port + 1}: ${describePort(port, (u) => u + 1)}`);
+      });
+    }
+    if (node.nodeReport) {
+      console.log(`     Report: ${node.nodeReport}`);
     }
   });
   console.log("\n-----------------------------------------\n");
 }
 
+/**
+ * Describe the ports of a node that use a universe, e.g. " - Out U1 (active) DMX512"
+ */
+function formatUniverseDirections(node: ArtNetNode, universe: number): string {
+  const ports = node.ports.filter(
+    (p) => (p.isOutput && p.outputUniverse === universe) || (p.isInput && p.inputUniverse === universe)
+  );
+  if (ports.length === 0) return "";
+  return ` - ${ports.map((p) => describePort(p, (u) => u + 1)).join("; ")}`;
+}
+
 /** Special return value indicating user wants to refresh the node list */
 export const REFRESH_NODE_LIST = Symbol("REFRESH_NODE_LIST");
 
@@ -226,7 +245,7 @@ export async function promptNodeSelection(nodes: ArtNetNode[], hasNewNodes: bool
   // Add node choices first
   nodes.forEach((node, index) => {
     // Display universes as 1-indexed for user clarity (Art-Net wire format is 0-indexed)
-    const universeStr = node.universes.length > 0 ? ` [Universes: ${node.universes.map((u) => u + 1).join(", ")}]` : "";
+    const universeStr = node.ports.length > 0 ? ` [${summarizePorts(node.ports, (u) => u + 1)}]` : "";
     choices.push({
       name: `${node.shortName || "Unknown"} (${node.ip})${universeStr}`,
       value: index,
@@ -291,7 +310,7 @@ export async function promptUniverseFromNode(node: ArtNetNode): Promise<number |
       message: `Select universe from ${node.shortName}:`,
       // Display as 1-indexed for user, but value is 0-indexed wire format
       choices: node.universes.map((u) => ({
-        name: `Universe ${u + 1}`,
+        name: `Universe ${u + 1}${formatUniverseDirections(node, u)}`,
         value: u,
       })),
     },
@@ -358,6 +377,93 @@ export async function promptSACNUniverse(): Promise<number> {
   return universe;
 }
 
+/**
+ * Display sources heard through sACN universe discovery
+ */
+export function displayDiscoveredSACNSources(sources: SACNDiscoveredSource[]): void {
+  if (sources.length === 0) {
+    console.log("\nNo sACN universe discovery received.");
+    return;
+  }
+
+  console.log(`\n--- sACN Sources Announcing Universes (${sources.length}) ---`);
+  sources.forEach((source, index) => {
+    console.log(`\n  ${index + 1}. ${source.sourceName || "Unknown"} (${source.address})`);
+    console.log(`     Universes: ${source.universes.length > 0 ? formatUniverseRanges(source.universes) : "none"}`);
+  });
+  console.log("\n-----------------------------------------\n");
+}
+
+/** Special return value indicating user wants to refresh the sACN source list */
+export const REFRESH_SOURCE_LIST = Symbol("REFRESH_SOURCE_LIST");
+
+/**
+ * Prompt for a universe announced through sACN universe discovery
+ * @returns Selected universe, null for manual entry, or REFRESH_SOURCE_LIST to refresh
+ */
+export async function promptDiscoveredSACNUniverse(sources: SACNDiscoveredSource[]): Promise<number | null | typeof REFRESH_SOURCE_LIST> {
+  // Source names per announced universe
+  const universeSources = new Map<number, string[]>();
+  for (const source of sources) {
+    for (const universe of source.universes.filter(isValidUniverse)) {
+      universeSources.set(universe, [...(universeSources.get(universe) ?? []), source.sourceName || source.address]);
+    }
+  }
+
+  const choices: Array<{ name: string; value: number }> = Array.from(universeSources.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([universe, names]) => ({
+      name: `Universe ${universe} - ${names.join(", ")}`,
+      value: universe,
+    }));
+
+  choices.push({ name: "🔄 Refresh list", value: -2 });
+  choices.push({ name: "Skip - Enter universe manually", value: -1 });
+
+  const { selection } = await inquirer.prompt<{ selection: number }>([
+    {
+      type: "list",
+      name: "selection",
+      message: "Select an sACN universe to monitor:",
+      choices,
+    },
+  ]);
+
+  if (selection === -2) {
+    return REFRESH_SOURCE_LIST;
+  }
+
+  if (selection === -1) {
+    return null;
+  }
+
+  return selection;
+}
+
+/**
+ * Format a sorted universe list compactly, e.g. [1,2,3,5] -> "1-3, 5"
+ */
+export function formatUniverseRanges(universes: number[]): string {
+  const ranges: string[] = [];
+  let rangeStart: number | null = null;
+  let previous: number | null = null;
+
+  for (const universe of universes) {
+    if (rangeStart === null || previous === null) {
+      rangeStart = universe;
+    } else if (universe !== previous + 1) {
+      ranges.push(rangeStart === previous ? `${rangeStart}` : `${rangeStart}-${previous}`);
+      rangeStart = universe;
+    }
+    previous = universe;
+  }
+  if (rangeStart !== null && previous !== null) {
+    ranges.push(rangeStart === previous ? `${rangeStart}` : `${rangeStart}-${previous}`);
+  }
+
+  return ranges.join(", ");
+}
+
 /**
  * Validate CLI options
  */
@@ -373,6 +479,48 @@ function validateCLIOptions(options: CLIOptions): void {
   if (options.universe !== undefined && !isValidUniverse(options.universe)) {
     throw ConfigError.invalidOption("universe", options.universe, "must be a valid universe number (Art-Net: 0-32767, sACN: 1-63999)");
   }
+
+  if (options.universes !== undefined) {
+    if (options.universes.length === 0) {
+      throw ConfigError.invalidOption("universes", options.universes, 'must be a list or range of universes, e.g. "1-8,12"');
+    }
+    const invalid = options.universes.find((u) => !isValidUniverse(u));
+    if (invalid !== undefined) {
+      throw ConfigError.invalidOption("universes", invalid, "must only contain valid universe numbers (Art-Net: 0-32767, sACN: 1-63999)");
+    }
+  }
+
+  if (options.pollInterval !== undefined && (!Number.isFinite(options.pollInterval) || options.pollInterval < 0)) {
+    throw ConfigError.invalidOption("poll-interval", options.pollInterval, "must be a number of seconds (0 disables polling)");
+  }
+
+  validatePlaybackOptions(options);
+}
+
+/**
+ * Validate the CLI options used by playback mode (which skips setup)
+ */
+export function validatePlaybackOptions(options: CLIOptions): void {
+  if (options.syncUniverse !== undefined && options.syncUniverse !== 0 && !isValidSACNUniverse(options.syncUniverse)) {
+    throw ConfigError.invalidOption("sync-universe", options.syncUniverse, "must be an sACN universe number (1-63999, 0 disables sync)");
+  }
+
+  if (options.refreshRate !== undefined && (!Number.isFinite(options.refreshRate) || options.refreshRate < 0 || options.refreshRate > MAX_REFRESH_RATE)) {
+    throw ConfigError.invalidOption("refresh-rate", options.refreshRate, `must be a rate in Hz up to ${MAX_REFRESH_RATE} (0 sends only on keep-alive)`);
+  }
+
+  // Keep-alive resends no faster than the highest refresh rate
+  if (options.keepAlive !== undefined && (!Number.isFinite(options.keepAlive) || options.keepAlive < 0 || (options.keepAlive > 0 && options.keepAlive < 1 / MAX_REFRESH_RATE))) {
+    throw ConfigError.invalidOption("keep-alive", options.keepAlive, `must be 0 (disabled) or at least ${(1 / MAX_REFRESH_RATE).toFixed(3)} seconds`);
+  }
+
+  if (options.onStop !== undefined && !STOP_POLICIES.includes(options.onStop)) {
+    throw ConfigError.invalidOption("on-stop", options.onStop, 'must be "hold", "fade" or "blackout"');
+  }
+
+  if (options.fadeTime !== undefined && (!Number.isFinite(options.fadeTime) || options.fadeTime < 0)) {
+    throw ConfigError.invalidOption("fade-time", options.fadeTime, "must be a number of seconds");
+  }
 }
 
 /**
@@ -391,7 +539,7 @@ export function hasAllRequiredOptions(cliOptions: CLIOptions): boolean {
   // For Art-Net: broadcast defaults to true if not specified
   const hasProtocol = !!cliOptions.protocol;
   const hasAddress = !!(cliOptions.address || cliOptions.interface);
-  const hasUniverse = cliOptions.universe !== undefined;
+  const hasUniverse = cliOptions.universe !== undefined || (cliOptions.universes?.length ?? 0) > 0;
 
   return hasProtocol && hasAddress && hasUniverse;
 }
@@ -477,6 +625,9 @@ export async function runSetup(cliOptions: CLIOptions): Promise<MonitorConfig> {
     }
   }
 
+  // In multi-universe mode, the first listed universe is shown first
+  const selectedUniverse = cliOptions.universe ?? cliOptions.universes?.[0];
+
   const config: MonitorConfig = {
     protocol,
     bindAddress,
@@ -484,7 +635,8 @@ export async function runSetup(cliOptions: CLIOptions): Promise<MonitorConfig> {
     netmask,
     useMulticast,
     useBroadcast,
-    selectedUniverse: cliOptions.universe,
+    selectedUniverse,
+    selectedUniverses: cliOptions.universes,
     verbose: cliOptions.verbose ?? false,
     logFile: cliOptions.logFile,
   };
@@ -508,7 +660,11 @@ export async function confirmStart(config: MonitorConfig): Promise<boolean> {
     console.log(`Broadcast: ${config.useBroadcast ? "Yes" : "No"}`);
   }
 
-  if (config.selectedUniverse !== undefined) {
+  if (config.selectedUniverses && config.selectedUniverses.length > 1) {
+    // Display universes in 1-based format
+    const displayUniverses = config.selectedUniverses.map((u) => formatUniverseForDisplay(u, config.protocol));
+    console.log(`Universes: ${formatUniverseRanges(displayUniverses)} (${displayUniverses.length} total)`);
+  } else if (config.selectedUniverse !== undefined) {
     // Display universe in 1-based format
     const displayUniverse = formatUniverseForDisplay(config.selectedUniverse, config.protocol);
     console.log(`Universe:  ${displayUniverse}`);
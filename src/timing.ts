@@ -0,0 +1,189 @@
+/**
+ * Timing Analyzer - Inter-packet timing and refresh-rate analysis
+ *
+ * Used by the protocol handlers to measure when each source's packets
+ * arrive on each universe. Flicker is usually a timing problem: irregular
+ * refresh, bursts, or gaps long enough for receivers to drop the source.
+ */
+
+import { performance } from "perf_hooks";
+import { TimingStats } from "./types";
+import { logInfo, logWarn } from "./logger";
+
+/** Number of recent inter-arrival times the statistics cover */
+const TIMING_WINDOW = 1000;
+
+/** Gaps longer than the sACN network data loss timeout count as stalls (ms) */
+export const STALL_TIMEOUT_MS = 2500;
+
+/** Sources silent this long are forgotten (ms) */
+export const TIMING_FORGET_MS = 60000;
+
+/** Upper bounds of the inter-arrival histogram buckets (ms); one more bucket holds everything longer */
+export const TIMING_HISTOGRAM_BOUNDS = [5, 10, 20, 25, 30, 40, 50, 100, 250, 1000];
+
+/** Timing state for one source on one universe */
+interface TimingState {
+  source: string;
+  universe: number;
+  /** Ring buffer of inter-arrival times (ms) */
+  intervals: Float64Array;
+  /** Next write position and number of valid entries */
+  next: number;
+  count: number;
+  /** Arrival time of the last packet (performance.now(), ms) */
+  lastArrival: number;
+  lastPacket: Date;
+  stalls: number;
+  longestStall: number;
+  /** Stall has already been counted and reported for the current gap */
+  stalled: boolean;
+}
+
+/**
+ * Timing Analyzer
+ *
+ * Keeps a rolling window of inter-arrival times per source and universe.
+ * The owning handler calls checkStalls() and prune() on a timer, so stalls are
+ * counted whether or not anyone is reading the statistics.
+ */
+export class TimingAnalyzer {
+  private readonly states: Map<string, TimingState> = new Map();
+
+  /**
+   * Record a packet arrival
+   * @param key - Unique source identifier (CID for sACN, IP for Art-Net)
+   * @param sourceName - Name shown in the statistics
+   */
+  record(key: string, sourceName: string, universe: number, now: number = performance.now()): void {
+    const stateKey = `${key}:${universe}`;
+    const state = this.states.get(stateKey);
+    if (!state) {
+      this.states.set(stateKey, {
+        source: sourceName,
+        universe,
+        intervals: new Float64Array(TIMING_WINDOW),
+        next: 0,
+        count: 0,
+        lastArrival: now,
+        lastPacket: new Date(),
+        stalls: 0,
+        longestStall: 0,
+        stalled: false,
+      });
+      return;
+    }
+
+    const interval = now - state.lastArrival;
+    if (interval > STALL_TIMEOUT_MS) {
+      // A stall is not a refresh interval; keep it out of the window
+      if (!state.stalled) state.stalls++;
+      state.longestStall = Math.max(state.longestStall, interval);
+      logInfo(`${sourceName} resumed on universe ${universe} after ${(interval / 1000).toFixed(1)}s`);
+    } else {
+      state.intervals[state.next] = interval;
+      state.next = (state.next + 1) % TIMING_WINDOW;
+      state.count = Math.min(state.count + 1, TIMING_WINDOW);
+    }
+
+    state.source = sourceName;
+    state.lastArrival = now;
+    state.lastPacket = new Date();
+    state.stalled = false;
+  }
+
+  /**
+   * Count and report sources that have gone silent for longer than STALL_TIMEOUT_MS
+   */
+  checkStalls(now: number = performance.now()): void {
+    for (const state of this.states.values()) {
+      const silence = now - state.lastArrival;
+      if (silence > STALL_TIMEOUT_MS && !state.stalled) {
+        state.stalled = true;
+        state.stalls++;
+        logWarn(`${state.source} stalled on universe ${state.universe}: no packets for ${(silence / 1000).toFixed(1)}s`);
+      }
+    }
+  }
+
+  /**
+   * Forget sources silent for longer than TIMING_FORGET_MS
+   */
+  prune(now: number = performance.now()): void {
+    for (const [stateKey, state] of this.states) {
+      if (now - state.lastArrival > TIMING_FORGET_MS) {
+        this.states.delete(stateKey);
+      }
+    }
+  }
+
+  /**
+   * Get timing statistics for every source, ordered by universe
+   */
+  getStats(): TimingStats[] {
+    const now = performance.now();
+    const stats: TimingStats[] = [];
+    for (const state of this.states.values()) {
+      stats.push(this.summarize(state, now));
+    }
+    return stats.sort((a, b) => a.universe - b.universe || a.source.localeCompare(b.source));
+  }
+
+  /**
+   * Forget every source
+   */
+  clear(): void {
+    this.states.clear();
+  }
+
+  /**
+   * Compute statistics over a source's window
+   */
+  private summarize(state: TimingState, now: number): TimingStats {
+    // Oldest first, so jitter compares consecutive intervals
+    const intervals: number[] = [];
+    const start = state.count < TIMING_WINDOW ? 0 : state.next;
+    for (let i = 0; i < state.count; i++) {
+      intervals.push(state.intervals[(start + i) % TIMING_WINDOW]!);
+    }
+
+    const histogram = new Array<number>(TIMING_HISTOGRAM_BOUNDS.length + 1).fill(0);
+    let sum = 0;
+    let jitterSum = 0;
+    intervals.forEach((interval, index) => {
+      sum += interval;
+      if (index > 0) jitterSum += Math.abs(interval - intervals[index - 1]!);
+      const bucket = TIMING_HISTOGRAM_BOUNDS.findIndex((bound) => interval < bound);
+      histogram[bucket === -1 ? TIMING_HISTOGRAM_BOUNDS.length : bucket]!++;
+    });
+
+    const sorted = intervals.slice().sort((a, b) => a - b);
+    const mean = intervals.length > 0 ? sum / intervals.length : 0;
+
+    const silence = now - state.lastArrival;
+
+    return {
+      source: state.source,
+      universe: state.universe,
+      samples: intervals.length,
+      minInterval: sorted[0] ?? 0,
+      meanInterval: mean,
+      maxInterval: sorted[sorted.length - 1] ?? 0,
+      p99Interval: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.99))] ?? 0,
+      jitter: intervals.length > 1 ? jitterSum / (intervals.length - 1) : 0,
+      refreshRate: mean > 0 ? 1000 / mean : 0,
+      histogram,
+      stalls: state.stalls,
+      longestStall: Math.max(state.longestStall, state.stalled ? silence : 0),
+      stalled: state.stalled,
+      lastPacket: state.lastPacket,
+    };
+  }
+}
+
+/**
+ * Create a timing analyzer
+ */
+export function createTimingAnalyzer(): TimingAnalyzer {
+  return new TimingAnalyzer();
+}
@@ -6,22 +6,40 @@
 
 import dgram from "dgram";
 import crypto from "crypto";
-import { Sender } from "sacn";
-import { Protocol, TOTAL_CHANNELS, ARTNET_PORT, ARTNET_BROADCAST } from "./types";
+import { performance } from "perf_hooks";
+import { Protocol, TOTAL_CHANNELS, ARTNET_PORT, ARTNET_BROADCAST, SACN_PORT } from "./types";
 import { logInfo, logError, logDebug } from "./logger";
+import { buildArtSync } from "./protocols/artnet-packets";
+import { E131Options, E131_DISCOVERY_UNIVERSE, E131_DISCOVERY_UNIVERSES_PER_PAGE, E131_UNIVERSE_DISCOVERY_INTERVAL, buildE131DataPacket, buildE131DiscoveryPacket, buildE131SyncPacket, universeToMulticastAddress } from "./protocols/e131";
 
 /** Art-Net packet header */
 const ARTNET_HEADER = Buffer.from("Art-Net\0");
 const ARTNET_OPCODE_DMX = 0x5000;
 
+/** Stream_Terminated packets sent when stopping (E1.31 section 6.2.6) */
+const SACN_TERMINATE_PACKETS = 3;
+
+/** Default longest gap before the last frame is resent (seconds), below the 2.5 s sACN data loss timeout */
+export const DEFAULT_KEEPALIVE_INTERVAL = 1;
+
+/** Highest refresh rate (Hz), a full DMX512 frame rate */
+export const MAX_REFRESH_RATE = 44;
+
+/** Longest wait between refresh checks (ms) */
+const REFRESH_TICK_MS = 25;
+
 /** Common transmitter interface */
 export interface DMXTransmitter {
   /** Start the transmitter */
   start(): Promise<void>;
   /** Stop the transmitter */
   stop(): Promise<void>;
-  /** Send DMX channel data */
-  send(channels: Uint8Array): void;
+  /** Send DMX channel data (to the configured universe unless another is given) */
+  send(channels: Uint8Array, universe?: number): void;
+  /** Send a frame again to keep receivers alive, without starting a new synchronized frame */
+  resend(channels: Uint8Array, universe?: number): void;
+  /** Tell receivers we stopped sending (sACN Stream_Terminated; nothing for Art-Net) */
+  terminate(): Promise<void>;
   /** Get the protocol type */
   getProtocol(): Protocol;
 }
@@ -34,6 +52,8 @@ export interface ArtNetTransmitterConfig {
   universe: number;
   /** Bind address for the socket */
   bindAddress?: string;
+  /** Send ArtSync after each frame so nodes output all universes together */
+  sync?: boolean;
 }
 
 /** sACN transmitter configuration */
@@ -46,6 +66,10 @@ export interface SACNTransmitterConfig {
   priority?: number;
   /** Network interface to use */
   interfaceAddress?: string;
+  /** Mark packets as preview data (for visualisers, not live fixtures) */
+  preview?: boolean;
+  /** Sync universe (1-63999); data is applied on its sync packets. 0 = unsynchronized */
+  syncAddress?: number;
 }
 
 /**
@@ -56,14 +80,18 @@ export interface SACNTransmitterConfig {
 export class ArtNetTransmitter implements DMXTransmitter {
   private socket: dgram.Socket | null = null;
   private readonly config: ArtNetTransmitterConfig;
-  private sequence = 0;
+  /** Sequence number per universe (0-255, wraps around) */
+  private readonly sequences: Map<number, number> = new Map();
   private isRunning = false;
+  /** Pending ArtSync for the universes sent in the current tick */
+  private syncImmediate: NodeJS.Immediate | null = null;
 
   constructor(config: ArtNetTransmitterConfig) {
     this.config = {
       targetAddress: config.targetAddress ?? ARTNET_BROADCAST,
       universe: config.universe,
       bindAddress: config.bindAddress ?? "0.0.0.0",
+      sync: config.sync ?? false,
     };
   }
 
@@ -128,6 +156,11 @@ export class ArtNetTransmitter implements DMXTransmitter {
 
     logInfo("Stopping Art-Net transmitter");
 
+    if (this.syncImmediate) {
+      clearImmediate(this.syncImmediate);
+      this.syncImmediate = null;
+    }
+
     return new Promise((resolve) => {
       if (!this.socket) {
         resolve();
@@ -144,7 +177,42 @@ export class ArtNetTransmitter implements DMXTransmitter {
   }
 
   /**
-   * Send DMX data via Art-Net
+   * Send DMX data via Art-Net, followed by ArtSync when enabled
+   */
+  send(channels: Uint8Array, universe: number = this.config.universe): void {
+    if (!this.socket || !this.isRunning) {
+      return;
+    }
+
+    this.sendDmx(channels, universe);
+
+    // One ArtSync follows all universes sent in the same tick (one playback frame)
+    if (this.config.sync && !this.syncImmediate) {
+      this.syncImmediate = setImmediate(() => {
+        this.syncImmediate = null;
+        this.sendSync();
+      });
+    }
+  }
+
+  /**
+   * Resend DMX data without ArtSync; nodes already output this frame
+   */
+  resend(channels: Uint8Array, universe: number = this.config.universe): void {
+    if (!this.socket || !this.isRunning) {
+      return;
+    }
+
+    this.sendDmx(channels, universe);
+  }
+
+  /**
+   * Art-Net has no stream termination; nodes hold or time out on their own
+   */
+  async terminate(): Promise<void> {}
+
+  /**
+   * Send an ArtDmx packet
    *
    * Packet structure:
    * Offset | Size | Description
@@ -158,10 +226,8 @@ export class ArtNetTransmitter implements DMXTransmitter {
    * 16     | 2    | Length (big-endian)
    * 18     | n    | DMX data
    */
-  send(channels: Uint8Array): void {
-    if (!this.socket || !this.isRunning) {
-      return;
-    }
+  private sendDmx(channels: Uint8Array, universe: number): void {
+    if (!this.socket) return;
 
     const dataLength = Math.min(channels.length, TOTAL_CHANNELS);
     const packet = Buffer.alloc(18 + dataLength);
@@ -175,15 +241,16 @@ export class ArtNetTransmitter implements DMXTransmitter {
     // Protocol version (big-endian)
     packet.writeUInt16BE(14, 10);
 
-    // Sequence (0-255, wraps around)
-    packet.writeUInt8(this.sequence, 12);
-    this.sequence = (this.sequence + 1) & 0xff;
+    // Sequence (per universe, wraps around)
+    const sequence = this.sequences.get(universe) ?? 0;
+    packet.writeUInt8(sequence, 12);
+    this.sequences.set(universe, (sequence + 1) & 0xff);
 
     // Physical port (0)
     packet.writeUInt8(0, 13);
 
     // Universe (little-endian)
-    packet.writeUInt16LE(this.config.universe, 14);
+    packet.writeUInt16LE(universe, 14);
 
     // Data length (big-endian)
     packet.writeUInt16BE(dataLength, 16);
@@ -200,30 +267,60 @@ export class ArtNetTransmitter implements DMXTransmitter {
       }
     });
   }
+
+  /**
+   * Send ArtSync to the ArtDmx target so nodes output the frame
+   */
+  private sendSync(): void {
+    if (!this.socket || !this.isRunning) return;
+
+    this.socket.send(buildArtSync(), ARTNET_PORT, this.config.targetAddress!, (error) => {
+      if (error) {
+        logError(error, "Failed to send ArtSync");
+      }
+    });
+  }
 }
 
 /**
  * sACN (E1.31) DMX Transmitter
  *
- * Sends sACN packets to multicast address for the universe.
+ * Builds E1.31 data packets itself (no percentage conversion) and sends them
+ * to the multicast address for the universe, so values match the recording
+ * byte for byte.
  */
 export class SACNTransmitter implements DMXTransmitter {
-  private sender: Sender | null = null;
+  private socket: dgram.Socket | null = null;
   private readonly config: SACNTransmitterConfig;
   private isRunning = false;
   /** Unique CID (Component Identifier) for this transmitter instance */
   private readonly cid: Buffer;
+  /** Sequence number per universe (0-255, wraps around) */
+  private readonly sequences: Map<number, number> = new Map();
+  /** Universes sent to since the stream was last terminated */
+  private readonly liveUniverses: Set<number> = new Set();
+  /** Universes announced in universe discovery (the configured one plus every one sent to) */
+  private readonly universes: Set<number> = new Set();
+  /** Timer for universe discovery announcements */
+  private discoveryTimer: NodeJS.Timeout | null = null;
+  /** Sequence number for sync packets (separate from the data universes) */
+  private syncSequence = 0;
+  /** Pending sync packet for the frames sent in the current tick */
+  private syncImmediate: NodeJS.Immediate | null = null;
 
   constructor(config: SACNTransmitterConfig) {
     this.config = {
       universe: config.universe,
       sourceName: config.sourceName ?? "DMX Monitor Playback",
-      priority: config.priority ?? 100,
+      priority: Math.max(0, Math.min(200, config.priority ?? 100)),
       interfaceAddress: config.interfaceAddress,
+      preview: config.preview ?? false,
+      syncAddress: config.syncAddress ?? 0,
     };
     // Generate a unique CID (UUID) for this transmitter instance
     // This ensures multiple playback instances are identified as separate sources
     this.cid = crypto.randomBytes(16);
+    this.universes.add(config.universe);
   }
 
   getProtocol(): Protocol {
@@ -242,90 +339,343 @@ export class SACNTransmitter implements DMXTransmitter {
       cid: this.cid.toString("hex").substring(0, 8) + "...",
     });
 
-    try {
-      // Find interface address if not specified
-      let ifaceAddress = this.config.interfaceAddress;
-      if (!ifaceAddress) {
-        const os = await import("os");
-        const interfaces = os.networkInterfaces();
-        for (const [, addrs] of Object.entries(interfaces)) {
-          if (!addrs) continue;
-          for (const addr of addrs) {
-            if (addr.family === "IPv4" && !addr.internal) {
-              ifaceAddress = addr.address;
-              break;
-            }
+    // Find interface address if not specified
+    let ifaceAddress = this.config.interfaceAddress;
+    if (!ifaceAddress) {
+      const os = await import("os");
+      const interfaces = os.networkInterfaces();
+      for (const [, addrs] of Object.entries(interfaces)) {
+        if (!addrs) continue;
+        for (const addr of addrs) {
+          if (addr.family === "IPv4" && !addr.internal) {
+            ifaceAddress = addr.address;
+            break;
           }
-          if (ifaceAddress) break;
         }
+        if (ifaceAddress) break;
       }
+    }
 
-      this.sender = new Sender({
-        universe: this.config.universe,
-        iface: ifaceAddress,
-        reuseAddr: true,
-        defaultPacketOptions: {
-          cid: this.cid,
-          sourceName: this.config.sourceName,
-          priority: this.config.priority,
-        },
-      });
+    return new Promise((resolve, reject) => {
+      try {
+        this.socket = dgram.createSocket({
+          type: "udp4",
+          reuseAddr: true,
+        });
 
-      this.isRunning = true;
-      logInfo("sACN transmitter started", {
-        universe: this.config.universe,
-        interface: ifaceAddress,
-      });
-    } catch (error) {
-      logError(error, "Failed to start sACN transmitter");
-      throw error;
-    }
+        this.socket.on("error", (error: Error) => {
+          logError(error, "sACN transmitter socket error");
+          if (!this.isRunning) {
+            reject(error);
+          }
+        });
+
+        this.socket.bind(0, () => {
+          if (!this.socket) return;
+
+          // Send multicast out of the selected interface
+          if (ifaceAddress) {
+            try {
+              this.socket.setMulticastInterface(ifaceAddress);
+            } catch (error) {
+              logDebug("Failed to set multicast interface", { error, ifaceAddress });
+            }
+          }
+
+          this.isRunning = true;
+
+          // Announce our universes now and every 10 seconds, independent of playback
+          this.sendDiscovery();
+          this.discoveryTimer = setInterval(() => {
+            this.sendDiscovery();
+          }, E131_UNIVERSE_DISCOVERY_INTERVAL);
+
+          logInfo("sACN transmitter started", {
+            universe: this.config.universe,
+            interface: ifaceAddress,
+          });
+          resolve();
+        });
+      } catch (error) {
+        logError(error, "Failed to start sACN transmitter");
+        reject(error);
+      }
+    });
   }
 
   async stop(): Promise<void> {
-    if (!this.isRunning || !this.sender) {
+    if (!this.isRunning || !this.socket) {
       return;
     }
 
     logInfo("Stopping sACN transmitter");
+    await this.terminate();
 
-    try {
-      this.sender.close();
-      this.sender = null;
-      this.isRunning = false;
-      logInfo("sACN transmitter stopped");
-    } catch (error) {
-      logError(error, "Error stopping sACN transmitter");
+    if (this.discoveryTimer) {
+      clearInterval(this.discoveryTimer);
+      this.discoveryTimer = null;
     }
+    if (this.syncImmediate) {
+      clearImmediate(this.syncImmediate);
+      this.syncImmediate = null;
+    }
+
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve();
+        return;
+      }
+
+      this.socket.close(() => {
+        this.socket = null;
+        this.isRunning = false;
+        logInfo("sACN transmitter stopped");
+        resolve();
+      });
+    });
   }
 
   /**
-   * Send DMX data via sACN
-   *
-   * The sacn library expects channel values as percentages (0-100),
-   * so we need to convert from DMX values (0-255).
+   * Send DMX data via sACN, followed by a sync packet when a sync universe is set
+   */
+  send(channels: Uint8Array, universe: number = this.config.universe): void {
+    if (!this.socket || !this.isRunning) {
+      return;
+    }
+
+    this.sendData(channels, universe);
+
+    // One sync packet follows all universes sent in the same tick (one playback frame)
+    if (this.config.syncAddress !== 0 && !this.syncImmediate) {
+      this.syncImmediate = setImmediate(() => {
+        this.syncImmediate = null;
+        this.sendSync();
+      });
+    }
+  }
+
+  /**
+   * Resend DMX data without a sync packet; receivers already output this frame
    */
-  send(channels: Uint8Array): void {
-    if (!this.sender || !this.isRunning) {
+  resend(channels: Uint8Array, universe: number = this.config.universe): void {
+    if (!this.socket || !this.isRunning) {
       return;
     }
 
-    // Convert to sACN payload format (object with 1-based channel keys, percentage values)
-    const payload: { [channel: number]: number } = {};
-    for (let i = 0; i < Math.min(channels.length, TOTAL_CHANNELS); i++) {
-      const value = channels[i] ?? 0;
-      // Convert DMX (0-255) to percentage (0-100)
-      payload[i + 1] = Math.round((value / 255) * 100);
+    this.sendData(channels, universe);
+  }
+
+  /**
+   * Send a data packet and keep the universe live and announced
+   */
+  private sendData(channels: Uint8Array, universe: number): void {
+    this.liveUniverses.add(universe);
+    this.universes.add(universe);
+    this.sendPacket(channels, universe, this.baseOptions());
+  }
+
+  /**
+   * Send three Stream_Terminated packets on every live universe so receivers
+   * release this source at once instead of waiting for the data loss timeout
+   * @returns When the packets have been handed to the network
+   */
+  async terminate(): Promise<void> {
+    if (!this.socket || !this.isRunning || this.liveUniverses.size === 0) return;
+
+    const universes = Array.from(this.liveUniverses);
+    this.liveUniverses.clear();
+    logInfo("Terminating sACN stream", { universes });
+
+    const sends: Promise<void>[] = [];
+    for (const universe of universes) {
+      for (let i = 0; i < SACN_TERMINATE_PACKETS; i++) {
+        sends.push(this.sendPacket(new Uint8Array(TOTAL_CHANNELS), universe, this.baseOptions() | E131Options.STREAM_TERMINATED));
+      }
     }
+    await Promise.all(sends);
+  }
+
+  /**
+   * Options byte for data packets
+   */
+  private baseOptions(): number {
+    return this.config.preview ? E131Options.PREVIEW_DATA : 0;
+  }
+
+  /**
+   * Send a synchronization packet to the sync universe
+   */
+  private sendSync(): void {
+    if (!this.socket || !this.isRunning) return;
+
+    const packet = buildE131SyncPacket({
+      cid: this.cid,
+      sequence: this.syncSequence,
+      syncAddress: this.config.syncAddress!,
+    });
+    this.syncSequence = (this.syncSequence + 1) & 0xff;
+
+    this.socket.send(packet, SACN_PORT, universeToMulticastAddress(this.config.syncAddress!), (error) => {
+      if (error) {
+        logError(error, "Failed to send sACN sync packet");
+      }
+    });
+  }
+
+  /**
+   * Send universe discovery listing every universe we send, 512 universes per page
+   */
+  private sendDiscovery(): void {
+    if (!this.socket) return;
+
+    const universes = Array.from(this.universes).sort((a, b) => a - b);
+    const lastPage = Math.max(0, Math.ceil(universes.length / E131_DISCOVERY_UNIVERSES_PER_PAGE) - 1);
+
+    for (let page = 0; page <= lastPage; page++) {
+      const packet = buildE131DiscoveryPacket({
+        cid: this.cid,
+        sourceName: this.config.sourceName!,
+        page,
+        lastPage,
+        universes: universes.slice(page * E131_DISCOVERY_UNIVERSES_PER_PAGE, (page + 1) * E131_DISCOVERY_UNIVERSES_PER_PAGE),
+      });
+
+      this.socket.send(packet, SACN_PORT, universeToMulticastAddress(E131_DISCOVERY_UNIVERSE), (error) => {
+        if (error) {
+          logError(error, "Failed to send sACN universe discovery");
+        }
+      });
+    }
+
+    logDebug("Sent sACN universe discovery", { universes: universes.length, pages: lastPage + 1 });
+  }
+
+  /**
+   * Build and send a single E1.31 data packet, advancing the universe's sequence number
+   * @returns When the packet has been sent (or failed)
+   */
+  private sendPacket(channels: Uint8Array, universe: number, options: number): Promise<void> {
+    if (!this.socket) return Promise.resolve();
+
+    const sequence = this.sequences.get(universe) ?? 0;
+    const packet = buildE131DataPacket({
+      cid: this.cid,
+      sourceName: this.config.sourceName!,
+      priority: this.config.priority!,
+      sequence,
+      options,
+      universe,
+      syncAddress: this.config.syncAddress,
+      data: channels.subarray(0, TOTAL_CHANNELS),
+    });
+    this.sequences.set(universe, (sequence + 1) & 0xff);
 
-    try {
-      this.sender.send({
-        payload,
-        sourceName: this.config.sourceName,
-        priority: this.config.priority,
+    return new Promise((resolve) => {
+      this.socket!.send(packet, SACN_PORT, universeToMulticastAddress(universe), (error) => {
+        if (error) {
+          logError(error, "Failed to send sACN packet");
+        }
+        resolve();
       });
-    } catch (error) {
-      logError(error, "Failed to send sACN packet");
+    });
+  }
+}
+
+/** Refresh configuration */
+export interface RefreshConfig {
+  /** Universe of the wrapped transmitter, used when send() is given none */
+  universe: number;
+  /** Resend each universe's last frame at this rate (Hz); 0 = only on keep-alive */
+  refreshRate?: number;
+  /** Longest gap before a universe's last frame is resent (seconds); 0 disables */
+  keepAlive?: number;
+}
+
+/**
+ * Refreshing Transmitter
+ *
+ * Wraps a transmitter and resends each universe's last frame whenever it has
+ * not been sent for the refresh interval. Recordings only hold changes, so
+ * without this a static look (or a paused player) goes silent and receivers
+ * drop the source.
+ */
+export class RefreshTransmitter implements DMXTransmitter {
+  private readonly transmitter: DMXTransmitter;
+  private readonly universe: number;
+  /** Longest gap between sends of a universe (ms); 0 = never resend */
+  private readonly interval: number;
+  /** Time between refresh checks (ms) */
+  private readonly tick: number;
+  /** Last frame and send time per universe */
+  private readonly frames: Map<number, { channels: Uint8Array; sentAt: number }> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(transmitter: DMXTransmitter, config: RefreshConfig) {
+    this.transmitter = transmitter;
+    this.universe = config.universe;
+    const refreshRate = config.refreshRate ?? 0;
+    const keepAlive = config.keepAlive ?? DEFAULT_KEEPALIVE_INTERVAL;
+    const intervals = [refreshRate > 0 ? 1000 / refreshRate : 0, keepAlive * 1000].filter((ms) => ms > 0);
+    this.interval = intervals.length > 0 ? Math.min(...intervals) : 0;
+    this.tick = Math.max(1, Math.min(this.interval / 2, REFRESH_TICK_MS));
+  }
+
+  getProtocol(): Protocol {
+    return this.transmitter.getProtocol();
+  }
+
+  async start(): Promise<void> {
+    await this.transmitter.start();
+
+    if (this.interval > 0 && !this.refreshTimer) {
+      this.refreshTimer = setInterval(() => {
+        this.refresh();
+      }, this.tick);
+      logInfo("DMX refresh enabled", { intervalMs: Math.round(this.interval) });
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.frames.clear();
+    await this.transmitter.stop();
+  }
+
+  send(channels: Uint8Array, universe: number = this.universe): void {
+    this.transmitter.send(channels, universe);
+
+    // Copy, the caller may reuse its buffer
+    this.frames.set(universe, { channels: channels.slice(0, TOTAL_CHANNELS), sentAt: performance.now() });
+  }
+
+  resend(channels: Uint8Array, universe: number = this.universe): void {
+    this.transmitter.resend(channels, universe);
+  }
+
+  /**
+   * Stop refreshing and terminate the stream; the next send starts it again
+   */
+  async terminate(): Promise<void> {
+    this.frames.clear();
+    await this.transmitter.terminate();
+  }
+
+  /**
+   * Resend every universe that has been quiet for the refresh interval
+   * Resends carry no sync: the frame is already on stage, and a sync per
+   * keep-alive would tell receivers a new frame started.
+   */
+  private refresh(): void {
+    const now = performance.now();
+    for (const [universe, frame] of this.frames) {
+      // Half a tick early rather than a whole tick late
+      if (now - frame.sentAt >= this.interval - this.tick / 2) {
+        this.transmitter.resend(frame.channels, universe);
+        frame.sentAt = now;
+      }
     }
   }
 }
@@ -341,19 +691,30 @@ export function createTransmitter(
     sourceName?: string;
     priority?: number;
     interfaceAddress?: string;
+    syncAddress?: number;
+    artSync?: boolean;
+    refreshRate?: number;
+    keepAlive?: number;
   }
 ): DMXTransmitter {
-  if (protocol === "artnet") {
-    return new ArtNetTransmitter({
-      universe,
-      targetAddress: options?.targetAddress,
-    });
-  } else {
-    return new SACNTransmitter({
-      universe,
-      sourceName: options?.sourceName,
-      priority: options?.priority,
-      interfaceAddress: options?.interfaceAddress,
-    });
-  }
+  const transmitter =
+    protocol === "artnet"
+      ? new ArtNetTransmitter({
+          universe,
+          targetAddress: options?.targetAddress,
+          sync: options?.artSync,
+        })
+      : new SACNTransmitter({
+          universe,
+          sourceName: options?.sourceName,
+          priority: options?.priority,
+          interfaceAddress: options?.interfaceAddress,
+          syncAddress: options?.syncAddress,
+        });
+
+  return new RefreshTransmitter(transmitter, {
+    universe,
+    refreshRate: options?.refreshRate,
+    keepAlive: options?.keepAlive,
+  });
 }
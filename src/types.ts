@@ -28,6 +28,8 @@ export interface CLIOptions {
   interface?: string;
   address?: string;
   universe?: number;
+  /** Universes to monitor simultaneously (multi-universe mode) */
+  universes?: number[];
   multicast?: boolean;
   broadcast?: boolean;
   verbose?: boolean;
@@ -42,6 +44,28 @@ export interface CLIOptions {
   speed?: number;
   /** sACN priority for playback (0-200, default 100) */
   priority?: number;
+  /** Art-Net node poll interval in seconds while monitoring (0 disables) */
+  pollInterval?: number;
+  /** Keep every sACN source's latest frame and compute HTP/LTP merges */
+  merge?: boolean;
+  /** sACN sync universe for playback (0 disables; default: first universe of multi-universe recordings) */
+  syncUniverse?: number;
+  /** Send ArtSync after each frame in Art-Net playback */
+  artSync?: boolean;
+  /** Discard out-of-order and duplicate packets like a receiver would */
+  discardLate?: boolean;
+  /** Resend the last frame of each universe at this rate during playback (Hz, 0 = keep-alive only) */
+  refreshRate?: number;
+  /** Longest gap before playback resends the last frame (seconds, 0 disables) */
+  keepAlive?: number;
+  /** Record frame times in microseconds instead of milliseconds */
+  microsecondTimestamps?: boolean;
+  /** Save seek indexes next to recordings ("<recording>.idx") */
+  seekIndex?: boolean;
+  /** What playback does to the output on stop and quit (default blackout) */
+  onStop?: StopPolicy;
+  /** Fade time for the fade stop policy (seconds) */
+  fadeTime?: number;
 }
 
 /** Configuration after setup is complete */
@@ -54,6 +78,8 @@ export interface MonitorConfig {
   useMulticast: boolean;
   useBroadcast: boolean;
   selectedUniverse?: number;
+  /** All universes to monitor (multi-universe mode, includes selectedUniverse) */
+  selectedUniverses?: number[];
   verbose: boolean;
   logFile?: string;
 }
@@ -66,6 +92,46 @@ export interface DMXPacket {
   priority?: number;
   sequence?: number;
   timestamp: Date;
+  /** sACN component identifier of the sender (hex) */
+  cid?: string;
+  /** sACN framing options byte (preview data, stream terminated, force sync) */
+  options?: number;
+  /** sACN synchronization universe (0 = unsynchronized) */
+  syncAddress?: number;
+  /** DMX512 start code of the payload (0x00 for dimmer levels) */
+  startCode?: number;
+  /** Per-channel winners when sACN sources send per-address priority (0xDD) */
+  arbitration?: ChannelArbitration;
+}
+
+/** Result of per-channel source arbitration */
+export interface ChannelArbitration {
+  /** Winning priority per channel (0 when no source drives the channel) */
+  priorities: Uint8Array;
+  /** Index into `sources` of the winning source per channel (NO_CHANNEL_OWNER if none) */
+  owners: Uint8Array;
+  /** Names of the competing sources */
+  sources: string[];
+}
+
+/** Owner index for channels no source drives */
+export const NO_CHANNEL_OWNER = 0xff;
+
+/** Latest frame from one sACN source */
+export interface SourceFrame {
+  sourceName: string;
+  priority: number;
+  channels: Uint8Array;
+}
+
+/** HTP and LTP merges of the latest frame from every source on a universe */
+export interface SourceMerge {
+  /** Highest level per channel across all sources */
+  htp: Uint8Array;
+  /** Per channel, the level from the source that changed it most recently */
+  ltp: Uint8Array;
+  /** Each source's latest frame, highest priority first */
+  sources: SourceFrame[];
 }
 
 /** Universe tracking information */
@@ -74,6 +140,12 @@ export interface UniverseInfo {
   lastSeen: Date;
   packetCount: number;
   source?: string;
+  /** Packet rate (set by the universe manager) */
+  packetsPerSecond?: number;
+  /** Number of non-zero channels in the latest packet */
+  activeChannels?: number;
+  /** Average channel level (0-255) in the latest packet */
+  averageLevel?: number;
 }
 
 /** Statistics for display */
@@ -87,6 +159,8 @@ export interface MonitorStats {
   lastPacketTime: Date | null;
   startTime: Date;
   errors: number;
+  /** Universes being monitored (more than one in multi-universe mode) */
+  monitoredUniverses?: number[];
 }
 
 /** Display grid dimensions */
@@ -111,6 +185,8 @@ export const SACN_MAX_UNIVERSE = 63999;
 
 /** sACN source information for priority tracking */
 export interface SACNSourceInfo {
+  /** Universe this source is sending */
+  universe: number;
   /** Source name from sACN packet */
   sourceName: string;
   /** Source IP address */
@@ -121,6 +197,116 @@ export interface SACNSourceInfo {
   lastSeen: Date;
   /** Whether this is the active (highest priority) source */
   isActive: boolean;
+  /** Source is sending per-address priority (start code 0xDD) */
+  perAddressPriority?: boolean;
+  /** Source is sending preview data (for visualisers, not live fixtures) */
+  preview?: boolean;
+}
+
+/** Statistics for one sACN synchronization address */
+export interface SyncStats {
+  /** Universe the sync packets are addressed to */
+  syncAddress: number;
+  /** Sync packets received */
+  packets: number;
+  /** Mean and worst interval between recent sync packets (ms) */
+  meanInterval: number;
+  maxInterval: number;
+  /** Mean time recent frames were held waiting for their sync packet (ms) */
+  meanHold: number;
+  lastSync: Date | null;
+  /** True while sync packets arrive; data is processed unsynchronized otherwise */
+  active: boolean;
+}
+
+/**
+ * sACN source transition
+ * - appeared: first packet from the source on the universe
+ * - terminated: the source sent Stream_Terminated and was released
+ * - timedOut: nothing from the source for the network data loss timeout (2.5 s)
+ * - tookOver: the source became the universe's active (highest priority) source
+ */
+export type SourceEventType = "appeared" | "terminated" | "timedOut" | "tookOver";
+
+/** Entry in the sACN source event timeline */
+export interface SourceEvent {
+  type: SourceEventType;
+  time: Date;
+  universe: number;
+  sourceName: string;
+  sourceAddress?: string;
+  priority: number;
+}
+
+/** Sequence number statistics for one source on one universe */
+export interface SequenceStats {
+  /** Source name (sACN) or IP address (Art-Net) */
+  source: string;
+  universe: number;
+  received: number;
+  /** Packets skipped in the sequence (less those that arrived late) */
+  lost: number;
+  /** Packets that arrived after a later packet */
+  outOfOrder: number;
+  /** Packets repeating the previous sequence number */
+  duplicates: number;
+  /** Late packets dropped (with discarding enabled) */
+  discarded: number;
+}
+
+/** Inter-packet timing statistics for one source on one universe */
+export interface TimingStats {
+  /** Source name (sACN) or IP address (Art-Net) */
+  source: string;
+  universe: number;
+  /** Inter-arrival times in the rolling window */
+  samples: number;
+  /** Inter-arrival times over the window (ms) */
+  minInterval: number;
+  meanInterval: number;
+  maxInterval: number;
+  p99Interval: number;
+  /** Mean change between consecutive inter-arrival times (ms) */
+  jitter: number;
+  /** Refresh rate from the mean interval (Hz) */
+  refreshRate: number;
+  /** Inter-arrival counts per histogram bucket */
+  histogram: number[];
+  /** Gaps longer than the network data loss timeout (2.5 s) */
+  stalls: number;
+  longestStall: number;
+  /** No packet for longer than the timeout right now */
+  stalled: boolean;
+  lastPacket: Date;
+}
+
+/** ArtSync statistics for one Art-Net controller */
+export interface ArtSyncStats {
+  /** Controller IP address */
+  source: string;
+  /** ArtSync packets received */
+  packets: number;
+  /** Mean and worst interval between recent ArtSync packets (ms) */
+  meanInterval: number;
+  maxInterval: number;
+  /** Mean and worst delay from the controller's last ArtDmx to its ArtSync (ms) */
+  meanDelay: number;
+  maxDelay: number;
+  lastSync: Date | null;
+  /** True while the controller is syncing (ArtSync within the last 4 seconds) */
+  active: boolean;
+}
+
+/** sACN source announced through E1.31 universe discovery */
+export interface SACNDiscoveredSource {
+  /** Component identifier (hex) */
+  cid: string;
+  sourceName: string;
+  /** IP address the discovery packets came from */
+  address: string;
+  /** Every universe the source lists, ascending */
+  universes: number[];
+  lastSeen: Date;
 }
 
 /** Event types for protocol handlers */
@@ -129,8 +315,20 @@ export interface ProtocolEvents {
   error: (error: Error) => void;
   universeDiscovered: (universe: number) => void;
   nodeDiscovered: (node: ArtNetNode) => void;
-  /** Emitted when multiple sACN sources are detected on the same universe */
-  sourcesChanged: (sources: SACNSourceInfo[]) => void;
+  /** Emitted when a polled Art-Net node stops replying */
+  nodeLost: (node: ArtNetNode) => void;
+  /** Emitted when a lost Art-Net node replies again */
+  nodeRecovered: (node: ArtNetNode) => void;
+  /** Emitted when the RDM devices behind an Art-Net node change */
+  rdmDevicesChanged: (nodeIp: string) => void;
+  /** Emitted when the sACN source list for a universe changes */
+  sourcesChanged: (sources: SACNSourceInfo[], universe: number) => void;
+  /** Emitted when a source's E1.31 universe discovery list changes, or a source stops announcing */
+  discoveredSourcesChanged: (sources: SACNDiscoveredSource[]) => void;
+  /** Emitted in sACN merge mode on every source's packet (null once a universe is down to one source) */
+  sourcesMerged: (merge: SourceMerge | null, universe: number) => void;
+  /** Emitted when an sACN source appears, terminates, times out or takes over a universe */
+  sourceEvent: (event: SourceEvent) => void;
   close: () => void;
 }
 
@@ -143,16 +341,102 @@ export interface ProtocolHandler {
   off<K extends keyof ProtocolEvents>(event: K, listener: ProtocolEvents[K]): void;
 }
 
+/** Art-Net node port decoded from ArtPollReply */
+export interface ArtNetNodePort {
+  /** Bind index of the reply that described this port (1 = root device) */
+  bindIndex: number;
+  /** Port number within that reply (0-3) */
+  port: number;
+  /** Port protocol (e.g. "DMX512", "MIDI") */
+  protocol: string;
+  /** Port can send DMX onto the network (from SwIn) */
+  isInput: boolean;
+  /** Port can output DMX from the network (from SwOut) */
+  isOutput: boolean;
+  /** 15-bit port address of the input */
+  inputUniverse: number;
+  /** 15-bit port address of the output */
+  outputUniverse: number;
+  /** GoodInput status bits */
+  goodInput: number;
+  /** GoodOutput status bits */
+  goodOutput: number;
+}
+
 /** Art-Net node discovered via ArtPoll */
 export interface ArtNetNode {
   ip: string;
   shortName: string;
   longName: string;
+  /** 15-bit port addresses of every input and output port */
   universes: number[];
   macAddress?: string;
   manufacturer?: string;
   firmwareVersion?: string;
   lastSeen: Date;
+  /** Ports from all of the node's replies, ordered by bind index and port */
+  ports: ArtNetNodePort[];
+  /** Node status text (e.g. "#0001 [0042] Power On Tests successful") */
+  nodeReport?: string;
+  /** Status1 bits (indicators, port-address authority, RDM, UBEA) */
+  status1?: number;
+  /** Status2 bits (web config, DHCP, 15-bit port addresses, sACN) */
+  status2?: number;
+  /** OEM code */
+  oem?: number;
+  /** Equipment style (node, controller, media server, ...) */
+  style?: number;
+  /** False once the node has stopped answering ArtPoll */
+  online: boolean;
+  /** When the node last went offline or came back online */
+  statusChangedAt?: Date;
+}
+
+/** RDM DEVICE_INFO response */
+export interface RdmDeviceInfo {
+  /** RDM protocol version (0x0100 for E1.20) */
+  protocolVersion: number;
+  deviceModelId: number;
+  productCategory: number;
+  softwareVersionId: number;
+  dmxFootprint: number;
+  /** Current personality (1-based) */
+  currentPersonality: number;
+  personalityCount: number;
+  /** DMX start address (1-512, 0xFFFF if the device has no footprint) */
+  dmxStartAddress: number;
+  subDeviceCount: number;
+  sensorCount: number;
+}
+
+/** RDM SENSOR_VALUE response */
+export interface RdmSensorValue {
+  sensor: number;
+  present: number;
+  lowest: number;
+  highest: number;
+  recorded: number;
+}
+
+/** RDM device found behind an Art-Net node */
+export interface RdmDevice {
+  /** Device UID ("MMMM:DDDDDDDD") */
+  uid: string;
+  /** IP of the node the device is connected to */
+  nodeIp: string;
+  /** 15-bit port address of the node output the device is on */
+  universe: number;
+  deviceInfo?: RdmDeviceInfo;
+  label?: string;
+  /** DMX start address (1-512) */
+  dmxStartAddress?: number;
+  sensors: RdmSensorValue[];
+  /** When the device's parameters were last read */
+  lastUpdated?: Date;
+  /** Error from the last attempt to read the device */
+  error?: string;
+  /** Identify (locate) mode was switched on from the monitor */
+  identifying?: boolean;
 }
 
 /** Art-Net discovery result */
@@ -196,6 +480,19 @@ export function isValidSACNUniverse(universe: unknown): universe is UniverseNumb
   return typeof universe === "number" && universe >= 1 && universe <= SACN_MAX_UNIVERSE && Number.isInteger(universe);
 }
 
+/** Add a sample to a statistics window, dropping the oldest once it holds `limit` samples */
+export function pushSample(samples: number[], value: number, limit: number): void {
+  samples.push(value);
+  if (samples.length > limit) {
+    samples.shift();
+  }
+}
+
+/** Mean of a sample window (0 when empty) */
+export function meanOf(samples: number[]): number {
+  return samples.length > 0 ? samples.reduce((sum, value) => sum + value, 0) / samples.length : 0;
+}
+
 /**
  * Convert universe number to display format (1-indexed for user display)
  * Art-Net uses 0-indexed internally, sACN uses 1-indexed
@@ -204,6 +501,32 @@ export function formatUniverseForDisplay(universe: number, protocol: Protocol):
   return protocol === "artnet" ? universe + 1 : universe;
 }
 
+/**
+ * Parse a universe list such as "1-8,12,20-24" into a sorted, de-duplicated array
+ * Returns null if the list is malformed or runs past the highest universe of
+ * either protocol; per-protocol range validation is left to the caller
+ */
+export function parseUniverseList(input: string): number[] | null {
+  const universes = new Set<number>();
+
+  for (const part of input.split(",")) {
+    const trimmed = part.trim();
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(trimmed);
+    if (!match) return null;
+
+    const start = parseInt(match[1]!, 10);
+    const end = match[2] !== undefined ? parseInt(match[2], 10) : start;
+    // Reject before expanding, so a huge range cannot exhaust memory
+    if (end < start || end > SACN_MAX_UNIVERSE) return null;
+
+    for (let universe = start; universe <= end; universe++) {
+      universes.add(universe);
+    }
+  }
+
+  return Array.from(universes).sort((a, b) => a - b);
+}
+
 /** Validate IP address format */
 export function isValidIPv4(ip: string): boolean {
   const parts = ip.split(".");
@@ -221,10 +544,17 @@ export function isValidIPv4(ip: string): boolean {
 /** Magic bytes for DMX recording file format */
 export const DMXREC_MAGIC = "DMXR";
 
-/** Current recording file format version */
-export const DMXREC_VERSION = 1;
+/**
+ * Current recording file format version
+ * v1: single universe, frames are untagged
+ * v2: universe table after the header, every frame tagged with its universe
+ */
+export const DMXREC_VERSION = 2;
+
+/** First version with universe-tagged frames */
+export const DMXREC_VERSION_MULTI_UNIVERSE = 2;
 
-/** Recording file header (32 bytes) */
+/** Recording file header (32 bytes, followed by the universe table in v2) */
 export interface RecordingHeader {
   /** Magic bytes - always "DMXR" */
   magic: string;
@@ -234,8 +564,10 @@ export interface RecordingHeader {
   flags: number;
   /** Protocol used (0=sACN, 1=Art-Net) */
   protocol: number;
-  /** Universe number */
+  /** Universe number (first universe of a multi-universe recording) */
   universe: number;
+  /** All universes in the recording, ascending ([universe] for v1 files) */
+  universes: number[];
   /** Start timestamp (Unix ms) */
   startTime: number;
   /** Total duration in ms */
@@ -250,6 +582,8 @@ export const RecordingFlags = {
   NONE: 0x00,
   /** Recording includes full snapshots */
   HAS_SNAPSHOTS: 0x01,
+  /** Frame delta times are in microseconds instead of milliseconds */
+  MICROSECOND_DELTAS: 0x02,
 } as const;
 
 /** Special change count values */
@@ -270,8 +604,10 @@ export interface ChannelChange {
 
 /** A recorded frame with delta changes */
 export interface RecordingFrame {
-  /** Time offset from previous frame in ms */
+  /** Time offset from previous frame in ms (fractional for microsecond recordings) */
   deltaTime: number;
+  /** Universe this frame applies to */
+  universe: number;
   /** Channel changes in this frame */
   changes: ChannelChange[];
   /** If true, this is a full snapshot frame */
@@ -302,6 +638,29 @@ export interface RecordingStats {
 /** Playback state */
 export type PlaybackState = "idle" | "playing" | "paused" | "finished";
 
+/**
+ * What playback does to the output on stop and quit
+ * - hold: keep the last look
+ * - fade: fade the last look to black
+ * - blackout: send all channels at zero
+ */
+export type StopPolicy = "hold" | "fade" | "blackout";
+
+/** Stop policies accepted on the command line */
+export const STOP_POLICIES: readonly StopPolicy[] = ["hold", "fade", "blackout"];
+
+/** Playback scheduler accuracy */
+export interface PlaybackDrift {
+  /** How late the last frame was sent after its due time (ms) */
+  lastLateness: number;
+  /** Mean lateness over recent frames (ms) */
+  meanLateness: number;
+  /** Worst lateness since playback started (ms) */
+  maxLateness: number;
+  /** Overdue frames applied together with a later frame instead of replayed late */
+  coalescedFrames: number;
+}
+
 /** Playback statistics */
 export interface PlaybackStats {
   /** Current playback state */
@@ -316,4 +675,6 @@ export interface PlaybackStats {
   totalFrames: number;
   /** File being played */
   filePath: string | null;
+  /** Scheduler lateness and coalescing */
+  drift: PlaybackDrift;
 }
\ No newline at end of file
@@ -2,7 +2,7 @@
  * Universe detection and selection logic for DMX Monitor
  */
 
-import { UniverseInfo, ProtocolHandler, isValidUniverse } from './types';
+import { UniverseInfo, ProtocolHandler, DMXPacket, ChannelArbitration, TOTAL_CHANNELS, isValidUniverse } from './types';
 import { UniverseError } from './errors';
 import { logDebug, logInfo, logWarn } from './logger';
 import { promptUniverseSelection } from './setup';
@@ -11,12 +11,31 @@ import { promptUniverseSelection } from './setup';
 export interface UniverseManagerConfig {
   /** Pre-selected universe (skip detection) */
   selectedUniverse?: number;
+  /** Universes to monitor simultaneously (multi-universe mode) */
+  selectedUniverses?: number[];
   /** Detection timeout in milliseconds */
   detectionTimeout?: number;
   /** Minimum universes to detect before prompting */
   minUniversesBeforePrompt?: number;
 }
 
+/** Live channel buffer and statistics for a monitored universe */
+export interface MonitoredUniverse {
+  universe: number;
+  /** Latest channel values */
+  channels: Uint8Array;
+  packetsReceived: number;
+  packetsPerSecond: number;
+  lastPacketTime: Date | null;
+  source?: string;
+  /** Packet count at the last rate calculation */
+  lastRateCount: number;
+  /** Per-channel winners from the latest packet (sACN per-address priority only) */
+  arbitration: ChannelArbitration | null;
+  /** sACN sync address from the latest packet (0 = unsynchronized) */
+  syncAddress: number;
+}
+
 /** Default configuration values */
 const DEFAULT_DETECTION_TIMEOUT = 5000; // 5 seconds
 const DEFAULT_MIN_UNIVERSES = 1;
@@ -28,6 +47,10 @@ export class UniverseManager {
   private readonly config: UniverseManagerConfig;
   private readonly discoveredUniverses: Map<number, UniverseInfo> = new Map();
   private selectedUniverse: number | null = null;
+  /** Per-universe buffers for every monitored universe, in ascending order */
+  private readonly monitored: Map<number, MonitoredUniverse> = new Map();
+  /** Packet count at the last rate calculation, per discovered universe */
+  private readonly discoveredRateCounts: Map<number, number> = new Map();
   private detectionPromiseResolve: ((universe: number) => void) | null = null;
 
   constructor(config: UniverseManagerConfig = {}) {
@@ -35,6 +58,7 @@ export class UniverseManager {
       detectionTimeout: config.detectionTimeout ?? DEFAULT_DETECTION_TIMEOUT,
       minUniversesBeforePrompt: config.minUniversesBeforePrompt ?? DEFAULT_MIN_UNIVERSES,
       selectedUniverse: config.selectedUniverse,
+      selectedUniverses: config.selectedUniverses,
     };
 
     // If universe pre-selected, validate and set it
@@ -43,8 +67,138 @@ export class UniverseManager {
         throw UniverseError.invalidUniverse(this.config.selectedUniverse, 0, 63999);
       }
       this.selectedUniverse = this.config.selectedUniverse;
+      this.addMonitoredUniverse(this.selectedUniverse);
       logInfo(`Universe pre-selected: ${this.selectedUniverse}`);
     }
+
+    // Multi-universe mode - the first universe in the list becomes the selected one
+    if (this.config.selectedUniverses && this.config.selectedUniverses.length > 0) {
+      for (const universe of this.config.selectedUniverses) {
+        if (!isValidUniverse(universe)) {
+          throw UniverseError.invalidUniverse(universe, 0, 63999);
+        }
+        this.addMonitoredUniverse(universe);
+      }
+      if (this.selectedUniverse === null) {
+        this.selectedUniverse = this.getSelectedUniverses()[0] ?? null;
+      }
+      logInfo(`Monitoring ${this.monitored.size} universes`, { universes: this.getSelectedUniverses() });
+    }
+  }
+
+  /**
+   * Get all monitored universes in ascending order
+   */
+  getSelectedUniverses(): number[] {
+    return Array.from(this.monitored.keys()).sort((a, b) => a - b);
+  }
+
+  /**
+   * Check if a universe is being monitored
+   */
+  isMonitored(universe: number): boolean {
+    return this.monitored.has(universe);
+  }
+
+  /**
+   * Add a universe to the monitored set
+   */
+  addMonitoredUniverse(universe: number): void {
+    if (!isValidUniverse(universe)) {
+      throw UniverseError.invalidUniverse(universe, 0, 63999);
+    }
+    if (this.monitored.has(universe)) return;
+
+    this.monitored.set(universe, {
+      universe,
+      channels: new Uint8Array(TOTAL_CHANNELS),
+      packetsReceived: 0,
+      packetsPerSecond: 0,
+      lastPacketTime: null,
+      lastRateCount: 0,
+      arbitration: null,
+      syncAddress: 0,
+    });
+    logDebug(`Universe ${universe} added to monitored set`);
+  }
+
+  /**
+   * Get the live state for a monitored universe
+   */
+  getMonitoredUniverse(universe: number): MonitoredUniverse | null {
+    return this.monitored.get(universe) ?? null;
+  }
+
+  /**
+   * Store a packet in its universe's buffer and update statistics
+   * @returns The updated universe state, or null if the universe is not monitored
+   */
+  processPacket(packet: DMXPacket): MonitoredUniverse | null {
+    this.updateFromPacket(packet.universe, packet.source);
+    this.updateChannelSummary(packet);
+
+    const state = this.monitored.get(packet.universe);
+    if (!state) return null;
+
+    state.channels.set(packet.channels.subarray(0, TOTAL_CHANNELS));
+    state.packetsReceived++;
+    state.lastPacketTime = packet.timestamp;
+    if (packet.source) {
+      state.source = packet.source;
+    }
+    state.arbitration = packet.arbitration ?? null;
+    state.syncAddress = packet.syncAddress ?? 0;
+    return state;
+  }
+
+  /**
+   * Update the active channel count and average level of a discovered universe
+   */
+  private updateChannelSummary(packet: DMXPacket): void {
+    const info = this.discoveredUniverses.get(packet.universe);
+    if (!info) return;
+
+    let activeChannels = 0;
+    let total = 0;
+    const length = Math.min(packet.channels.length, TOTAL_CHANNELS);
+    for (let i = 0; i < length; i++) {
+      const value = packet.channels[i]!;
+      if (value > 0) {
+        activeChannels++;
+        total += value;
+      }
+    }
+
+    info.activeChannels = activeChannels;
+    info.averageLevel = total / TOTAL_CHANNELS;
+  }
+
+  /**
+   * Recalculate packets-per-second for every monitored and discovered universe
+   * @param intervalMs Time since the previous call
+   */
+  updatePacketRates(intervalMs: number): void {
+    for (const state of this.monitored.values()) {
+      state.packetsPerSecond = ((state.packetsReceived - state.lastRateCount) * 1000) / intervalMs;
+      state.lastRateCount = state.packetsReceived;
+    }
+
+    for (const info of this.discoveredUniverses.values()) {
+      const lastCount = this.discoveredRateCounts.get(info.universe) ?? info.packetCount;
+      info.packetsPerSecond = ((info.packetCount - lastCount) * 1000) / intervalMs;
+      this.discoveredRateCounts.set(info.universe, info.packetCount);
+    }
+  }
+
+  /**
+   * Clear channel values for one monitored universe, or all of them
+   */
+  clearChannels(universe?: number): void {
+    for (const state of this.monitored.values()) {
+      if (universe === undefined || state.universe === universe) {
+        state.channels.fill(0);
+      }
+    }
   }
 
   /**
@@ -61,6 +215,13 @@ export class UniverseManager {
     return Array.from(this.discoveredUniverses.values());
   }
 
+  /**
+   * Get every universe seen on the network, in ascending order (for the overview screen)
+   */
+  getUniverseOverview(): UniverseInfo[] {
+    return this.getDiscoveredUniverses().sort((a, b) => a.universe - b.universe);
+  }
+
   /**
    * Check if a universe is selected
    */
@@ -177,6 +338,7 @@ export class UniverseManager {
         throw UniverseError.noUniversesDetected();
       }
       this.selectedUniverse = universe;
+      this.addMonitoredUniverse(universe);
       console.log(`Auto-selected universe ${this.selectedUniverse} (only one detected)`);
       return this.selectedUniverse;
     }
@@ -190,6 +352,7 @@ export class UniverseManager {
     console.log('');
 
     this.selectedUniverse = await promptUniverseSelection(universes);
+    this.addMonitoredUniverse(this.selectedUniverse);
     logInfo(`User selected universe: ${this.selectedUniverse}`);
 
     return this.selectedUniverse;
@@ -204,19 +367,20 @@ export class UniverseManager {
     }
 
     this.selectedUniverse = universe;
+    this.addMonitoredUniverse(universe);
     logInfo(`Universe manually selected: ${universe}`);
   }
 
   /**
-   * Check if a packet should be processed (matches selected universe)
+   * Check if a packet should be processed (matches a monitored universe)
    */
   shouldProcessPacket(universe: number): boolean {
     // If no universe selected yet, process all (for discovery)
-    if (this.selectedUniverse === null) {
+    if (this.monitored.size === 0) {
       return true;
     }
 
-    return universe === this.selectedUniverse;
+    return this.monitored.has(universe);
   }
 
   /**
@@ -224,6 +388,7 @@ export class UniverseManager {
    */
   clearDiscovered(): void {
     this.discoveredUniverses.clear();
+    this.discoveredRateCounts.clear();
     logDebug('Cleared discovered universes');
   }
 
@@ -233,6 +398,7 @@ export class UniverseManager {
   getStats(): {
     totalUniverses: number;
     selectedUniverse: number | null;
+    monitoredUniverses: number[];
     universes: Array<{
       universe: number;
       packetCount: number;
@@ -243,6 +409,7 @@ export class UniverseManager {
     return {
       totalUniverses: this.discoveredUniverses.size,
       selectedUniverse: this.selectedUniverse,
+      monitoredUniverses: this.getSelectedUniverses(),
       universes: Array.from(this.discoveredUniverses.values()).map(info => ({
         universe: info.universe,
         packetCount: info.packetCount,
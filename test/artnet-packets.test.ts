@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PortType, getArtPollReplyPorts, parseArtPollReply, toPortAddress } from "../src/protocols/artnet-packets";
+import { ArtNetHandler } from "../src/protocols/artnet";
+import { ProtocolError } from "../src/errors";
+
+/**
+ * Lay out an ArtPollReply by hand
+ */
+function pollReply(fields: { net: number; subNet: number; bindIndex: number; shortName: string; swOut: number[]; swIn?: number[] }): Buffer {
+  const msg = Buffer.alloc(239);
+  msg.write("Art-Net\0", 0, "ascii");
+  msg.writeUInt16LE(0x2100, 8);
+  Buffer.from([10, 0, 0, 20]).copy(msg, 10);
+  msg.writeUInt16LE(6454, 14);
+  msg.writeUInt16BE(0x0102, 16);
+  msg.writeUInt8(fields.net, 18);
+  msg.writeUInt8(fields.subNet, 19);
+  msg.writeUInt16LE(0x7ff0, 24);
+  msg.write(fields.shortName, 26, "ascii");
+  msg.write(`${fields.shortName} long name`, 44, "ascii");
+  msg.writeUInt16BE(fields.swOut.length, 172);
+  fields.swOut.forEach((universe, port) => {
+    msg.writeUInt8(PortType.OUTPUT | (fields.swIn ? PortType.INPUT : 0), 174 + port);
+    msg.writeUInt8(universe, 190 + port);
+    msg.writeUInt8(fields.swIn?.[port] ?? 0, 186 + port);
+  });
+  Buffer.from([0x00, 0x11, 0x22, 0x33, 0x44, 0x55]).copy(msg, 201);
+  Buffer.from([10, 0, 0, 20]).copy(msg, 207);
+  msg.writeUInt8(fields.bindIndex, 211);
+  return msg;
+}
+
+test("builds 15-bit port addresses from Net, Sub-Net and Universe", () => {
+  assert.equal(toPortAddress(0, 0, 0), 0);
+  assert.equal(toPortAddress(1, 2, 3), 0x123);
+  assert.equal(toPortAddress(0x7f, 0x0f, 0x0f), 0x7fff);
+});
+
+test("parses an ArtPollReply with Net above zero", () => {
+  const reply = parseArtPollReply(pollReply({ net: 3, subNet: 1, bindIndex: 1, shortName: "Node A", swOut: [0, 5], swIn: [2, 7] }));
+
+  assert.equal(reply.ip, "10.0.0.20");
+  assert.equal(reply.netSwitch, 3);
+  assert.equal(reply.subSwitch, 1);
+  assert.equal(reply.shortName, "Node A");
+  assert.equal(reply.macAddress, "00:11:22:33:44:55");
+  assert.equal(reply.bindIndex, 1);
+
+  const ports = getArtPollReplyPorts(reply);
+  assert.deepEqual(
+    ports.map((port) => [port.outputUniverse, port.inputUniverse]),
+    [
+      [0x310, 0x312],
+      [0x315, 0x317],
+    ]
+  );
+});
+
+test("rejects a truncated ArtPollReply", () => {
+  assert.throws(() => parseArtPollReply(Buffer.alloc(100)), ProtocolError);
+});
+
+test("merges replies with different bind indexes into one node", () => {
+  const handler = new ArtNetHandler({ bindAddress: "0.0.0.0", useBroadcast: true });
+  const rinfo = { address: "10.0.0.20", family: "IPv4" as const, port: 6454, size: 239 };
+
+  handler["handleArtPollReply"](pollReply({ net: 1, subNet: 0, bindIndex: 1, shortName: "Root", swOut: [0, 1, 2, 3] }), rinfo);
+  handler["handleArtPollReply"](pollReply({ net: 1, subNet: 1, bindIndex: 2, shortName: "Card 2", swOut: [4] }), rinfo);
+  // A repeated reply replaces that bind index's ports instead of adding to them
+  handler["handleArtPollReply"](pollReply({ net: 1, subNet: 1, bindIndex: 2, shortName: "Card 2", swOut: [5] }), rinfo);
+
+  const nodes = handler.getDiscoveredNodes();
+  assert.equal(nodes.length, 1);
+  assert.equal(nodes[0]!.shortName, "Root");
+  assert.deepEqual(
+    nodes[0]!.ports.map((port) => [port.bindIndex, port.outputUniverse]),
+    [
+      [1, 0x100],
+      [1, 0x101],
+      [1, 0x102],
+      [1, 0x103],
+      [2, 0x115],
+    ]
+  );
+  assert.deepEqual(nodes[0]!.universes, [0x100, 0x101, 0x102, 0x103, 0x115]);
+});
@@ -0,0 +1,152 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { E131Options, E131_ACN_PACKET_IDENTIFIER, StartCode, VECTOR_ROOT_E131_EXTENDED, buildE131DataPacket, buildE131DiscoveryPacket, buildE131SyncPacket, parseE131Packet, universeToMulticastAddress } from "../src/protocols/e131";
+import { ProtocolError } from "../src/errors";
+
+const CID = Buffer.from("0123456789abcdef0123456789abcdef", "hex");
+
+/**
+ * Lay out an E1.31 data packet by hand, field by field
+ */
+function dataPacket(fields: { universe: number; options?: number; startCode?: number; slots: number[] }): Buffer {
+  const length = 126 + fields.slots.length;
+  const msg = Buffer.alloc(length);
+  msg.writeUInt16BE(0x0010, 0);
+  E131_ACN_PACKET_IDENTIFIER.copy(msg, 4);
+  msg.writeUInt16BE(0x7000 | (length - 16), 16);
+  msg.writeUInt32BE(0x00000004, 18);
+  CID.copy(msg, 22);
+  msg.writeUInt16BE(0x7000 | (length - 38), 38);
+  msg.writeUInt32BE(0x00000002, 40);
+  msg.write("Console", 44, "utf8");
+  msg.writeUInt8(150, 108);
+  msg.writeUInt16BE(7, 109);
+  msg.writeUInt8(42, 111);
+  msg.writeUInt8(fields.options ?? 0, 112);
+  msg.writeUInt16BE(fields.universe, 113);
+  msg.writeUInt16BE(0x7000 | (length - 115), 115);
+  msg.writeUInt8(0x02, 117);
+  msg.writeUInt8(0xa1, 118);
+  msg.writeUInt16BE(0x0000, 119);
+  msg.writeUInt16BE(0x0001, 121);
+  msg.writeUInt16BE(fields.slots.length + 1, 123);
+  msg.writeUInt8(fields.startCode ?? StartCode.DMX, 125);
+  Buffer.from(fields.slots).copy(msg, 126);
+  return msg;
+}
+
+/**
+ * Lay out one page of a universe discovery packet by hand
+ */
+function discoveryPacket(fields: { page: number; lastPage: number; universes: number[] }): Buffer {
+  const length = 120 + fields.universes.length * 2;
+  const msg = Buffer.alloc(length);
+  msg.writeUInt16BE(0x0010, 0);
+  E131_ACN_PACKET_IDENTIFIER.copy(msg, 4);
+  msg.writeUInt16BE(0x7000 | (length - 16), 16);
+  msg.writeUInt32BE(VECTOR_ROOT_E131_EXTENDED, 18);
+  CID.copy(msg, 22);
+  msg.writeUInt16BE(0x7000 | (length - 38), 38);
+  msg.writeUInt32BE(0x00000002, 40);
+  msg.write("Console", 44, "utf8");
+  msg.writeUInt16BE(0x7000 | (length - 112), 112);
+  msg.writeUInt32BE(0x00000001, 114);
+  msg.writeUInt8(fields.page, 118);
+  msg.writeUInt8(fields.lastPage, 119);
+  fields.universes.forEach((universe, i) => msg.writeUInt16BE(universe, 120 + i * 2));
+  return msg;
+}
+
+test("parses every field of a data packet", () => {
+  const packet = parseE131Packet(dataPacket({ universe: 258, slots: [0, 127, 255] }));
+
+  assert.ok(packet && packet.type === "data");
+  assert.ok(packet.cid.equals(CID));
+  assert.equal(packet.sourceName, "Console");
+  assert.equal(packet.priority, 150);
+  assert.equal(packet.syncAddress, 7);
+  assert.equal(packet.sequence, 42);
+  assert.equal(packet.universe, 258);
+  assert.equal(packet.startCode, StartCode.DMX);
+  assert.deepEqual(Array.from(packet.data), [0, 127, 255]);
+});
+
+test("keeps the preview and stream terminated option bits", () => {
+  const packet = parseE131Packet(dataPacket({ universe: 1, options: E131Options.PREVIEW_DATA | E131Options.STREAM_TERMINATED, slots: [1] }));
+
+  assert.ok(packet && packet.type === "data");
+  assert.equal(packet.options & E131Options.PREVIEW_DATA, E131Options.PREVIEW_DATA);
+  assert.equal(packet.options & E131Options.STREAM_TERMINATED, E131Options.STREAM_TERMINATED);
+  assert.equal(packet.options & E131Options.FORCE_SYNCHRONIZATION, 0);
+});
+
+test("data packets round-trip through build and parse", () => {
+  const data = new Uint8Array(512).map((_, i) => i & 0xff);
+  const built = buildE131DataPacket({ cid: CID, sourceName: "Playback", priority: 100, sequence: 255, universe: 63999, data });
+  const packet = parseE131Packet(built);
+
+  assert.equal(built.length, 638);
+  assert.ok(packet && packet.type === "data");
+  assert.ok(packet.cid.equals(CID));
+  assert.equal(packet.sourceName, "Playback");
+  assert.equal(packet.priority, 100);
+  assert.equal(packet.syncAddress, 0);
+  assert.equal(packet.sequence, 255);
+  assert.equal(packet.options, 0);
+  assert.equal(packet.universe, 63999);
+  assert.equal(packet.startCode, StartCode.DMX);
+  assert.deepEqual(packet.data, Buffer.from(data));
+});
+
+test("built packets carry the preview and stream terminated bits", () => {
+  const options = E131Options.PREVIEW_DATA | E131Options.STREAM_TERMINATED;
+  const packet = parseE131Packet(buildE131DataPacket({ cid: CID, sourceName: "Playback", priority: 100, sequence: 0, options, universe: 1, data: new Uint8Array(512) }));
+
+  assert.ok(packet && packet.type === "data");
+  assert.equal(packet.options, options);
+});
+
+test("parses a universe discovery page", () => {
+  const packet = parseE131Packet(discoveryPacket({ page: 1, lastPage: 2, universes: [1, 2, 300] }));
+
+  assert.ok(packet && packet.type === "discovery");
+  assert.ok(packet.cid.equals(CID));
+  assert.equal(packet.sourceName, "Console");
+  assert.equal(packet.page, 1);
+  assert.equal(packet.lastPage, 2);
+  assert.deepEqual(packet.universes, [1, 2, 300]);
+});
+
+test("sync packets round-trip through build and parse", () => {
+  const packet = parseE131Packet(buildE131SyncPacket({ cid: CID, sequence: 17, syncAddress: 500 }));
+
+  assert.ok(packet && packet.type === "sync");
+  assert.ok(packet.cid.equals(CID));
+  assert.equal(packet.sequence, 17);
+  assert.equal(packet.syncAddress, 500);
+});
+
+test("discovery pages round-trip through build and parse", () => {
+  const universes = Array.from({ length: 512 }, (_, i) => i + 1000);
+  const packet = parseE131Packet(buildE131DiscoveryPacket({ cid: CID, sourceName: "Playback", page: 0, lastPage: 1, universes }));
+
+  assert.ok(packet && packet.type === "discovery");
+  assert.ok(packet.cid.equals(CID));
+  assert.equal(packet.sourceName, "Playback");
+  assert.equal(packet.page, 0);
+  assert.equal(packet.lastPage, 1);
+  assert.deepEqual(packet.universes, universes);
+});
+
+test("rejects truncated and foreign datagrams", () => {
+  const full = dataPacket({ universe: 1, slots: [1, 2, 3] });
+
+  assert.throws(() => parseE131Packet(full.subarray(0, 20)), ProtocolError);
+  assert.throws(() => parseE131Packet(full.subarray(0, full.length - 1)), ProtocolError);
+  assert.throws(() => parseE131Packet(Buffer.from("not an sACN packet at all, just some bytes")), ProtocolError);
+});
+
+test("maps universes to their multicast groups", () => {
+  assert.equal(universeToMulticastAddress(1), "239.255.0.1");
+  assert.equal(universeToMulticastAddress(258), "239.255.1.2");
+});
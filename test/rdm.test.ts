@@ -0,0 +1,124 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RdmCommandClass,
+  RdmParameterId,
+  RdmResponseType,
+  buildRdmMessage,
+  createControllerUid,
+  describeNackReason,
+  parseDeviceInfo,
+  parseDmxStartAddress,
+  parseRdmMessage,
+  parseRdmText,
+} from "../src/protocols/rdm";
+import { buildArtRdm, parseArtRdm } from "../src/protocols/artnet-packets";
+import { ArtNetHandler } from "../src/protocols/artnet";
+import { ProtocolError, RdmError } from "../src/errors";
+
+const DEVICE_UID = "4C55:00001234";
+
+test("RDM messages round-trip through build and parse", () => {
+  const controller = createControllerUid(0x42);
+  const message = buildRdmMessage({
+    destination: DEVICE_UID,
+    source: controller,
+    transactionNumber: 0x1ff,
+    subDevice: 3,
+    commandClass: RdmCommandClass.SET,
+    parameterId: RdmParameterId.DMX_START_ADDRESS,
+    parameterData: Buffer.from([0x01, 0x2c]),
+  });
+
+  assert.equal(controller, "7FF0:00000042");
+  assert.equal(message.length, 24 + 2 + 2);
+
+  const parsed = parseRdmMessage(message);
+  assert.equal(parsed.destination, DEVICE_UID);
+  assert.equal(parsed.source, controller);
+  assert.equal(parsed.transactionNumber, 0xff);
+  assert.equal(parsed.portIdOrResponseType, 1);
+  assert.equal(parsed.subDevice, 3);
+  assert.equal(parsed.commandClass, RdmCommandClass.SET);
+  assert.equal(parsed.parameterId, RdmParameterId.DMX_START_ADDRESS);
+  assert.equal(parseDmxStartAddress(parsed.parameterData), 300);
+});
+
+test("rejects RDM messages with a bad checksum or start code", () => {
+  const message = buildRdmMessage({ destination: DEVICE_UID, source: createControllerUid(1), transactionNumber: 0, commandClass: RdmCommandClass.GET, parameterId: RdmParameterId.DEVICE_INFO });
+
+  const corrupted = Buffer.from(message);
+  corrupted[corrupted.length - 1]! ^= 0xff;
+  assert.throws(() => parseRdmMessage(corrupted), ProtocolError);
+
+  const wrongStart = Buffer.from(message);
+  wrongStart[0] = 0x00;
+  assert.throws(() => parseRdmMessage(wrongStart), ProtocolError);
+
+  assert.throws(() => parseRdmMessage(message.subarray(0, 10)), ProtocolError);
+});
+
+test("ArtRdm carries the RDM message and a 15-bit universe", () => {
+  const message = buildRdmMessage({ destination: DEVICE_UID, source: createControllerUid(1), transactionNumber: 7, commandClass: RdmCommandClass.GET, parameterId: RdmParameterId.DEVICE_LABEL });
+  const artRdm = parseArtRdm(buildArtRdm(0x1234, message));
+
+  assert.equal(artRdm.universe, 0x1234);
+  assert.deepEqual(artRdm.rdmMessage, message);
+});
+
+test("decodes DEVICE_INFO and text parameters", () => {
+  const data = Buffer.alloc(19);
+  data.writeUInt16BE(0x0100, 0);
+  data.writeUInt16BE(0x0042, 2);
+  data.writeUInt16BE(12, 10);
+  data.writeUInt8(2, 12);
+  data.writeUInt8(4, 13);
+  data.writeUInt16BE(101, 14);
+  data.writeUInt8(3, 18);
+
+  const info = parseDeviceInfo(data);
+  assert.equal(info.deviceModelId, 0x42);
+  assert.equal(info.dmxFootprint, 12);
+  assert.equal(info.currentPersonality, 2);
+  assert.equal(info.personalityCount, 4);
+  assert.equal(info.dmxStartAddress, 101);
+  assert.equal(info.sensorCount, 3);
+  assert.throws(() => parseDeviceInfo(data.subarray(0, 10)), ProtocolError);
+
+  assert.equal(parseRdmText(Buffer.from("Wash 1\0\0\0", "ascii")), "Wash 1");
+});
+
+test("a NACK response rejects the pending request with its reason", async () => {
+  const handler = new ArtNetHandler({ bindAddress: "0.0.0.0", useBroadcast: true });
+  const rinfo = { address: "10.0.0.20", family: "IPv4" as const, port: 6454, size: 0 };
+  const transactionNumber = 9;
+
+  const result = new Promise<unknown>((resolve, reject) => {
+    handler["pendingRdmRequests"].set(transactionNumber, {
+      uid: DEVICE_UID,
+      parameterId: RdmParameterId.DMX_START_ADDRESS,
+      timer: setTimeout(() => reject(new Error("no response")), 1000),
+      resolve,
+      reject,
+    });
+  });
+
+  const nack = buildRdmMessage({
+    destination: handler["rdmUid"],
+    source: DEVICE_UID,
+    transactionNumber,
+    portId: RdmResponseType.NACK_REASON,
+    commandClass: RdmCommandClass.SET_RESPONSE,
+    parameterId: RdmParameterId.DMX_START_ADDRESS,
+    parameterData: Buffer.from([0x00, 0x06]),
+  });
+  handler["handleArtRdm"](buildArtRdm(0, nack), rinfo);
+
+  await assert.rejects(result, (error: unknown) => {
+    assert.ok(error instanceof RdmError);
+    assert.equal(error.nackReason, 0x0006);
+    assert.equal(error.uid, DEVICE_UID);
+    return true;
+  });
+  assert.equal(describeNackReason(0x0006), "data out of range");
+});
@@ -0,0 +1,217 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DMXPlayer, createPlayer, createRecorder } from "../src/recorder";
+import { DMXREC_MAGIC, RecordingFlags } from "../src/types";
+
+/**
+ * Play a loaded recording to the end and collect the last frame of each universe
+ */
+function playToEnd(player: DMXPlayer): Promise<Map<number, number[]>> {
+  const last = new Map<number, number[]>();
+  return new Promise((resolve) => {
+    player.onFrame((channels, universe) => last.set(universe, Array.from(channels)));
+    player.onFinished(() => resolve(last));
+    player.play();
+  });
+}
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "dmxrec-"));
+}
+
+test("a multi-universe recording plays back every universe", async () => {
+  const dir = tempDir();
+  try {
+    const recorder = createRecorder();
+    const filePath = recorder.startRecording("sacn", [2, 1], dir);
+
+    const first = new Uint8Array(512);
+    first[0] = 10;
+    first[511] = 20;
+    recorder.recordFrame(first, 1);
+
+    const second = new Uint8Array(512);
+    second[5] = 30;
+    recorder.recordFrame(second, 2);
+
+    first[0] = 11;
+    recorder.recordFrame(first, 1);
+    recorder.stopRecording();
+
+    const player = createPlayer();
+    const header = player.load(filePath);
+    assert.equal(header.magic, DMXREC_MAGIC);
+    assert.deepEqual(header.universes, [1, 2]);
+
+    const frames = await playToEnd(player);
+    assert.equal(frames.get(1)![0], 11);
+    assert.equal(frames.get(1)![511], 20);
+    assert.equal(frames.get(2)![5], 30);
+    assert.equal(frames.get(2)![0], 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a v1 recording still plays back on its header universe", async () => {
+  const dir = tempDir();
+  try {
+    // 32-byte v1 header followed by two untagged frames
+    const header = Buffer.alloc(32);
+    header.write(DMXREC_MAGIC, 0, "ascii");
+    header.writeUInt8(1, 4);
+    header.writeUInt8(0x01, 5);
+    header.writeUInt8(1, 6);
+    header.writeUInt16LE(7, 7);
+    header.writeBigInt64LE(BigInt(Date.now()), 9);
+    header.writeUInt32LE(2, 17);
+    header.writeUInt32LE(2, 21);
+
+    const frames = Buffer.from([
+      0x00, 0x01, 0x00, 0x00, 99, // delta 0, one change: channel 0 = 99
+      0x02, 0x02, 0x00, 0x00, 98, 0x09, 0x01, 77, // delta 2, two changes: channel 0 = 98, channel 265 = 77
+    ]);
+    const filePath = path.join(dir, "v1.dmxrec");
+    fs.writeFileSync(filePath, Buffer.concat([header, frames]));
+
+    const player = createPlayer();
+    const loaded = player.load(filePath);
+    assert.equal(loaded.version, 1);
+    assert.deepEqual(loaded.universes, [7]);
+
+    const played = await playToEnd(player);
+    assert.deepEqual(Array.from(played.keys()), [7]);
+    assert.equal(played.get(7)![0], 98);
+    assert.equal(played.get(7)![265], 77);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+/**
+ * Block the event loop, as a slow machine or a long garbage collection would
+ */
+function busyWait(ms: number): void {
+  const end = Date.now() + ms;
+  while (Date.now() < end);
+}
+
+test("overdue frames are coalesced into one emit per universe", async () => {
+  const dir = tempDir();
+  try {
+    const recorder = createRecorder();
+    const filePath = recorder.startRecording("sacn", [1], dir);
+    const channels = new Uint8Array(512);
+    for (let value = 1; value <= 4; value++) {
+      channels[0] = value;
+      recorder.recordFrame(channels, 1);
+      busyWait(20);
+    }
+    recorder.stopRecording();
+
+    const player = createPlayer();
+    player.load(filePath);
+    const emitted: number[] = [];
+    player.onFrame((frame) => emitted.push(frame[0]!));
+    const finished = new Promise<void>((resolve) => player.onFinished(resolve));
+
+    player.play();
+    // Every remaining frame is overdue when the player's timer finally fires
+    busyWait(150);
+    await finished;
+
+    const { drift } = player.getStats();
+    assert.equal(emitted[emitted.length - 1], 4);
+    assert.ok(emitted.length < 4);
+    assert.ok(drift.coalescedFrames >= 1);
+    assert.ok(drift.maxLateness >= 50);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("microsecond recordings keep sub-millisecond deltas and play back in milliseconds", async () => {
+  const dir = tempDir();
+  try {
+    const recorder = createRecorder({ microsecondTimestamps: true });
+    const filePath = recorder.startRecording("sacn", [1], dir);
+    const channels = new Uint8Array(512);
+    recorder.recordFrame(channels, 1);
+    busyWait(30);
+    channels[0] = 255;
+    recorder.recordFrame(channels, 1);
+    recorder.stopRecording();
+
+    const player = createPlayer();
+    const header = player.load(filePath);
+    assert.equal(header.flags & RecordingFlags.MICROSECOND_DELTAS, RecordingFlags.MICROSECOND_DELTAS);
+
+    let position = 0;
+    player.onPosition((current) => (position = current));
+    const frames = await playToEnd(player);
+
+    assert.equal(frames.get(1)![0], 255);
+    // Read as milliseconds the 30 000 us delta would put the frame 30 s in
+    assert.ok(position >= 30 && position < 100, `position ${position} ms`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("seek indexes are kept in memory unless saving them is enabled", () => {
+  const dir = tempDir();
+  try {
+    const recorder = createRecorder();
+    const filePath = recorder.startRecording("sacn", [1], dir);
+    recorder.recordFrame(new Uint8Array(512), 1);
+    recorder.stopRecording();
+
+    const player = createPlayer();
+    player.load(filePath);
+    player.seek(0);
+    assert.equal(player["frameIndexBuilt"], true);
+    player.close();
+
+    assert.deepEqual(fs.readdirSync(dir), [path.basename(filePath)]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a saved seek index is read back and dropped when the file changes", () => {
+  const dir = tempDir();
+  try {
+    const recorder = createRecorder({ saveSeekIndex: true });
+    const filePath = recorder.startRecording("sacn", [1], dir);
+    const channels = new Uint8Array(512);
+    channels[0] = 40;
+    recorder.recordFrame(channels, 1);
+    recorder.stopRecording();
+
+    const indexPath = `${filePath}.idx`;
+    assert.ok(fs.existsSync(indexPath));
+
+    const player = createPlayer({ saveSeekIndex: true });
+    player.load(filePath);
+    assert.equal(player["frameIndexBuilt"], true);
+    assert.deepEqual(player["frameIndex"].map((entry) => [entry.offset, entry.frameNumber]), [[0, 0]]);
+    player.close();
+
+    // A changed recording no longer matches its index, which is rebuilt on the first seek
+    fs.appendFileSync(filePath, Buffer.from([0x00]));
+    player.load(filePath);
+    assert.equal(player["frameIndexBuilt"], false);
+    player.seek(0);
+    assert.equal(player.getChannels(1)[0], 40);
+    player.close();
+
+    player.load(filePath);
+    assert.equal(player["frameIndexBuilt"], true);
+    player.close();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
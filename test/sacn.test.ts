@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "timers/promises";
+import { SACNHandler } from "../src/protocols/sacn";
+import { StartCode, buildE131DataPacket } from "../src/protocols/e131";
+import { DMXPacket, NO_CHANNEL_OWNER, SourceMerge } from "../src/types";
+
+const UNIVERSE = 1;
+
+/** A sender on the network, identified by its CID */
+interface Sender {
+  name: string;
+  cid: Buffer;
+  priority: number;
+  sequence: number;
+}
+
+function sender(name: string, priority: number): Sender {
+  return { name, cid: Buffer.alloc(16, name.charCodeAt(0)), priority, sequence: 0 };
+}
+
+/**
+ * Create a handler that is fed datagrams directly instead of through a socket
+ */
+function receiver(): { handler: SACNHandler; packets: DMXPacket[]; receive: (from: Sender, slots: number[], startCode?: number) => void } {
+  const handler = new SACNHandler({ bindAddress: "0.0.0.0", useMulticast: true, universes: [UNIVERSE] });
+  const packets: DMXPacket[] = [];
+  handler.on("packet", (packet) => packets.push(packet));
+
+  const receive = (from: Sender, slots: number[], startCode: number = StartCode.DMX): void => {
+    const data = new Uint8Array(512);
+    data.set(slots);
+    const msg = buildE131DataPacket({ cid: from.cid, sourceName: from.name, priority: from.priority, sequence: from.sequence++, universe: UNIVERSE, startCode, data });
+    handler["handleMessage"](msg, { address: "10.0.0.1", family: "IPv4", port: 5568, size: msg.length });
+  };
+
+  return { handler, packets, receive };
+}
+
+test("per-address priority (0xDD) picks a winner for each channel", () => {
+  const { packets, receive } = receiver();
+  const desk = sender("Desk", 100);
+  const backup = sender("Backup", 100);
+
+  receive(desk, [10, 20, 30]);
+  receive(backup, [40, 50, 60]);
+  // The desk takes channel 1, gives up channel 2 to a higher priority and does not source channel 3
+  receive(desk, [200, 50, 0], StartCode.PER_ADDRESS_PRIORITY);
+  receive(desk, [10, 20, 30]);
+
+  const packet = packets[packets.length - 1]!;
+  assert.ok(packet.arbitration);
+  assert.deepEqual(Array.from(packet.channels.subarray(0, 3)), [10, 50, 60]);
+  assert.deepEqual(Array.from(packet.arbitration.priorities.subarray(0, 3)), [200, 100, 100]);
+
+  const { owners, sources } = packet.arbitration;
+  assert.deepEqual([sources[owners[0]!], sources[owners[1]!], sources[owners[2]!]], ["Desk", "Backup", "Backup"]);
+  assert.notEqual(owners[511], NO_CHANNEL_OWNER);
+});
+
+test("without per-address priority the highest universe priority wins", () => {
+  const { packets, receive } = receiver();
+
+  receive(sender("Low", 50), [1, 2, 3]);
+  receive(sender("High", 150), [4, 5, 6]);
+
+  const packet = packets[packets.length - 1]!;
+  assert.equal(packet.arbitration, undefined);
+  assert.equal(packet.source, "High");
+  assert.deepEqual(Array.from(packet.channels.subarray(0, 3)), [4, 5, 6]);
+});
+
+test("merges competing sources highest-takes-precedence and latest-takes-precedence", async () => {
+  const { handler, receive } = receiver();
+  let merge: SourceMerge | null = null;
+  handler.setMergeSources(true);
+  handler.on("sourcesMerged", (latest) => (merge = latest));
+
+  const desk = sender("Desk", 100);
+  const backup = sender("Backup", 90);
+  receive(desk, [100, 10]);
+  await delay(5);
+  receive(backup, [20, 80]);
+  await delay(5);
+  // Only channel 1 changes, so the backup keeps the latest value on channel 2
+  receive(desk, [30, 10]);
+
+  assert.ok(merge);
+  const { htp, ltp, sources } = merge as SourceMerge;
+  assert.deepEqual(Array.from(htp.subarray(0, 2)), [30, 80]);
+  assert.deepEqual(Array.from(ltp.subarray(0, 2)), [30, 80]);
+  assert.deepEqual(
+    sources.map((source) => [source.sourceName, source.priority]),
+    [
+      ["Desk", 100],
+      ["Backup", 90],
+    ]
+  );
+});
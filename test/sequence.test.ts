@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createSequenceTracker, isLatePacket } from "../src/sequence";
+
+test("sACN packets up to 19 behind are late, 20 behind is a restart", () => {
+  const tracker = createSequenceTracker("sacn");
+
+  assert.equal(tracker.check("cid", "Desk", 1, 100), "ok");
+  assert.equal(tracker.check("cid", "Desk", 1, 81), "outOfOrder");
+  assert.equal(tracker.check("cid", "Desk", 1, 100), "duplicate");
+  assert.equal(tracker.check("cid", "Desk", 1, 80), "ok");
+  assert.equal(tracker.check("cid", "Desk", 1, 81), "ok");
+
+  assert.ok(isLatePacket("outOfOrder"));
+  assert.ok(isLatePacket("duplicate"));
+  assert.ok(!isLatePacket("lost"));
+});
+
+test("sACN sequence numbers wrap from 255 to 0 and count skipped packets", () => {
+  const tracker = createSequenceTracker("sacn");
+
+  tracker.check("cid", "Desk", 1, 254);
+  assert.equal(tracker.check("cid", "Desk", 1, 255), "ok");
+  assert.equal(tracker.check("cid", "Desk", 1, 0), "ok");
+  assert.equal(tracker.check("cid", "Desk", 1, 3), "lost");
+  // A skipped packet arriving late is no longer lost
+  assert.equal(tracker.check("cid", "Desk", 1, 2), "outOfOrder");
+
+  const [stats] = tracker.getStats(1);
+  assert.equal(stats!.received, 5);
+  assert.equal(stats!.lost, 1);
+  assert.equal(stats!.outOfOrder, 1);
+});
+
+test("Art-Net sequence 0 disables checking and 255 wraps to 1", () => {
+  const tracker = createSequenceTracker("artnet");
+
+  assert.equal(tracker.check("10.0.0.20", "Node", 0, 0), "unchecked");
+  assert.equal(tracker.check("10.0.0.20", "Node", 0, 0), "unchecked");
+  assert.equal(tracker.check("10.0.0.20", "Node", 0, 255), "ok");
+  assert.equal(tracker.check("10.0.0.20", "Node", 0, 1), "ok");
+
+  const [stats] = tracker.getStats(0);
+  assert.equal(stats!.duplicates, 0);
+  assert.equal(stats!.lost, 0);
+});
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validatePlaybackOptions } from "../src/setup";
+import { ConfigError } from "../src/errors";
+import { CLIOptions, StopPolicy } from "../src/types";
+
+const playback: CLIOptions = { playback: "show.dmxrec" };
+
+test("playback rejects a --sync-universe outside the sACN range", () => {
+  assert.doesNotThrow(() => validatePlaybackOptions({ ...playback, syncUniverse: 0 }));
+  assert.doesNotThrow(() => validatePlaybackOptions({ ...playback, syncUniverse: 63999 }));
+  for (const syncUniverse of [70000, -1, NaN]) {
+    assert.throws(() => validatePlaybackOptions({ ...playback, syncUniverse }), ConfigError);
+  }
+});
+
+test("playback rejects a --refresh-rate that is not a rate up to the DMX frame rate", () => {
+  assert.doesNotThrow(() => validatePlaybackOptions({ ...playback, refreshRate: 30 }));
+  for (const refreshRate of [NaN, -1, 1000]) {
+    assert.throws(() => validatePlaybackOptions({ ...playback, refreshRate }), ConfigError);
+  }
+});
+
+test("playback rejects a --keep-alive that is not a number of seconds", () => {
+  assert.doesNotThrow(() => validatePlaybackOptions({ ...playback, keepAlive: 0 }));
+  assert.doesNotThrow(() => validatePlaybackOptions({ ...playback, keepAlive: 1 }));
+  for (const keepAlive of [NaN, -1, 0.0001]) {
+    assert.throws(() => validatePlaybackOptions({ ...playback, keepAlive }), ConfigError);
+  }
+});
+
+test("playback accepts every stop policy", () => {
+  for (const onStop of ["hold", "fade", "blackout"] as StopPolicy[]) {
+    assert.doesNotThrow(() => validatePlaybackOptions({ ...playback, onStop, fadeTime: 2 }));
+  }
+});
+
+test("playback rejects an unknown --on-stop", () => {
+  for (const onStop of ["foo", "Fade"]) {
+    assert.throws(() => validatePlaybackOptions({ ...playback, onStop: onStop as StopPolicy }), ConfigError);
+  }
+});
+
+test("playback rejects a --fade-time that is not a number of seconds", () => {
+  assert.throws(() => validatePlaybackOptions({ ...playback, onStop: "fade", fadeTime: NaN }), ConfigError);
+  assert.throws(() => validatePlaybackOptions({ ...playback, onStop: "fade", fadeTime: -1 }), ConfigError);
+});
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createTimingAnalyzer, STALL_TIMEOUT_MS, TIMING_FORGET_MS } from "../src/timing";
+import { createSequenceTracker, SEQUENCE_FORGET_MS } from "../src/sequence";
+
+test("reading timing statistics does not count stalls", () => {
+  const analyzer = createTimingAnalyzer();
+  analyzer.record("cid", "Desk", 1, 0);
+  analyzer.record("cid", "Desk", 1, 25);
+
+  analyzer.getStats();
+  analyzer.getStats();
+  assert.equal(analyzer.getStats()[0]!.stalls, 0);
+
+  analyzer.checkStalls(25 + STALL_TIMEOUT_MS + 1);
+  analyzer.checkStalls(25 + STALL_TIMEOUT_MS + 500);
+  const [stats] = analyzer.getStats();
+  assert.equal(stats!.stalls, 1);
+  assert.equal(stats!.stalled, true);
+});
+
+test("silent sources are pruned from timing statistics", () => {
+  const analyzer = createTimingAnalyzer();
+  analyzer.record("a", "A", 1, 0);
+  analyzer.record("b", "B", 1, TIMING_FORGET_MS);
+
+  analyzer.prune(TIMING_FORGET_MS + 1);
+  assert.deepEqual(analyzer.getStats().map((s) => s.source), ["B"]);
+});
+
+test("silent sources are pruned from sequence statistics", () => {
+  const tracker = createSequenceTracker("sacn");
+  tracker.check("a", "A", 1, 0, 0);
+  tracker.check("b", "B", 1, 0, SEQUENCE_FORGET_MS);
+
+  tracker.prune(SEQUENCE_FORGET_MS + 1);
+  assert.deepEqual(tracker.getStats(1).map((s) => s.source), ["B"]);
+});
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "timers/promises";
+import { ArtNetTransmitter, DMXTransmitter, RefreshTransmitter } from "../src/transmitter";
+import { Protocol } from "../src/types";
+
+/**
+ * Transmitter that records what it is asked to send
+ */
+function recordingTransmitter(): DMXTransmitter & { sent: number[]; resent: number[] } {
+  const sent: number[] = [];
+  const resent: number[] = [];
+  return {
+    sent,
+    resent,
+    start: async () => {},
+    stop: async () => {},
+    terminate: async () => {},
+    send: (_channels: Uint8Array, universe?: number) => sent.push(universe!),
+    resend: (_channels: Uint8Array, universe?: number) => resent.push(universe!),
+    getProtocol: (): Protocol => "sacn",
+  };
+}
+
+test("keep-alive resends frames sent without a universe on the configured one", async () => {
+  const inner = recordingTransmitter();
+  const refresh = new RefreshTransmitter(inner, { universe: 5, keepAlive: 0.05 });
+  await refresh.start();
+  try {
+    refresh.send(new Uint8Array(512));
+    await delay(130);
+  } finally {
+    await refresh.stop();
+  }
+
+  assert.deepEqual(inner.sent, [5]);
+  assert.ok(inner.resent.length >= 1);
+  assert.ok(inner.resent.every((universe) => universe === 5));
+});
+
+test("ArtSync follows a frame's sends but not keep-alive resends", async () => {
+  const transmitter = new ArtNetTransmitter({ universe: 0, targetAddress: "10.0.0.20", sync: true });
+  const opcodes: number[] = [];
+  // Capture packets instead of opening a socket
+  transmitter["socket"] = { send: (packet: Buffer) => opcodes.push(packet.readUInt16LE(8)) } as never;
+  transmitter["isRunning"] = true;
+
+  transmitter.send(new Uint8Array(512), 0);
+  transmitter.send(new Uint8Array(512), 1);
+  await delay(5);
+  transmitter.resend(new Uint8Array(512), 0);
+  await delay(5);
+
+  assert.deepEqual(opcodes, [0x5000, 0x5000, 0x5200, 0x5000]);
+});
@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseUniverseList } from "../src/types";
+
+test("parseUniverseList expands and de-duplicates ranges", () => {
+  assert.deepEqual(parseUniverseList("3, 1-2,2"), [1, 2, 3]);
+  assert.deepEqual(parseUniverseList("63998-63999"), [63998, 63999]);
+});
+
+test("parseUniverseList rejects malformed lists", () => {
+  assert.equal(parseUniverseList("1-"), null);
+  assert.equal(parseUniverseList("5-2"), null);
+});
+
+test("parseUniverseList rejects an oversized range without expanding it", () => {
+  assert.equal(parseUniverseList("1-4000000000"), null);
+  assert.equal(parseUniverseList("64000"), null);
+});